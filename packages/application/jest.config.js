@@ -8,4 +8,8 @@ export default {
   transform: {
     ...tsJestTransformCfg,
   },
+  moduleNameMapper: {
+    "^drizzle-orm/expo-sqlite$":
+      "<rootDir>/../infrastructure/src/__mocks__/drizzle-expo.ts",
+  },
 };
@@ -2,10 +2,16 @@
 // Category Command DTOs
 // ============================================
 
+export interface ChangeCategoryIconCommand {
+  categoryId: string;
+  icon: string | null; // null clears the icon
+}
+
 export interface CreateCategoryCommand {
   name: string;
   color?: string;
   icon?: string;
+  parentId?: string;
 }
 
 export interface CreateCategoryResult {
@@ -14,8 +20,59 @@ export interface CreateCategoryResult {
 
 export interface DeleteCategoryCommand {
   categoryId: string;
+  sessionStrategy?: DeleteCategorySessionStrategy; // defaults to "block"
+  reassignToCategoryId?: string; // required for "reassign"
 }
 
 export interface DeleteCategoryResult {
   success: boolean;
+  deletedSessionIds: string[];
+  reassignedSessionIds: string[];
+}
+
+/**
+ * What happens to the category's sessions:
+ * - block: refuse to delete while the category has sessions
+ * - cascade: delete the sessions together with the category
+ * - reassign: move the sessions to `reassignToCategoryId`
+ */
+export type DeleteCategorySessionStrategy = "block" | "cascade" | "reassign";
+
+export interface MergeCategoriesCommand {
+  sourceCategoryIds: string[];
+  targetCategoryId: string;
+  sourceStrategy?: MergeCategoriesSourceStrategy; // defaults to "archive"
+}
+
+export interface MergeCategoriesResult {
+  categoryId: string;
+  movedSessionIds: string[];
+}
+
+/**
+ * What happens to the source categories after their sessions are moved:
+ * - archive: keep them as archived categories
+ * - delete: remove them
+ */
+export type MergeCategoriesSourceStrategy = "archive" | "delete";
+
+export interface MoveCategoryCommand {
+  categoryId: string;
+  parentId: string | null; // null makes it a root category
+}
+
+export interface MoveCategoryResult {
+  categoryId: string;
+  parentId: string | null;
+  depth: number; // 1 for root categories
+}
+
+export interface RecolorCategoryCommand {
+  categoryId: string;
+  color: string | null; // hex color, null clears it
+}
+
+export interface RenameCategoryCommand {
+  categoryId: string;
+  name: string;
 }
@@ -1,7 +1,72 @@
+import type { Session } from "@wimt/domain/aggregates";
+import type { SessionOverlapPolicy } from "@wimt/domain/services";
+import type { Specification } from "@wimt/domain/specifications";
+
 // ============================================
 // Session Command DTOs
 // ============================================
 
+export interface AdjustSegmentTimes {
+  segmentId: string;
+  startedAt?: number; // UTC milliseconds
+  stoppedAt?: number; // UTC milliseconds
+}
+
+export interface AdjustSessionTimesCommand {
+  sessionId: string;
+  startedAt?: number; // UTC milliseconds, new start of the first segment
+  stoppedAt?: number; // UTC milliseconds, new stop of a stopped session
+  segments?: AdjustSegmentTimes[];
+  overlapPolicy?: SessionOverlapPolicy; // defaults to "reject"
+}
+
+export interface AdjustSessionTimesResult {
+  sessionId: string;
+  startedAt: number;
+  stoppedAt: number | null;
+  totalDurationMs: number | null;
+}
+
+export interface EditSessionNoteCommand {
+  sessionId: string;
+  segmentId?: string; // edits the segment note instead of the session note
+  note: string | null; // null or blank clears the note
+}
+
+export interface EditSessionNoteResult {
+  sessionId: string;
+  segmentId: string | null;
+  note: string | null;
+}
+
+export interface LogPastSessionCommand {
+  categoryId: string;
+  ranges: LogPastSessionRange[];
+  overlapPolicy?: SessionOverlapPolicy; // defaults to "reject"
+}
+
+export interface LogPastSessionRange {
+  startedAt: number; // UTC milliseconds
+  stoppedAt: number; // UTC milliseconds
+}
+
+export interface LogPastSessionResult {
+  sessionId: string;
+  startedAt: number;
+  stoppedAt: number;
+  totalDurationMs: number;
+}
+
+export interface MergeSessionsCommand {
+  sessionIds: string[]; // at least two stopped sessions of one category
+}
+
+export interface MergeSessionsResult {
+  sessionId: string; // surviving (earliest) session
+  absorbedSessionIds: string[];
+  totalDurationMs: number;
+}
+
 export interface PauseSessionCommand {
   sessionId: string;
 }
@@ -9,6 +74,28 @@ export interface PauseSessionCommand {
 export interface PauseSessionResult {
   sessionId: string;
   pausedAt: number;
+  discardedSegmentId: string | null; // running segment was too short to keep
+}
+
+export interface RecategorizeSessionCommand {
+  sessionId: string;
+  categoryId: string;
+}
+
+export interface RecategorizeSessionResult {
+  sessionId: string;
+  previousCategoryId: string;
+  categoryId: string;
+}
+
+export interface RecategorizeSessionsCommand {
+  spec: Specification<Session>; // selects the sessions to move
+  categoryId: string;
+}
+
+export interface RecategorizeSessionsResult {
+  categoryId: string;
+  sessionIds: string[];
 }
 
 export interface ResumeSessionCommand {
@@ -20,6 +107,17 @@ export interface ResumeSessionResult {
   resumedAt: number;
 }
 
+export interface SplitSessionCommand {
+  sessionId: string;
+  splitAt: number; // UTC milliseconds
+  newCategoryId?: string; // category of the later part, defaults to the same
+}
+
+export interface SplitSessionResult {
+  sessionId: string;
+  newSessionId: string;
+}
+
 export interface StartSessionCommand {
   categoryId: string;
 }
@@ -35,6 +133,18 @@ export interface StopSessionCommand {
 
 export interface StopSessionResult {
   sessionId: string;
-  stoppedAt: number;
+  stoppedAt: number; // end of the last kept segment
   totalDurationMs: number;
+  discardedSegmentId: string | null; // running segment was too short to keep
+}
+
+export interface TagSessionCommand {
+  sessionId: string;
+  add?: string[];
+  remove?: string[];
+}
+
+export interface TagSessionResult {
+  sessionId: string;
+  tags: string[];
 }
@@ -0,0 +1,134 @@
+import "reflect-metadata";
+
+import initSqlJs from "sql.js";
+
+import {
+  CategoryRepositorySymbol,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+import {
+  DbClientSymbol,
+  SqliteCategoryRepository,
+  SqliteSessionRepository,
+} from "@wimt/infrastructure/db/sqlite";
+
+import { DomainEventPublisher } from "../services";
+import { CreateCategoryUseCase } from "../useCases/category";
+import {
+  GetActiveSessionUseCase,
+  StartSessionUseCase,
+  StopSessionUseCase,
+} from "../useCases/session";
+import { createContainer } from "./container";
+
+const MINUTE = 60 * 1000;
+
+describe("createContainer", () => {
+  describe("in-memory profile", () => {
+    it("should wire use cases against shared repositories", async () => {
+      let now = 0;
+
+      const app = createContainer({
+        profile: "in-memory",
+        timeService: { now: () => DateTime.create(now) },
+      });
+
+      const { categoryId } = await app
+        .resolve(CreateCategoryUseCase)
+        .execute({ name: "Work" });
+      const { sessionId } = await app
+        .resolve(StartSessionUseCase)
+        .execute({ categoryId });
+
+      now = 30 * MINUTE;
+
+      expect(
+        await app.resolve(GetActiveSessionUseCase).execute(),
+      ).toMatchObject({
+        sessionId,
+        categoryName: "Work",
+        elapsedMs: 30 * MINUTE,
+      });
+      expect(app.resolve(SessionRepositorySymbol)).toBeInstanceOf(
+        InMemorySessionRepository,
+      );
+      expect(app.resolve(TimeServiceSymbol).now().value).toBe(30 * MINUTE);
+      expect(() => app.resolve(DbClientSymbol)).toThrow();
+    });
+
+    it("should keep one event publisher", () => {
+      const app = createContainer({ profile: "in-memory" });
+
+      expect(app.resolve(DomainEventPublisher)).toBe(
+        app.resolve(DomainEventPublisher),
+      );
+    });
+
+    it("should merge sessions when an auto-merge policy is given", async () => {
+      let now = 0;
+
+      const app = createContainer({
+        profile: "in-memory",
+        timeService: { now: () => DateTime.create(now) },
+        autoMergePolicy: { maxGapMs: 5 * MINUTE },
+      });
+
+      const { categoryId } = await app
+        .resolve(CreateCategoryUseCase)
+        .execute({ name: "Work" });
+      const start = app.resolve(StartSessionUseCase);
+      const stop = app.resolve(StopSessionUseCase);
+
+      const first = await start.execute({ categoryId });
+
+      now = 10 * MINUTE;
+      await stop.execute({ sessionId: first.sessionId });
+
+      now = 12 * MINUTE;
+
+      const second = await start.execute({ categoryId });
+
+      now = 20 * MINUTE;
+      await stop.execute({ sessionId: second.sessionId });
+
+      const sessions = await app.resolve(SessionRepositorySymbol).findAll();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]!.history).toHaveLength(2);
+    });
+  });
+
+  describe("sqlite profiles", () => {
+    it("should bind the sqlite repositories to the sql.js client", async () => {
+      const SQL = await initSqlJs();
+      const app = createContainer({
+        profile: "sql.js",
+        database: new SQL.Database(),
+        timeService: { now: () => DateTime.create(0) },
+      });
+
+      expect(app.resolve(DbClientSymbol)).toBeDefined();
+      expect(app.resolve(SessionRepositorySymbol)).toBeInstanceOf(
+        SqliteSessionRepository,
+      );
+      expect(app.resolve(CategoryRepositorySymbol)).toBeInstanceOf(
+        SqliteCategoryRepository,
+      );
+
+      // Migrated on creation, use cases run against a fresh database
+      const { categoryId } = await app
+        .resolve(CreateCategoryUseCase)
+        .execute({ name: "Work" });
+      const { sessionId } = await app
+        .resolve(StartSessionUseCase)
+        .execute({ categoryId });
+
+      expect(
+        await app.resolve(GetActiveSessionUseCase).execute(),
+      ).toMatchObject({ sessionId, categoryName: "Work" });
+    });
+  });
+});
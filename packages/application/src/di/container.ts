@@ -0,0 +1,159 @@
+import "reflect-metadata";
+
+import { Container, type interfaces } from "inversify";
+
+import { SessionStoppedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+import {
+  createExpoDbClient,
+  createSqlJsDbClient,
+  type DbClient,
+  DbClientSymbol,
+  migrate,
+  SqliteCategoryRepository,
+  SqliteSessionRepository,
+} from "@wimt/infrastructure/db/sqlite";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import {
+  type AutoMergePolicy,
+  AutoMergePolicySymbol,
+  AutoMergeSessionsHandler,
+} from "../eventHandlers";
+import { DomainEventPublisher } from "../services";
+import * as categoryUseCases from "../useCases/category";
+import * as sessionUseCases from "../useCases/session";
+
+/**
+ * - in-memory: nothing is persisted, for tests and previews
+ * - sql.js: web, the caller opens the sql.js database
+ * - expo-sqlite: mobile, the caller opens the expo-sqlite database
+ */
+export type ContainerOptions = (
+  | {
+      profile: "expo-sqlite";
+      database: Parameters<typeof createExpoDbClient>[0];
+    }
+  | { profile: "in-memory" }
+  | { profile: "sql.js"; database: Parameters<typeof createSqlJsDbClient>[0] }
+) & {
+  autoMergePolicy?: AutoMergePolicy; // subscribes AutoMergeSessionsHandler when set
+  timeService?: ITimeService; // defaults to the system clock
+};
+
+/**
+ * Services registered under a symbol; use cases, event handlers and
+ * DomainEventPublisher are resolved by their class.
+ */
+export interface SymbolServices {
+  [CategoryRepositorySymbol]: ICategoryRepository;
+  [DbClientSymbol]: DbClient; // not bound for the in-memory profile
+  [SessionRepositorySymbol]: ISessionRepository;
+  [TimeServiceSymbol]: ITimeService;
+}
+
+type Resolved<K extends ServiceKey> = K extends keyof SymbolServices
+  ? SymbolServices[K]
+  : K extends interfaces.Newable<infer T>
+    ? T
+    : never;
+
+type ServiceKey = interfaces.Newable<unknown> | keyof SymbolServices;
+
+/**
+ * Typed facade over the inversify container
+ */
+export class AppContainer {
+  constructor(readonly container: Container) {}
+
+  resolve<K extends ServiceKey>(id: K): Resolved<K> {
+    return this.container.get(id) as Resolved<K>;
+  }
+}
+
+/**
+ * Composition root: wire repositories, services, use cases and
+ * event handlers for one persistence profile.
+ *
+ * SQLite databases are migrated to the current schema first.
+ *
+ * @throws DatabaseVersionError when a newer app version migrated the database
+ */
+export function createContainer(options: ContainerOptions): AppContainer {
+  const container = new Container();
+
+  bindPersistence(container, options);
+
+  // Services
+  container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+
+  if (options.timeService) {
+    container.bind(TimeServiceSymbol).toConstantValue(options.timeService);
+  } else {
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+  }
+
+  // Use cases
+  [
+    ...Object.values(sessionUseCases),
+    ...Object.values(categoryUseCases),
+  ].forEach((useCase) => container.bind(useCase).toSelf());
+
+  // Event handlers
+  container.bind(AutoMergeSessionsHandler).toSelf();
+
+  if (options.autoMergePolicy) {
+    container
+      .bind<AutoMergePolicy>(AutoMergePolicySymbol)
+      .toConstantValue(options.autoMergePolicy);
+    container
+      .get(DomainEventPublisher)
+      .subscribe(SessionStoppedDomainEvent, (event) =>
+        container.get(AutoMergeSessionsHandler).handle(event),
+      );
+  }
+
+  return new AppContainer(container);
+}
+
+function bindPersistence(container: Container, options: ContainerOptions) {
+  if (options.profile === "in-memory") {
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+
+    return;
+  }
+
+  const db =
+    options.profile === "sql.js"
+      ? createSqlJsDbClient(options.database)
+      : createExpoDbClient(options.database);
+
+  migrate(db);
+
+  // Constructed here: infrastructure decorates with another inversify major,
+  // whose @inject metadata this container cannot read
+  container.bind<DbClient>(DbClientSymbol).toConstantValue(db);
+  container
+    .bind<ISessionRepository>(SessionRepositorySymbol)
+    .toConstantValue(new SqliteSessionRepository(db));
+  container
+    .bind<ICategoryRepository>(CategoryRepositorySymbol)
+    .toConstantValue(new SqliteCategoryRepository(db));
+}
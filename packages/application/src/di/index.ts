@@ -0,0 +1,6 @@
+export {
+  AppContainer,
+  type ContainerOptions,
+  createContainer,
+  type SymbolServices,
+} from "./container";
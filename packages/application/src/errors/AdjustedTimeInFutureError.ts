@@ -0,0 +1,9 @@
+import { ApplicationError } from "./ApplicationError";
+
+export class AdjustedTimeInFutureError extends ApplicationError {
+  constructor() {
+    super(
+      "Cannot adjust session times into the future: every time must be before now.",
+    );
+  }
+}
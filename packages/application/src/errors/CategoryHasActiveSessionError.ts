@@ -0,0 +1,9 @@
+import { ApplicationError } from "./ApplicationError";
+
+export class CategoryHasActiveSessionError extends ApplicationError {
+  constructor() {
+    super(
+      "Cannot delete category: it has an active or paused session. Please stop the current session first.",
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { ApplicationError } from "./ApplicationError";
+
+export class CategoryHasSessionsError extends ApplicationError {
+  constructor() {
+    super(
+      "Cannot delete category: it still has sessions. Delete them too or reassign them to another category.",
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { FieldValidationError } from "./FieldValidationError";
+
+/**
+ * Another category already has the name, ignoring case and Unicode form.
+ * Reported on the "name" field so forms can show it next to the input.
+ */
+export class CategoryNameTakenError extends FieldValidationError {
+  constructor(name: string) {
+    const message = `Category name "${name}" is already taken`;
+
+    super({ name: message }, message);
+  }
+}
@@ -0,0 +1,43 @@
+import { ValidationDomainError } from "@wimt/domain/errors";
+
+import { ApplicationError } from "./ApplicationError";
+
+/**
+ * Invalid input keyed by the form field it came from,
+ * e.g. { name: "Category name must be at least 1 characters long" }
+ */
+export class FieldValidationError extends ApplicationError {
+  constructor(
+    public readonly fieldErrors: Record<string, string>,
+    message = `Invalid fields: ${Object.keys(fieldErrors).join(", ")}`,
+  ) {
+    super(message);
+  }
+
+  /**
+   * Run one value object factory per field. ValidationDomainErrors are
+   * collected by field and thrown together, other errors pass through.
+   */
+  static parse<T extends Record<string, unknown>>(parsers: {
+    [K in keyof T]: () => T[K];
+  }): T {
+    const values: Partial<T> = {};
+    const fieldErrors: Record<string, string> = {};
+
+    for (const field of Object.keys(parsers) as (keyof T & string)[]) {
+      try {
+        values[field] = parsers[field]();
+      } catch (error) {
+        if (!(error instanceof ValidationDomainError)) throw error;
+
+        fieldErrors[field] = error.message;
+      }
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new FieldValidationError(fieldErrors);
+    }
+
+    return values as T;
+  }
+}
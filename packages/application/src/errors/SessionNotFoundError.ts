@@ -0,0 +1,7 @@
+import { ApplicationError } from "./ApplicationError";
+
+export class SessionNotFoundError extends ApplicationError {
+  constructor(sessionId: string) {
+    super(`Session with id ${sessionId} not found`);
+  }
+}
@@ -0,0 +1,7 @@
+import { ApplicationError } from "./ApplicationError";
+
+export class TimeRangeInFutureError extends ApplicationError {
+  constructor() {
+    super("Cannot log time in the future: every range must end before now.");
+  }
+}
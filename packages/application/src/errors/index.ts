@@ -1,3 +1,17 @@
 export { ApplicationError } from "./ApplicationError";
 
 export { ActiveSessionExistsAlreadyError } from "./ActiveSessionExistsAlreadyError";
+
+export { AdjustedTimeInFutureError } from "./AdjustedTimeInFutureError";
+
+export { CategoryHasActiveSessionError } from "./CategoryHasActiveSessionError";
+
+export { CategoryHasSessionsError } from "./CategoryHasSessionsError";
+
+export { CategoryNameTakenError } from "./CategoryNameTakenError";
+
+export { FieldValidationError } from "./FieldValidationError";
+
+export { SessionNotFoundError } from "./SessionNotFoundError";
+
+export { TimeRangeInFutureError } from "./TimeRangeInFutureError";
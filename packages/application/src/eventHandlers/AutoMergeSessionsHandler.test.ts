@@ -0,0 +1,130 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import { SessionStoppedDomainEvent } from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, makeId, type ULID } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../services";
+import { MergeSessionsUseCase } from "../useCases/session";
+import {
+  type AutoMergePolicy,
+  AutoMergePolicySymbol,
+  AutoMergeSessionsHandler,
+} from "./AutoMergeSessionsHandler";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe("AutoMergeSessionsHandler", () => {
+  let container: Container;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+  let categoryId: ULID;
+
+  const logSession = async (
+    startedAt: number,
+    stoppedAt: number,
+    sessionCategoryId = categoryId,
+  ) => {
+    const session = Session.createCompleted({
+      categoryId: sessionCategoryId,
+      segments: [
+        {
+          startedAt: DateTime.create(startedAt),
+          stoppedAt: DateTime.create(stoppedAt),
+        },
+      ],
+      loggedAt: DateTime.create(stoppedAt),
+    });
+
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+
+    return session;
+  };
+
+  const publishStopped = (session: Session) =>
+    eventPublisher.publish(
+      new SessionStoppedDomainEvent(
+        session.id,
+        session.getDurationMs()!,
+        session.stoppedAt!,
+      ),
+    );
+
+  beforeEach(() => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(MergeSessionsUseCase).toSelf();
+    container
+      .bind<AutoMergePolicy>(AutoMergePolicySymbol)
+      .toConstantValue({ maxGapMs: 10 * MINUTE });
+    container.bind(AutoMergeSessionsHandler).toSelf();
+
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+    categoryId = makeId();
+
+    const handler = container.get(AutoMergeSessionsHandler);
+
+    eventPublisher.subscribe(SessionStoppedDomainEvent, (event) =>
+      handler.handle(event),
+    );
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should merge into previous session when gap is short", async () => {
+    // Given: A Work session and another one started 5 minutes after it
+    const previous = await logSession(0, HOUR);
+    const current = await logSession(HOUR + 5 * MINUTE, 2 * HOUR);
+
+    // When: The second session stops
+    await publishStopped(current);
+
+    // Then: Both are folded into the first one
+    expect(await sessionRepo.count()).toBe(1);
+
+    const merged = await sessionRepo.findById(previous.id);
+
+    expect(merged!.history).toHaveLength(2);
+    expect(merged!.getDurationMs()).toBe(HOUR + 55 * MINUTE);
+  });
+
+  it("should not merge when gap is too long", async () => {
+    await logSession(0, HOUR);
+
+    const current = await logSession(HOUR + 30 * MINUTE, 2 * HOUR);
+
+    await publishStopped(current);
+
+    expect(await sessionRepo.count()).toBe(2);
+  });
+
+  it("should not merge sessions of another category", async () => {
+    await logSession(0, HOUR, makeId());
+
+    const current = await logSession(HOUR + 5 * MINUTE, 2 * HOUR);
+
+    await publishStopped(current);
+
+    expect(await sessionRepo.count()).toBe(2);
+  });
+});
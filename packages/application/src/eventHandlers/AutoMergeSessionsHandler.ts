@@ -0,0 +1,71 @@
+import "reflect-metadata";
+
+import { maxBy } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import type { SessionStoppedDomainEvent } from "@wimt/domain/events";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import {
+  SessionForCategorySpec,
+  SessionStoppedInRangeSpec,
+  StoppedSessionSpec,
+} from "@wimt/domain/specifications";
+import { TimeRange } from "@wimt/domain/valueObjects";
+
+import { MergeSessionsUseCase } from "../useCases/session";
+
+export interface AutoMergePolicy {
+  maxGapMs: number; // largest pause between two sessions that still merges them
+}
+
+export const AutoMergePolicySymbol = Symbol.for("AutoMergePolicy");
+
+/**
+ * Event Handler: Merge a just-stopped session into the previous session
+ * of the same category when the gap between them is short enough.
+ *
+ * Opt-in: subscribe it to SessionStoppedDomainEvent and bind an AutoMergePolicy.
+ */
+@injectable()
+export class AutoMergeSessionsHandler {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(MergeSessionsUseCase) private mergeSessions: MergeSessionsUseCase,
+    @inject(AutoMergePolicySymbol) private policy: AutoMergePolicy,
+  ) {}
+
+  async handle(event: SessionStoppedDomainEvent): Promise<void> {
+    const session = await this.sessionRepo.findById(event.sessionId);
+
+    if (!session || session.state !== "stopped") return;
+
+    const startedAt = session.startedAt;
+    const candidates = await this.sessionRepo.findManyBySpec(
+      new SessionForCategorySpec(session.categoryId)
+        .and(new StoppedSessionSpec())
+        .and(
+          new SessionStoppedInRangeSpec(
+            TimeRange.create(
+              startedAt.subtract(this.policy.maxGapMs),
+              startedAt,
+            ),
+          ),
+        ),
+    );
+
+    const previous = maxBy(
+      candidates.filter((candidate) => candidate.id !== session.id),
+      (candidate) => candidate.stoppedAt!.value,
+    );
+
+    if (!previous) return;
+
+    await this.mergeSessions.execute({
+      sessionIds: [previous.id, session.id],
+    });
+  }
+}
@@ -0,0 +1,5 @@
+export {
+  type AutoMergePolicy,
+  AutoMergePolicySymbol,
+  AutoMergeSessionsHandler,
+} from "./AutoMergeSessionsHandler";
@@ -38,6 +38,21 @@ export interface CategorySummaryDTO {
   color: string | null;
 }
 
+/**
+ * DTO for a node of the category hierarchy
+ * Used by: Nested category picker, category management
+ */
+export interface CategoryTreeNodeDTO {
+  categoryId: string;
+  name: string;
+  color: string | null;
+  icon: string | null;
+  isArchived: boolean;
+  parentId: string | null;
+  depth: number; // 1 for root categories
+  children: CategoryTreeNodeDTO[];
+}
+
 /**
  * DTO for category with statistics
  * Used by: Dashboard, category overview
@@ -48,13 +63,33 @@ export interface CategoryWithStatsDTO {
   color: string | null;
   icon: string | null;
   isArchived: boolean;
-  // Statistics
+  parentId: string | null;
+  depth: number; // 1 for root categories
+  // Statistics (own sessions only)
   totalSessions: number;
   activeSessions: number;
   totalDurationMs: number;
   averageDurationMs: number;
   lastUsedAt: number | null;
+  // Rolled-up statistics (own sessions and all descendants)
+  rolledUpTotalSessions: number;
+  rolledUpDurationMs: number;
   // Calculated fields
   percentageOfTotal: number; // % of all time
   formattedTotalDuration: string; // e.g., "25h 30m"
+  formattedRolledUpDuration: string;
+}
+
+/**
+ * Query for a single category
+ */
+export interface GetCategoryQuery {
+  categoryId: string;
+}
+
+/**
+ * Query for the category list, sorted by name
+ */
+export interface ListCategoriesQuery {
+  includeArchived?: boolean; // defaults to false, archived are hidden from pickers
 }
@@ -21,6 +21,29 @@ export interface ActiveSessionDTO {
   canStop: boolean;
 }
 
+/**
+ * Query for the full details of one session
+ */
+export interface GetSessionQuery {
+  sessionId: string;
+}
+
+/**
+ * Query for session statistics
+ * "Today" and "this week" follow the local calendar of the time zone
+ */
+export interface GetSessionStatsQuery {
+  timeZone?: string; // IANA time zone, defaults to "UTC"
+  weekStartsOn?: number; // 0 (Sunday) to 6 (Saturday), defaults to 1 (Monday)
+}
+
+/**
+ * Query for the session history list, most recently started first
+ */
+export interface ListSessionsQuery {
+  categoryId?: string; // only sessions of this category
+}
+
 /**
  * DTO for full session details with all segments
  * Used by: Session history, session detail view
@@ -37,6 +60,8 @@ export interface SessionDTO {
   totalDurationMs: number;
   segments: SessionSegmentDTO[];
   segmentCount: number;
+  tags: string[];
+  note: string | null;
 }
 
 /**
@@ -53,6 +78,7 @@ export interface SessionListItemDTO {
   stoppedAt: number | null;
   totalDurationMs: number;
   formattedDuration: string; // e.g., "1h 30m"
+  tags: string[];
 }
 
 /**
@@ -65,6 +91,7 @@ export interface SessionSegmentDTO {
   endTime: number | null; // null if still active
   durationMs: number;
   isPaused: boolean;
+  note: string | null;
 }
 
 /**
@@ -80,3 +107,16 @@ export interface SessionStatsDTO {
   todayDurationMs: number;
   thisWeekDurationMs: number;
 }
+
+/**
+ * DTO for tag with statistics
+ * Used by: Dashboard, reports
+ */
+export interface TagWithStatsDTO {
+  tag: string;
+  totalSessions: number;
+  totalDurationMs: number;
+  averageDurationMs: number;
+  percentageOfTotal: number; // % of all time, sessions may carry several tags
+  formattedTotalDuration: string; // e.g., "25h 30m"
+}
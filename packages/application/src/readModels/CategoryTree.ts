@@ -0,0 +1,61 @@
+import { sortBy } from "es-toolkit";
+
+import type { Category } from "@wimt/domain/aggregates";
+import type { ULID } from "@wimt/domain/valueObjects";
+
+import { CategoryHierarchy } from "@wimt/domain/services";
+
+import type { CategoryTreeNodeDTO } from "../queries";
+
+/**
+ * Read model: categories arranged as a tree, children sorted by name.
+ * Built from a snapshot of all categories, it is not kept up to date.
+ */
+export class CategoryTree {
+  private readonly hierarchy: CategoryHierarchy;
+
+  constructor(categories: Category[]) {
+    this.hierarchy = new CategoryHierarchy(categories);
+  }
+
+  get roots(): CategoryTreeNodeDTO[] {
+    return this.toNodes(this.hierarchy.childrenOf(null), 1);
+  }
+
+  depthOf(categoryId: ULID): number {
+    return this.hierarchy.depthOf(categoryId);
+  }
+
+  /**
+   * Ids of the category and all its descendants
+   */
+  subtreeIdsOf(categoryId: ULID): ULID[] {
+    return [
+      categoryId,
+      ...this.hierarchy
+        .descendantsOf(categoryId)
+        .map((descendant) => descendant.id),
+    ];
+  }
+
+  private toNodes(
+    categories: Category[],
+    depth: number,
+  ): CategoryTreeNodeDTO[] {
+    return sortBy(categories, [(category) => category.name.value]).map(
+      (category) => ({
+        categoryId: category.id,
+        name: category.name.value,
+        color: category.color?.value ?? null,
+        icon: category.icon?.value ?? null,
+        isArchived: category.isArchived,
+        parentId: category.parentId,
+        depth,
+        children: this.toNodes(
+          this.hierarchy.childrenOf(category.id),
+          depth + 1,
+        ),
+      }),
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import type { Session } from "@wimt/domain/aggregates";
+
+import {
+  type DateTime,
+  Duration,
+  type TimeRange,
+} from "@wimt/domain/valueObjects";
+
+/**
+ * Read model: time tracked by sessions as of a given moment.
+ * Completed segments count in full, a running segment counts up to now.
+ */
+export class TrackedTime {
+  constructor(private readonly now: DateTime) {}
+
+  of(session: Session): Duration {
+    return session.getElapsed(this.now);
+  }
+
+  total(sessions: Session[]): Duration {
+    return Duration.sum(sessions.map((session) => this.of(session)));
+  }
+
+  /**
+   * Time tracked within the given range, segments are clipped to it
+   */
+  within(sessions: Session[], range: TimeRange): Duration {
+    return Duration.sum(
+      sessions.flatMap((session) =>
+        range
+          .clip(session.getTrackedRanges(this.now))
+          .map((part) => part.duration),
+      ),
+    );
+  }
+}
@@ -0,0 +1,3 @@
+export { CategoryTree } from "./CategoryTree";
+
+export { TrackedTime } from "./TrackedTime";
@@ -0,0 +1,77 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { ChangeCategoryIconUseCase } from "./ChangeCategoryIconUseCase";
+
+describe("ChangeCategoryIconUseCase", () => {
+  let container: Container;
+  let useCase: ChangeCategoryIconUseCase;
+  let categoryRepo: ICategoryRepository;
+  let category: Category;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(ChangeCategoryIconUseCase).toSelf();
+
+    useCase = container.get(ChangeCategoryIconUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+
+    category = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(category);
+  });
+
+  it("should set and clear the icon", async () => {
+    const set = await useCase.execute({
+      categoryId: category.id,
+      icon: "briefcase",
+    });
+
+    expect(set.icon).toBe("briefcase");
+
+    const cleared = await useCase.execute({
+      categoryId: category.id,
+      icon: null,
+    });
+
+    expect(cleared.icon).toBeNull();
+    expect((await categoryRepo.findById(category.id))!.icon).toBeNull();
+  });
+
+  it("should report an empty icon on the icon field", async () => {
+    const promise = useCase.execute({ categoryId: category.id, icon: "" });
+
+    await expect(promise).rejects.toThrow(FieldValidationError);
+    await expect(promise).rejects.toMatchObject({
+      fieldErrors: { icon: "Icon value must not be empty" },
+    });
+  });
+
+  it("should throw when category not found", async () => {
+    const promise = useCase.execute({ categoryId: makeId(), icon: null });
+
+    await expect(promise).rejects.toThrow("not found");
+  });
+});
@@ -0,0 +1,64 @@
+import "reflect-metadata";
+
+import { isNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { Icon } from "@wimt/domain/valueObjects";
+
+import type { ChangeCategoryIconCommand } from "../../commands";
+import type { CategoryDTO } from "../../queries";
+
+import { FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { toCategoryDTO } from "./categoryDTO";
+
+/**
+ * Use Case: Change or clear the icon of a category
+ *
+ * Business Rules:
+ * - Category must exist, archived categories can be edited too
+ * - An invalid icon is reported on the "icon" field
+ * - null clears the icon
+ *
+ * Domain Events Emitted:
+ * - CategoryEditedDomainEvent
+ */
+@injectable()
+export class ChangeCategoryIconUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: ChangeCategoryIconCommand): Promise<CategoryDTO> {
+    // 1. Parse icon before touching the category
+    const { icon } = FieldValidationError.parse({
+      icon: () => (isNil(command.icon) ? null : Icon.create(command.icon)),
+    });
+
+    // 2. Load category
+    const category = await this.categoryRepo.findById(command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    // 3. Change icon (domain logic)
+    category.setIcon(icon, this.timeService.now());
+
+    // 4. Persist category
+    await this.categoryRepo.save(category);
+
+    // 5. Publish domain events
+    await this.eventPublisher.publishAll(category.pullDomainEvents());
+
+    // 6. Return result DTO
+    return toCategoryDTO(category);
+  }
+}
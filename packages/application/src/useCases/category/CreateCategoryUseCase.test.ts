@@ -0,0 +1,152 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import {
+  CategoryArchivedError,
+  CategoryDepthExceededError,
+} from "@wimt/domain/errors";
+import { CategoryCreatedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { MAX_CATEGORY_DEPTH } from "@wimt/domain/services";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { CategoryNameTakenError, FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { CreateCategoryUseCase } from "./CreateCategoryUseCase";
+
+const NOW = DateTime.create(5000);
+
+describe("CreateCategoryUseCase", () => {
+  let container: Container;
+  let useCase: CreateCategoryUseCase;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+
+  beforeEach(() => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).toConstantValue({ now: () => NOW });
+    container.bind(CreateCategoryUseCase).toSelf();
+
+    useCase = container.get(CreateCategoryUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should create and save a category", async () => {
+    const eventHandler = jest.fn();
+
+    eventPublisher.subscribe(CategoryCreatedDomainEvent, eventHandler);
+
+    const result = await useCase.execute({
+      name: "  Work ",
+      color: "#FF0000",
+      icon: "briefcase",
+    });
+
+    const saved = await categoryRepo.findById(result.categoryId);
+
+    expect(saved!.name.value).toBe("Work");
+    expect(saved!.color?.value).toBe("#ff0000");
+    expect(saved!.icon?.value).toBe("briefcase");
+    expect(saved!.createdAt.value).toBe(NOW.value);
+    expect(eventHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report every invalid field together", async () => {
+    const promise = useCase.execute({ name: "   ", color: "red" });
+
+    await expect(promise).rejects.toThrow(FieldValidationError);
+    await expect(promise).rejects.toMatchObject({
+      fieldErrors: {
+        name: expect.stringContaining("Category name"),
+        color: "Color value must be a valid hex color",
+      },
+    });
+    expect(await categoryRepo.findAll()).toHaveLength(0);
+  });
+
+  it("should reject a name taken regardless of case and spacing", async () => {
+    await useCase.execute({ name: "Work" });
+
+    const promise = useCase.execute({ name: " work " });
+
+    await expect(promise).rejects.toThrow(CategoryNameTakenError);
+    await expect(promise).rejects.toMatchObject({
+      fieldErrors: { name: 'Category name "work" is already taken' },
+    });
+    expect(await categoryRepo.findAll()).toHaveLength(1);
+  });
+
+  describe("with parent", () => {
+    const saveCategory = async (props: { parentId?: Category["id"] } = {}) => {
+      const category = new Category({
+        name: CategoryName.create("Parent"),
+        createdAt: DateTime.create(0),
+        ...props,
+      });
+
+      await categoryRepo.save(category);
+
+      return category;
+    };
+
+    it("should nest the category under the parent", async () => {
+      const parent = await saveCategory();
+
+      const result = await useCase.execute({
+        name: "Child",
+        parentId: parent.id,
+      });
+
+      const saved = await categoryRepo.findById(result.categoryId);
+
+      expect(saved!.parentId).toBe(parent.id);
+    });
+
+    it("should throw when the parent does not exist", async () => {
+      const promise = useCase.execute({ name: "Child", parentId: makeId() });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should throw when the parent is archived", async () => {
+      const parent = await saveCategory();
+
+      parent.archive(DateTime.create(1000));
+      await categoryRepo.save(parent);
+
+      const promise = useCase.execute({ name: "Child", parentId: parent.id });
+
+      await expect(promise).rejects.toThrow(CategoryArchivedError);
+    });
+
+    it("should throw when nesting would be too deep", async () => {
+      let deepest = await saveCategory();
+
+      for (let level = 2; level <= MAX_CATEGORY_DEPTH; level++) {
+        deepest = await saveCategory({ parentId: deepest.id });
+      }
+
+      const promise = useCase.execute({ name: "Child", parentId: deepest.id });
+
+      await expect(promise).rejects.toThrow(CategoryDepthExceededError);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import "reflect-metadata";
+
+import { invariant, isNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import { CategoryArchivedError } from "@wimt/domain/errors";
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { CategoryHierarchy } from "@wimt/domain/services";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryNameEqualsSpec } from "@wimt/domain/specifications";
+import {
+  CategoryName,
+  Color,
+  Icon,
+  type ULID,
+} from "@wimt/domain/valueObjects";
+
+import type {
+  CreateCategoryCommand,
+  CreateCategoryResult,
+} from "../../commands";
+
+import { CategoryNameTakenError, FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Create a category
+ *
+ * Business Rules:
+ * - Name is required, color must be a hex color
+ * - Invalid fields are reported together in a FieldValidationError
+ * - Name must be unique, ignoring case and Unicode form
+ * - Parent must exist and not be archived
+ * - Nesting cannot exceed MAX_CATEGORY_DEPTH levels
+ *
+ * Domain Events Emitted:
+ * - CategoryCreatedDomainEvent
+ */
+@injectable()
+export class CreateCategoryUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: CreateCategoryCommand): Promise<CreateCategoryResult> {
+    // 1. Parse fields before touching the repository
+    const fields = FieldValidationError.parse({
+      name: () => CategoryName.create(command.name),
+      color: () =>
+        isNil(command.color) ? undefined : Color.create(command.color),
+      icon: () => (isNil(command.icon) ? undefined : Icon.create(command.icon)),
+    });
+
+    // 2. Check the name is free
+    const namesake = await this.categoryRepo.findOneBySpec(
+      new CategoryNameEqualsSpec(fields.name),
+    );
+
+    invariant(isNil(namesake), new CategoryNameTakenError(fields.name.value));
+
+    // 3. Create category (domain logic)
+    const parentId = (command.parentId ?? null) as ULID | null;
+    const category = new Category({
+      ...fields,
+      parentId,
+      createdAt: this.timeService.now(),
+    });
+
+    // 4. Validate parent against the whole hierarchy
+    if (!isNil(parentId)) {
+      const categories = await this.categoryRepo.findAll();
+      const parent = categories.find(({ id }) => id === parentId);
+
+      if (!parent) {
+        throw new Error(`Category with id ${parentId} not found`);
+      }
+
+      invariant(!parent.isArchived, new CategoryArchivedError(parent.id));
+
+      new CategoryHierarchy([...categories, category]).assertCanAttach(
+        category,
+        parentId,
+      );
+    }
+
+    // 5. Persist category
+    await this.categoryRepo.save(category);
+
+    // 6. Publish domain events
+    await this.eventPublisher.publishAll(category.pullDomainEvents());
+
+    // 7. Return result DTO
+    return {
+      categoryId: category.id,
+    };
+  }
+}
@@ -0,0 +1,230 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import { CategoryDeletedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import {
+  CategoryHasActiveSessionError,
+  CategoryHasSessionsError,
+} from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { DeleteCategoryUseCase } from "./DeleteCategoryUseCase";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("DeleteCategoryUseCase", () => {
+  let container: Container;
+  let useCase: DeleteCategoryUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let work: Category;
+  let personal: Category;
+
+  const logSession = async (categoryId: string, startedAt: number) => {
+    const session = Session.createCompleted({
+      categoryId,
+      segments: [
+        {
+          startedAt: DateTime.create(startedAt),
+          stoppedAt: DateTime.create(startedAt + HOUR),
+        },
+      ],
+      loggedAt: DateTime.create(startedAt + HOUR),
+    });
+
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+
+    return session;
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(DeleteCategoryUseCase).toSelf();
+
+    useCase = container.get(DeleteCategoryUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: "Work" and "Personal" categories
+    work = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    personal = new Category({
+      name: CategoryName.create("Personal"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(work);
+    await categoryRepo.save(personal);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("block strategy", () => {
+    it("should delete a category without sessions", async () => {
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(CategoryDeletedDomainEvent, eventHandler);
+
+      const result = await useCase.execute({ categoryId: work.id });
+
+      expect(result.success).toBe(true);
+      expect(await categoryRepo.findById(work.id)).toBeNull();
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: work.id }),
+      );
+    });
+
+    it("should refuse to delete a category with sessions", async () => {
+      await logSession(work.id, 0);
+
+      const promise = useCase.execute({
+        categoryId: work.id,
+        sessionStrategy: "block",
+      });
+
+      await expect(promise).rejects.toThrow(CategoryHasSessionsError);
+      expect(await categoryRepo.findById(work.id)).not.toBeNull();
+    });
+  });
+
+  describe("child categories", () => {
+    it("should move children up to the deleted category's parent", async () => {
+      // Given: Work > Clients > Client A
+      const clients = new Category({
+        name: CategoryName.create("Clients"),
+        createdAt: DateTime.create(0),
+        parentId: work.id,
+      });
+      const clientA = new Category({
+        name: CategoryName.create("Client A"),
+        createdAt: DateTime.create(0),
+        parentId: clients.id,
+      });
+
+      await categoryRepo.save(clients);
+      await categoryRepo.save(clientA);
+
+      await useCase.execute({ categoryId: clients.id });
+
+      expect((await categoryRepo.findById(clientA.id))!.parentId).toBe(work.id);
+    });
+  });
+
+  describe("cascade strategy", () => {
+    it("should delete the category's sessions too", async () => {
+      const saveAndDeleteSpy = jest.spyOn(sessionRepo, "saveAndDelete");
+      const workSession = await logSession(work.id, 0);
+      const personalSession = await logSession(personal.id, 2 * HOUR);
+
+      const result = await useCase.execute({
+        categoryId: work.id,
+        sessionStrategy: "cascade",
+      });
+
+      expect(result.deletedSessionIds).toEqual([workSession.id]);
+      expect(saveAndDeleteSpy).toHaveBeenCalledWith([], [workSession.id]);
+      expect(await sessionRepo.findById(workSession.id)).toBeNull();
+      expect(await sessionRepo.findById(personalSession.id)).not.toBeNull();
+      expect(await categoryRepo.findById(work.id)).toBeNull();
+    });
+  });
+
+  describe("reassign strategy", () => {
+    it("should move sessions to another category in bulk", async () => {
+      const saveManySpy = jest.spyOn(sessionRepo, "saveMany");
+      const session = await logSession(work.id, 0);
+
+      const result = await useCase.execute({
+        categoryId: work.id,
+        sessionStrategy: "reassign",
+        reassignToCategoryId: personal.id,
+      });
+
+      expect(result.reassignedSessionIds).toEqual([session.id]);
+      expect((await sessionRepo.findById(session.id))!.categoryId).toBe(
+        personal.id,
+      );
+      expect(await categoryRepo.findById(work.id)).toBeNull();
+      expect(saveManySpy).not.toHaveBeenCalled();
+    });
+
+    it("should throw error if target category does not exist", async () => {
+      const session = await logSession(work.id, 0);
+
+      const promise = useCase.execute({
+        categoryId: work.id,
+        sessionStrategy: "reassign",
+        reassignToCategoryId: makeId(),
+      });
+
+      await expect(promise).rejects.toThrow("not found");
+      expect((await sessionRepo.findById(session.id))!.categoryId).toBe(
+        work.id,
+      );
+    });
+
+    it("should throw error if target is the deleted category", async () => {
+      const promise = useCase.execute({
+        categoryId: work.id,
+        sessionStrategy: "reassign",
+        reassignToCategoryId: work.id,
+      });
+
+      await expect(promise).rejects.toThrow("choose another category");
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if category does not exist", async () => {
+      const promise = useCase.execute({ categoryId: makeId() });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should refuse to delete a category with an active session", async () => {
+      await sessionRepo.save(
+        Session._validTestInstance({ categoryId: work.id }),
+      );
+
+      const promise = useCase.execute({
+        categoryId: work.id,
+        sessionStrategy: "cascade",
+      });
+
+      await expect(promise).rejects.toThrow(CategoryHasActiveSessionError);
+      expect(await sessionRepo.count()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { CategoryHierarchy } from "@wimt/domain/services";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { SessionForCategorySpec } from "@wimt/domain/specifications";
+
+import type {
+  DeleteCategoryCommand,
+  DeleteCategoryResult,
+} from "../../commands";
+
+import {
+  ApplicationError,
+  CategoryHasActiveSessionError,
+  CategoryHasSessionsError,
+} from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Delete a category and decide what happens to its sessions
+ *
+ * Business Rules:
+ * - Category must exist
+ * - Category with an active or paused session cannot be deleted
+ * - Child categories move up to the deleted category's parent
+ * - "block" (default): refuse while the category has sessions
+ * - "cascade": delete the category's sessions as well, in one transaction
+ * - "reassign": move the sessions to another existing category in one
+ *   bulk update
+ *
+ * Domain Events Emitted:
+ * - CategoryDeletedDomainEvent
+ * - CategoryEditedDomainEvent (per moved child category)
+ */
+@injectable()
+export class DeleteCategoryUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: DeleteCategoryCommand): Promise<DeleteCategoryResult> {
+    const strategy = command.sessionStrategy ?? "block";
+
+    // 1. Load category and the whole hierarchy
+    const categories = await this.categoryRepo.findAll();
+    const category = categories.find(({ id }) => id === command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    // 2. Check category sessions
+    const sessions = await this.sessionRepo.findManyBySpec(
+      new SessionForCategorySpec(category.id),
+    );
+
+    if (sessions.some((session) => session.state !== "stopped")) {
+      throw new CategoryHasActiveSessionError();
+    }
+
+    if (strategy === "block" && sessions.length > 0) {
+      throw new CategoryHasSessionsError();
+    }
+
+    let deletedSessionIds: string[] = [];
+    let reassignedSessionIds: string[] = [];
+
+    // 3. Apply session strategy
+    if (strategy === "cascade") {
+      deletedSessionIds = sessions.map((session) => session.id);
+      await this.sessionRepo.saveAndDelete([], deletedSessionIds);
+    }
+
+    if (strategy === "reassign") {
+      const target = await this.findReassignTarget(command);
+
+      reassignedSessionIds = await this.sessionRepo.reassignCategory(
+        [category.id],
+        target.id,
+      );
+    }
+
+    // 4. Move child categories up to the deleted category's parent
+    const now = this.timeService.now();
+    const hierarchy = new CategoryHierarchy(categories);
+    const children = hierarchy.childrenOf(category.id);
+
+    for (const child of children) {
+      child.setParent(category.parentId, hierarchy, now);
+      await this.categoryRepo.save(child);
+    }
+
+    // 5. Delete category
+    category.delete(now);
+    await this.categoryRepo.delete(category.id);
+
+    // 6. Publish domain events
+    const events = [category, ...children].flatMap((aggregate) =>
+      aggregate.pullDomainEvents(),
+    );
+
+    await this.eventPublisher.publishAll(events);
+
+    // 7. Return result DTO
+    return {
+      success: true,
+      deletedSessionIds,
+      reassignedSessionIds,
+    };
+  }
+
+  private async findReassignTarget(command: DeleteCategoryCommand) {
+    const targetId = command.reassignToCategoryId;
+
+    if (!targetId || targetId === command.categoryId) {
+      throw new ApplicationError(
+        "Cannot reassign sessions: choose another category to move them to.",
+      );
+    }
+
+    const target = await this.categoryRepo.findById(targetId);
+
+    if (!target) {
+      throw new Error(`Category with id ${targetId} not found`);
+    }
+
+    return target;
+  }
+}
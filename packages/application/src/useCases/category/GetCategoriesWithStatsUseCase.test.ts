@@ -0,0 +1,159 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+
+import { GetCategoriesWithStatsUseCase } from "./GetCategoriesWithStatsUseCase";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = 10 * HOUR;
+
+describe("GetCategoriesWithStatsUseCase", () => {
+  let container: Container;
+  let useCase: GetCategoriesWithStatsUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let work: Category;
+  let clientA: Category;
+  let meetings: Category;
+
+  const createCategory = async (name: string, parent?: Category) => {
+    const category = new Category({
+      name: CategoryName.create(name),
+      createdAt: DateTime.create(0),
+      parentId: parent?.id,
+    });
+
+    await categoryRepo.save(category);
+
+    return category;
+  };
+
+  const logSession = async (
+    category: Category,
+    startedAt: number,
+    stoppedAt: number,
+  ) => {
+    await sessionRepo.save(
+      Session.createCompleted({
+        categoryId: category.id,
+        segments: [
+          {
+            startedAt: DateTime.create(startedAt),
+            stoppedAt: DateTime.create(stoppedAt),
+          },
+        ],
+        loggedAt: DateTime.create(stoppedAt),
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(NOW) });
+    container.bind(GetCategoriesWithStatsUseCase).toSelf();
+
+    useCase = container.get(GetCategoriesWithStatsUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+
+    // Given: Work (1h) > Client A (2h) > Meetings (30m)
+    work = await createCategory("Work");
+    clientA = await createCategory("Client A", work);
+    meetings = await createCategory("Meetings", clientA);
+    await logSession(work, 0, HOUR);
+    await logSession(clientA, 2 * HOUR, 4 * HOUR);
+    await logSession(meetings, 5 * HOUR, 5 * HOUR + 30 * MINUTE);
+  });
+
+  const statsOf = async (category: Category) =>
+    (await useCase.execute()).find(
+      (stats) => stats.categoryId === category.id,
+    )!;
+
+  it("should report own and rolled-up time", async () => {
+    const workStats = await statsOf(work);
+    const clientStats = await statsOf(clientA);
+    const meetingsStats = await statsOf(meetings);
+
+    expect(workStats).toMatchObject({
+      depth: 1,
+      totalSessions: 1,
+      totalDurationMs: HOUR,
+      rolledUpTotalSessions: 3,
+      rolledUpDurationMs: 3 * HOUR + 30 * MINUTE,
+      formattedTotalDuration: "1h 0m",
+      formattedRolledUpDuration: "3h 30m",
+    });
+    expect(clientStats).toMatchObject({
+      depth: 2,
+      parentId: work.id,
+      totalDurationMs: 2 * HOUR,
+      rolledUpDurationMs: 2 * HOUR + 30 * MINUTE,
+    });
+    expect(meetingsStats.rolledUpDurationMs).toBe(30 * MINUTE);
+  });
+
+  it("should compute percentage, average and last use", async () => {
+    await logSession(work, 6 * HOUR, 9 * HOUR);
+
+    const workStats = await statsOf(work);
+
+    expect(workStats.totalDurationMs).toBe(4 * HOUR);
+    expect(workStats.averageDurationMs).toBe(2 * HOUR);
+    expect(workStats.lastUsedAt).toBe(9 * HOUR);
+    expect(workStats.percentageOfTotal).toBeCloseTo((4 / 6.5) * 100);
+  });
+
+  it("should count running sessions up to now", async () => {
+    await sessionRepo.save(
+      new Session({
+        categoryId: meetings.id,
+        createdAt: DateTime.create(NOW - HOUR),
+      }),
+    );
+
+    const meetingsStats = await statsOf(meetings);
+
+    expect(meetingsStats.activeSessions).toBe(1);
+    expect(meetingsStats.totalDurationMs).toBe(HOUR + 30 * MINUTE);
+    expect(meetingsStats.lastUsedAt).toBe(NOW);
+  });
+
+  it("should keep archived categories in the report", async () => {
+    meetings.archive(DateTime.create(NOW));
+    await categoryRepo.save(meetings);
+
+    const meetingsStats = await statsOf(meetings);
+
+    expect(meetingsStats.isArchived).toBe(true);
+    expect((await statsOf(work)).rolledUpDurationMs).toBe(
+      3 * HOUR + 30 * MINUTE,
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import "reflect-metadata";
+
+import { groupBy, isNotNil, maxBy } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import type { Session } from "@wimt/domain/aggregates";
+import type { DateTime } from "@wimt/domain/valueObjects";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type { CategoryWithStatsDTO } from "../../queries";
+
+import { CategoryTree, TrackedTime } from "../../readModels";
+
+/**
+ * Query: Every category with its own and rolled-up statistics
+ *
+ * - Own statistics cover sessions of the category itself
+ * - Rolled-up statistics add the sessions of all descendants
+ * - Running sessions count up to now
+ * - Archived categories are included so history stays in reports
+ */
+@injectable()
+export class GetCategoriesWithStatsUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(): Promise<CategoryWithStatsDTO[]> {
+    const now = this.timeService.now();
+    const categories = await this.categoryRepo.findAll();
+    const sessions = await this.sessionRepo.findAll();
+    const tree = new CategoryTree(categories);
+    const sessionsByCategory = groupBy(
+      sessions,
+      (session) => session.categoryId,
+    );
+    const trackedTime = new TrackedTime(now);
+    const grandTotal = trackedTime.total(sessions);
+
+    return categories.map((category) => {
+      const own = sessionsByCategory[category.id] ?? [];
+      const rolledUp = tree
+        .subtreeIdsOf(category.id)
+        .flatMap((id) => sessionsByCategory[id] ?? []);
+      const total = trackedTime.total(own);
+      const rolledUpTotal = trackedTime.total(rolledUp);
+      const lastUsed = maxBy(own, (session) => this.lastUsedAt(session, now));
+
+      return {
+        categoryId: category.id,
+        name: category.name.value,
+        color: category.color?.value ?? null,
+        icon: category.icon?.value ?? null,
+        isArchived: category.isArchived,
+        parentId: category.parentId,
+        depth: tree.depthOf(category.id),
+        totalSessions: own.length,
+        activeSessions: own.filter((session) => session.state !== "stopped")
+          .length,
+        totalDurationMs: total.value,
+        averageDurationMs: own.length > 0 ? total.divide(own.length).value : 0,
+        lastUsedAt: isNotNil(lastUsed) ? this.lastUsedAt(lastUsed, now) : null,
+        rolledUpTotalSessions: rolledUp.length,
+        rolledUpDurationMs: rolledUpTotal.value,
+        percentageOfTotal:
+          grandTotal.value > 0 ? (total.value / grandTotal.value) * 100 : 0,
+        formattedTotalDuration: total.format(),
+        formattedRolledUpDuration: rolledUpTotal.format(),
+      };
+    });
+  }
+
+  private lastUsedAt(session: Session, now: DateTime): number {
+    return (session.stoppedAt ?? now).value;
+  }
+}
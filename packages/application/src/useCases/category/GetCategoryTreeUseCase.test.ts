@@ -0,0 +1,87 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { CategoryName, DateTime } from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { GetCategoryTreeUseCase } from "./GetCategoryTreeUseCase";
+
+describe("GetCategoryTreeUseCase", () => {
+  let container: Container;
+  let useCase: GetCategoryTreeUseCase;
+  let categoryRepo: ICategoryRepository;
+
+  const createCategory = async (name: string, parent?: Category) => {
+    const category = new Category({
+      name: CategoryName.create(name),
+      createdAt: DateTime.create(0),
+      parentId: parent?.id,
+    });
+
+    await categoryRepo.save(category);
+
+    return category;
+  };
+
+  beforeEach(() => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(GetCategoryTreeUseCase).toSelf();
+
+    useCase = container.get(GetCategoryTreeUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+  });
+
+  it("should return nested nodes sorted by name", async () => {
+    // Given: Work > Client A > Meetings, Work > Admin and a "Personal" root
+    const work = await createCategory("Work");
+    const clientA = await createCategory("Client A", work);
+
+    await createCategory("Meetings", clientA);
+    await createCategory("Admin", work);
+    await createCategory("Personal");
+
+    // When
+    const roots = await useCase.execute();
+
+    // Then
+    expect(roots.map((node) => node.name)).toEqual(["Personal", "Work"]);
+
+    const workNode = roots[1]!;
+
+    expect(workNode.depth).toBe(1);
+    expect(workNode.children.map((node) => node.name)).toEqual([
+      "Admin",
+      "Client A",
+    ]);
+    expect(workNode.children[1]!.children[0]).toMatchObject({
+      name: "Meetings",
+      parentId: clientA.id,
+      depth: 3,
+      children: [],
+    });
+  });
+
+  it("should treat categories with a missing parent as roots", async () => {
+    const ghost = new Category({
+      name: CategoryName.create("Deleted"),
+      createdAt: DateTime.create(0),
+    });
+
+    await createCategory("Orphan", ghost);
+
+    const roots = await useCase.execute();
+
+    expect(roots.map((node) => node.name)).toEqual(["Orphan"]);
+  });
+});
@@ -0,0 +1,28 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+
+import type { CategoryTreeNodeDTO } from "../../queries";
+
+import { CategoryTree } from "../../readModels";
+
+/**
+ * Query: All categories as a tree of root nodes, archived ones included
+ */
+@injectable()
+export class GetCategoryTreeUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+  ) {}
+
+  async execute(): Promise<CategoryTreeNodeDTO[]> {
+    const categories = await this.categoryRepo.findAll();
+
+    return new CategoryTree(categories).roots;
+  }
+}
@@ -0,0 +1,68 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import {
+  CategoryName,
+  Color,
+  DateTime,
+  Icon,
+  makeId,
+} from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { GetCategoryUseCase } from "./GetCategoryUseCase";
+
+describe("GetCategoryUseCase", () => {
+  let container: Container;
+  let useCase: GetCategoryUseCase;
+  let categoryRepo: ICategoryRepository;
+
+  beforeEach(() => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(GetCategoryUseCase).toSelf();
+
+    useCase = container.get(GetCategoryUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+  });
+
+  it("should return the category details", async () => {
+    const category = new Category({
+      name: CategoryName.create("Work"),
+      color: Color.create("#ff0000"),
+      icon: Icon.create("briefcase"),
+      createdAt: DateTime.create(0),
+    });
+
+    category.archive(DateTime.create(3000));
+    await categoryRepo.save(category);
+
+    const result = await useCase.execute({ categoryId: category.id });
+
+    expect(result).toEqual({
+      categoryId: category.id,
+      name: "Work",
+      color: "#ff0000",
+      icon: "briefcase",
+      isArchived: true,
+      createdAt: 0,
+      updatedAt: 3000,
+    });
+  });
+
+  it("should throw when category not found", async () => {
+    const promise = useCase.execute({ categoryId: makeId() });
+
+    await expect(promise).rejects.toThrow("not found");
+  });
+});
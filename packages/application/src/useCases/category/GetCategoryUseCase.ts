@@ -0,0 +1,32 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+
+import type { CategoryDTO, GetCategoryQuery } from "../../queries";
+
+import { toCategoryDTO } from "./categoryDTO";
+
+/**
+ * Query: Full details of one category, for the edit form
+ */
+@injectable()
+export class GetCategoryUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+  ) {}
+
+  async execute(query: GetCategoryQuery): Promise<CategoryDTO> {
+    const category = await this.categoryRepo.findById(query.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${query.categoryId} not found`);
+    }
+
+    return toCategoryDTO(category);
+  }
+}
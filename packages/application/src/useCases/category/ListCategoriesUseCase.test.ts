@@ -0,0 +1,74 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { CategoryName, DateTime } from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { ListCategoriesUseCase } from "./ListCategoriesUseCase";
+
+describe("ListCategoriesUseCase", () => {
+  let container: Container;
+  let useCase: ListCategoriesUseCase;
+  let categoryRepo: ICategoryRepository;
+
+  const createCategory = async (name: string, archived = false) => {
+    const category = new Category({
+      name: CategoryName.create(name),
+      createdAt: DateTime.create(0),
+    });
+
+    if (archived) category.archive(DateTime.create(1000));
+
+    await categoryRepo.save(category);
+
+    return category;
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(ListCategoriesUseCase).toSelf();
+
+    useCase = container.get(ListCategoriesUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+
+    // Given: two active categories and an archived one
+    await createCategory("Work");
+    await createCategory("Old project", true);
+    await createCategory("Exercise");
+  });
+
+  it("should list active categories sorted by name", async () => {
+    const result = await useCase.execute();
+
+    expect(result.map((item) => item.name)).toEqual(["Exercise", "Work"]);
+    expect(result[0]).toEqual({
+      categoryId: expect.any(String),
+      name: "Exercise",
+      color: null,
+      icon: null,
+      isArchived: false,
+    });
+  });
+
+  it("should include archived categories on request", async () => {
+    const result = await useCase.execute({ includeArchived: true });
+
+    expect(result.map((item) => item.name)).toEqual([
+      "Exercise",
+      "Old project",
+      "Work",
+    ]);
+    expect(result[1]!.isArchived).toBe(true);
+  });
+});
@@ -0,0 +1,35 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+
+import type { CategoryListItemDTO, ListCategoriesQuery } from "../../queries";
+
+import { toCategoryListItemDTO } from "./categoryDTO";
+
+/**
+ * Query: Categories for pickers and lists, sorted by name
+ *
+ * - Archived categories are left out unless includeArchived is set
+ */
+@injectable()
+export class ListCategoriesUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+  ) {}
+
+  async execute(
+    query: ListCategoriesQuery = {},
+  ): Promise<CategoryListItemDTO[]> {
+    const categories = await this.categoryRepo.findAll();
+
+    return categories
+      .filter((category) => query.includeArchived || !category.isArchived)
+      .sort((a, b) => a.name.value.localeCompare(b.name.value))
+      .map(toCategoryListItemDTO);
+  }
+}
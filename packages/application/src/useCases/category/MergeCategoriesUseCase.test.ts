@@ -0,0 +1,216 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import { CategoryArchivedError } from "@wimt/domain/errors";
+import { CategoriesMergedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { SessionForCategorySpec } from "@wimt/domain/specifications";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../../services";
+import { MergeCategoriesUseCase } from "./MergeCategoriesUseCase";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("MergeCategoriesUseCase", () => {
+  let container: Container;
+  let useCase: MergeCategoriesUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let dev: Category;
+  let development: Category;
+  let coding: Category;
+
+  const createCategory = async (name: string) => {
+    const category = new Category({
+      name: CategoryName.create(name),
+      createdAt: DateTime.create(0),
+    });
+
+    await categoryRepo.save(category);
+
+    return category;
+  };
+
+  const logSession = async (categoryId: string, startedAt: number) => {
+    const session = Session.createCompleted({
+      categoryId,
+      segments: [
+        {
+          startedAt: DateTime.create(startedAt),
+          stoppedAt: DateTime.create(startedAt + HOUR),
+        },
+      ],
+      loggedAt: DateTime.create(startedAt + HOUR),
+    });
+
+    await sessionRepo.save(session);
+
+    return session;
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(MergeCategoriesUseCase).toSelf();
+
+    useCase = container.get(MergeCategoriesUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: "Dev", "Development" and "Coding" categories with sessions
+    dev = await createCategory("Dev");
+    development = await createCategory("Development");
+    coding = await createCategory("Coding");
+    await logSession(dev.id, 0);
+    await logSession(development.id, 2 * HOUR);
+    await logSession(coding.id, 4 * HOUR);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("successful merge", () => {
+    it("should move all source sessions and archive sources", async () => {
+      // When: Merging "Dev" and "Coding" into "Development"
+      const result = await useCase.execute({
+        sourceCategoryIds: [dev.id, coding.id],
+        targetCategoryId: development.id,
+      });
+
+      // Then: All sessions belong to "Development"
+      const sessions = await sessionRepo.findManyBySpec(
+        new SessionForCategorySpec(development.id),
+      );
+
+      expect(sessions).toHaveLength(3);
+      expect(result.movedSessionIds).toHaveLength(2);
+
+      // And: Sources are kept as archived
+      expect((await categoryRepo.findById(dev.id))!.isArchived).toBe(true);
+      expect((await categoryRepo.findById(coding.id))!.isArchived).toBe(true);
+    });
+
+    it("should delete sources when asked to", async () => {
+      await useCase.execute({
+        sourceCategoryIds: [dev.id, coding.id],
+        targetCategoryId: development.id,
+        sourceStrategy: "delete",
+      });
+
+      expect(await categoryRepo.findById(dev.id)).toBeNull();
+      expect(await categoryRepo.findById(coding.id)).toBeNull();
+      expect(await categoryRepo.count()).toBe(1);
+    });
+
+    it("should move children of deleted sources to their nearest kept ancestor", async () => {
+      // Given: Work > Development > Coding > Backend
+      const work = await createCategory("Work");
+      const nested = (category: Category, parentId: string) =>
+        new Category({
+          id: category.id,
+          name: category.name,
+          createdAt: category.createdAt,
+          parentId,
+        });
+
+      await categoryRepo.save(nested(development, work.id));
+      await categoryRepo.save(nested(coding, development.id));
+
+      const backend = new Category({
+        name: CategoryName.create("Backend"),
+        createdAt: DateTime.create(0),
+        parentId: coding.id,
+      });
+
+      await categoryRepo.save(backend);
+
+      await useCase.execute({
+        targetCategoryId: dev.id,
+        sourceCategoryIds: [development.id, coding.id],
+        sourceStrategy: "delete",
+      });
+
+      expect((await categoryRepo.findById(backend.id))!.parentId).toBe(work.id);
+    });
+
+    it("should publish CategoriesMergedDomainEvent", async () => {
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(CategoriesMergedDomainEvent, eventHandler);
+
+      await useCase.execute({
+        sourceCategoryIds: [dev.id, coding.id],
+        targetCategoryId: development.id,
+      });
+
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          categoryId: development.id,
+          sourceCategoryIds: [dev.id, coding.id],
+        }),
+      );
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if a source category does not exist", async () => {
+      const promise = useCase.execute({
+        sourceCategoryIds: [dev.id, makeId()],
+        targetCategoryId: development.id,
+      });
+
+      await expect(promise).rejects.toThrow("not found");
+      expect(
+        await sessionRepo.findManyBySpec(new SessionForCategorySpec(dev.id)),
+      ).toHaveLength(1);
+    });
+
+    it("should throw error if target is one of the sources", async () => {
+      const promise = useCase.execute({
+        sourceCategoryIds: [dev.id, development.id],
+        targetCategoryId: development.id,
+      });
+
+      await expect(promise).rejects.toThrow("merged into itself");
+    });
+
+    it("should throw error if target is archived", async () => {
+      development.archive(DateTime.create(0));
+      await categoryRepo.save(development);
+
+      const promise = useCase.execute({
+        sourceCategoryIds: [dev.id],
+        targetCategoryId: development.id,
+      });
+
+      await expect(promise).rejects.toThrow(CategoryArchivedError);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import type { Category } from "@wimt/domain/aggregates";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { CategoryHierarchy } from "@wimt/domain/services";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type {
+  MergeCategoriesCommand,
+  MergeCategoriesResult,
+} from "../../commands";
+
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Merge source categories into a target category
+ *
+ * Business Rules:
+ * - Target and source categories must exist
+ * - Target must not be archived or be one of the sources
+ * - Every session of the sources is moved to the target in one bulk update
+ * - Sources are archived (default) or deleted afterwards
+ * - Children of deleted sources move up to their nearest kept ancestor
+ *
+ * Domain Events Emitted:
+ * - CategoriesMergedDomainEvent
+ * - CategoryArchivedDomainEvent or CategoryDeletedDomainEvent (per source)
+ * - CategoryEditedDomainEvent (per moved child category)
+ */
+@injectable()
+export class MergeCategoriesUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(
+    command: MergeCategoriesCommand,
+  ): Promise<MergeCategoriesResult> {
+    const sourceStrategy = command.sourceStrategy ?? "archive";
+
+    // 1. Load target and source categories
+    const target = await this.findCategory(command.targetCategoryId);
+    const sources: Category[] = [];
+
+    for (const sourceId of new Set(command.sourceCategoryIds)) {
+      sources.push(await this.findCategory(sourceId));
+    }
+
+    // 2. Merge categories (domain logic)
+    const now = this.timeService.now();
+
+    target.merge(sources, now);
+
+    // 3. Move sessions in bulk
+    const movedSessionIds = await this.sessionRepo.reassignCategory(
+      sources.map((source) => source.id),
+      target.id,
+    );
+
+    // 4. Archive or delete sources
+    const moved = new Set<Category>();
+
+    if (sourceStrategy === "delete") {
+      // Children of deleted sources move up to the nearest kept ancestor
+      const hierarchy = new CategoryHierarchy(
+        await this.categoryRepo.findAll(),
+      );
+      const sourceIds = new Set(sources.map((source) => source.id));
+
+      for (const source of sources) {
+        const parentId =
+          hierarchy
+            .ancestorsOf(source.id)
+            .find((ancestor) => !sourceIds.has(ancestor.id))?.id ?? null;
+
+        for (const child of hierarchy.childrenOf(source.id)) {
+          if (sourceIds.has(child.id)) continue;
+
+          child.setParent(parentId, hierarchy, now);
+          moved.add(child);
+        }
+      }
+    }
+
+    for (const source of sources) {
+      if (sourceStrategy === "delete") {
+        source.delete(now);
+        await this.categoryRepo.delete(source.id);
+      } else if (!source.isArchived) {
+        source.archive(now);
+        await this.categoryRepo.save(source);
+      }
+    }
+
+    for (const child of moved) {
+      await this.categoryRepo.save(child);
+    }
+
+    // 5. Publish domain events
+    const events = [target, ...sources, ...moved].flatMap((category) =>
+      category.pullDomainEvents(),
+    );
+
+    await this.eventPublisher.publishAll(events);
+
+    // 6. Return result DTO
+    return {
+      categoryId: target.id,
+      movedSessionIds,
+    };
+  }
+
+  private async findCategory(categoryId: string): Promise<Category> {
+    const category = await this.categoryRepo.findById(categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${categoryId} not found`);
+    }
+
+    return category;
+  }
+}
@@ -0,0 +1,165 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import {
+  CategoryArchivedError,
+  CategoryCycleError,
+  CategoryDepthExceededError,
+} from "@wimt/domain/errors";
+import { CategoryEditedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { MAX_CATEGORY_DEPTH } from "@wimt/domain/services";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../../services";
+import { MoveCategoryUseCase } from "./MoveCategoryUseCase";
+
+describe("MoveCategoryUseCase", () => {
+  let container: Container;
+  let useCase: MoveCategoryUseCase;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let work: Category;
+  let clientA: Category;
+  let meetings: Category;
+
+  const createCategory = async (name: string) => {
+    const category = new Category({
+      name: CategoryName.create(name),
+      createdAt: DateTime.create(0),
+    });
+
+    await categoryRepo.save(category);
+
+    return category;
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(MoveCategoryUseCase).toSelf();
+
+    useCase = container.get(MoveCategoryUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: "Work", "Client A" and "Meetings" root categories
+    work = await createCategory("Work");
+    clientA = await createCategory("Client A");
+    meetings = await createCategory("Meetings");
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("successful move", () => {
+    it("should build Work > Client A > Meetings", async () => {
+      await useCase.execute({ categoryId: clientA.id, parentId: work.id });
+
+      const result = await useCase.execute({
+        categoryId: meetings.id,
+        parentId: clientA.id,
+      });
+
+      expect(result.depth).toBe(3);
+      expect((await categoryRepo.findById(meetings.id))!.parentId).toBe(
+        clientA.id,
+      );
+    });
+
+    it("should make a category a root again", async () => {
+      await useCase.execute({ categoryId: clientA.id, parentId: work.id });
+
+      const result = await useCase.execute({
+        categoryId: clientA.id,
+        parentId: null,
+      });
+
+      expect(result).toEqual({
+        categoryId: clientA.id,
+        parentId: null,
+        depth: 1,
+      });
+    });
+
+    it("should publish CategoryEditedDomainEvent", async () => {
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(CategoryEditedDomainEvent, eventHandler);
+      await useCase.execute({ categoryId: clientA.id, parentId: work.id });
+
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: clientA.id }),
+      );
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if category or parent does not exist", async () => {
+      await expect(
+        useCase.execute({ categoryId: makeId(), parentId: work.id }),
+      ).rejects.toThrow("not found");
+      await expect(
+        useCase.execute({ categoryId: work.id, parentId: makeId() }),
+      ).rejects.toThrow("not found");
+    });
+
+    it("should refuse to nest under an archived category", async () => {
+      work.archive(DateTime.create(1000));
+      await categoryRepo.save(work);
+
+      const promise = useCase.execute({
+        categoryId: clientA.id,
+        parentId: work.id,
+      });
+
+      await expect(promise).rejects.toThrow(CategoryArchivedError);
+      expect((await categoryRepo.findById(clientA.id))!.parentId).toBeNull();
+    });
+
+    it("should refuse to create a cycle", async () => {
+      await useCase.execute({ categoryId: clientA.id, parentId: work.id });
+
+      const promise = useCase.execute({
+        categoryId: work.id,
+        parentId: clientA.id,
+      });
+
+      await expect(promise).rejects.toThrow(CategoryCycleError);
+      expect((await categoryRepo.findById(work.id))!.parentId).toBeNull();
+    });
+
+    it("should refuse to nest deeper than the max depth", async () => {
+      let parent = work;
+
+      for (let depth = 2; depth <= MAX_CATEGORY_DEPTH; depth++) {
+        const child = await createCategory(`Level ${depth}`);
+
+        await useCase.execute({ categoryId: child.id, parentId: parent.id });
+        parent = child;
+      }
+
+      const promise = useCase.execute({
+        categoryId: meetings.id,
+        parentId: parent.id,
+      });
+
+      await expect(promise).rejects.toThrow(CategoryDepthExceededError);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import "reflect-metadata";
+
+import { invariant, isNotNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import { CategoryArchivedError } from "@wimt/domain/errors";
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { CategoryHierarchy } from "@wimt/domain/services";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type { MoveCategoryCommand, MoveCategoryResult } from "../../commands";
+
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Nest a category under another one or make it a root
+ *
+ * Business Rules:
+ * - Category and new parent must exist
+ * - New parent must not be archived
+ * - Category cannot be nested under itself or its descendants
+ * - Nesting cannot exceed MAX_CATEGORY_DEPTH levels, moved subtree included
+ *
+ * Domain Events Emitted:
+ * - CategoryEditedDomainEvent
+ */
+@injectable()
+export class MoveCategoryUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: MoveCategoryCommand): Promise<MoveCategoryResult> {
+    // 1. Load category and the whole hierarchy
+    const categories = await this.categoryRepo.findAll();
+    const category = categories.find(({ id }) => id === command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    if (isNotNil(command.parentId)) {
+      const parent = categories.find(({ id }) => id === command.parentId);
+
+      if (!parent) {
+        throw new Error(`Category with id ${command.parentId} not found`);
+      }
+
+      invariant(!parent.isArchived, new CategoryArchivedError(parent.id));
+    }
+
+    // 2. Move category (domain logic)
+    const hierarchy = new CategoryHierarchy(categories);
+
+    category.setParent(command.parentId, hierarchy, this.timeService.now());
+
+    // 3. Persist category
+    await this.categoryRepo.save(category);
+
+    // 4. Publish domain events
+    await this.eventPublisher.publishAll(category.pullDomainEvents());
+
+    // 5. Return result DTO
+    return {
+      categoryId: category.id,
+      parentId: category.parentId,
+      depth: hierarchy.depthOf(category.id),
+    };
+  }
+}
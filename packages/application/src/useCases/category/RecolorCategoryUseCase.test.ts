@@ -0,0 +1,90 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import {
+  CategoryName,
+  Color,
+  DateTime,
+  makeId,
+} from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { RecolorCategoryUseCase } from "./RecolorCategoryUseCase";
+
+describe("RecolorCategoryUseCase", () => {
+  let container: Container;
+  let useCase: RecolorCategoryUseCase;
+  let categoryRepo: ICategoryRepository;
+  let category: Category;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(RecolorCategoryUseCase).toSelf();
+
+    useCase = container.get(RecolorCategoryUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+
+    category = new Category({
+      name: CategoryName.create("Work"),
+      color: Color.create("#000000"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(category);
+  });
+
+  it("should change the color", async () => {
+    const result = await useCase.execute({
+      categoryId: category.id,
+      color: "#00FF00",
+    });
+
+    expect(result.color).toBe("#00ff00");
+    expect((await categoryRepo.findById(category.id))!.color?.value).toBe(
+      "#00ff00",
+    );
+  });
+
+  it("should clear the color with null", async () => {
+    const result = await useCase.execute({
+      categoryId: category.id,
+      color: null,
+    });
+
+    expect(result.color).toBeNull();
+  });
+
+  it("should report an invalid color on the color field", async () => {
+    const promise = useCase.execute({
+      categoryId: category.id,
+      color: "green",
+    });
+
+    await expect(promise).rejects.toThrow(FieldValidationError);
+    await expect(promise).rejects.toMatchObject({
+      fieldErrors: { color: "Color value must be a valid hex color" },
+    });
+  });
+
+  it("should throw when category not found", async () => {
+    const promise = useCase.execute({ categoryId: makeId(), color: null });
+
+    await expect(promise).rejects.toThrow("not found");
+  });
+});
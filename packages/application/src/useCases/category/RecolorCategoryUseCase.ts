@@ -0,0 +1,64 @@
+import "reflect-metadata";
+
+import { isNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { Color } from "@wimt/domain/valueObjects";
+
+import type { RecolorCategoryCommand } from "../../commands";
+import type { CategoryDTO } from "../../queries";
+
+import { FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { toCategoryDTO } from "./categoryDTO";
+
+/**
+ * Use Case: Change or clear the color of a category
+ *
+ * Business Rules:
+ * - Category must exist, archived categories can be edited too
+ * - A color that is not a hex color is reported on the "color" field
+ * - null clears the color
+ *
+ * Domain Events Emitted:
+ * - CategoryEditedDomainEvent
+ */
+@injectable()
+export class RecolorCategoryUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: RecolorCategoryCommand): Promise<CategoryDTO> {
+    // 1. Parse color before touching the category
+    const { color } = FieldValidationError.parse({
+      color: () => (isNil(command.color) ? null : Color.create(command.color)),
+    });
+
+    // 2. Load category
+    const category = await this.categoryRepo.findById(command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    // 3. Recolor (domain logic)
+    category.setColor(color, this.timeService.now());
+
+    // 4. Persist category
+    await this.categoryRepo.save(category);
+
+    // 5. Publish domain events
+    await this.eventPublisher.publishAll(category.pullDomainEvents());
+
+    // 6. Return result DTO
+    return toCategoryDTO(category);
+  }
+}
@@ -0,0 +1,119 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category } from "@wimt/domain/aggregates";
+import { CategoryEditedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemoryCategoryRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { CategoryNameTakenError, FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { RenameCategoryUseCase } from "./RenameCategoryUseCase";
+
+describe("RenameCategoryUseCase", () => {
+  let container: Container;
+  let useCase: RenameCategoryUseCase;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let category: Category;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(5000) });
+    container.bind(RenameCategoryUseCase).toSelf();
+
+    useCase = container.get(RenameCategoryUseCase);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    category = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(category);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should rename the category and return its details", async () => {
+    const eventHandler = jest.fn();
+
+    eventPublisher.subscribe(CategoryEditedDomainEvent, eventHandler);
+
+    const result = await useCase.execute({
+      categoryId: category.id,
+      name: "Client work",
+    });
+
+    expect(result).toEqual({
+      categoryId: category.id,
+      name: "Client work",
+      color: null,
+      icon: null,
+      isArchived: false,
+      createdAt: 0,
+      updatedAt: 5000,
+    });
+    expect((await categoryRepo.findById(category.id))!.name.value).toBe(
+      "Client work",
+    );
+    expect(eventHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report an invalid name on the name field", async () => {
+    const promise = useCase.execute({ categoryId: category.id, name: " " });
+
+    await expect(promise).rejects.toThrow(FieldValidationError);
+    await expect(promise).rejects.toMatchObject({
+      fieldErrors: { name: expect.any(String) },
+    });
+  });
+
+  it("should reject a name taken by another category", async () => {
+    await categoryRepo.save(
+      new Category({
+        name: CategoryName.create("Personal"),
+        createdAt: DateTime.create(0),
+      }),
+    );
+
+    const promise = useCase.execute({
+      categoryId: category.id,
+      name: "PERSONAL",
+    });
+
+    await expect(promise).rejects.toThrow(CategoryNameTakenError);
+    expect((await categoryRepo.findById(category.id))!.name.value).toBe("Work");
+  });
+
+  it("should allow changing the case of the own name", async () => {
+    const result = await useCase.execute({
+      categoryId: category.id,
+      name: "WORK",
+    });
+
+    expect(result.name).toBe("WORK");
+  });
+
+  it("should throw when category not found", async () => {
+    const promise = useCase.execute({ categoryId: makeId(), name: "Work" });
+
+    await expect(promise).rejects.toThrow("not found");
+  });
+});
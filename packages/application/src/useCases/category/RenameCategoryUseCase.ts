@@ -0,0 +1,75 @@
+import "reflect-metadata";
+
+import { invariant } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryNameEqualsSpec } from "@wimt/domain/specifications";
+import { CategoryName } from "@wimt/domain/valueObjects";
+
+import type { RenameCategoryCommand } from "../../commands";
+import type { CategoryDTO } from "../../queries";
+
+import { CategoryNameTakenError, FieldValidationError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { toCategoryDTO } from "./categoryDTO";
+
+/**
+ * Use Case: Rename a category
+ *
+ * Business Rules:
+ * - Category must exist, archived categories can be renamed too
+ * - An invalid name is reported as a FieldValidationError on "name"
+ * - Name must be unique, changing only the case of the own name is allowed
+ *
+ * Domain Events Emitted:
+ * - CategoryEditedDomainEvent
+ */
+@injectable()
+export class RenameCategoryUseCase {
+  constructor(
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: RenameCategoryCommand): Promise<CategoryDTO> {
+    // 1. Parse name before touching the category
+    const { name } = FieldValidationError.parse({
+      name: () => CategoryName.create(command.name),
+    });
+
+    // 2. Load category
+    const category = await this.categoryRepo.findById(command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    // 3. Check the name is free
+    const namesake = await this.categoryRepo.findOneBySpec(
+      new CategoryNameEqualsSpec(name),
+    );
+
+    invariant(
+      !namesake || namesake.id === category.id,
+      new CategoryNameTakenError(name.value),
+    );
+
+    // 4. Rename (domain logic)
+    category.setName(name, this.timeService.now());
+
+    // 5. Persist category
+    await this.categoryRepo.save(category);
+
+    // 6. Publish domain events
+    await this.eventPublisher.publishAll(category.pullDomainEvents());
+
+    // 7. Return result DTO
+    return toCategoryDTO(category);
+  }
+}
@@ -0,0 +1,21 @@
+import type { Category } from "@wimt/domain/aggregates";
+
+import type { CategoryDTO, CategoryListItemDTO } from "../../queries";
+
+export function toCategoryDTO(category: Category): CategoryDTO {
+  return {
+    ...toCategoryListItemDTO(category),
+    createdAt: category.createdAt.value,
+    updatedAt: category.updatedAt.value,
+  };
+}
+
+export function toCategoryListItemDTO(category: Category): CategoryListItemDTO {
+  return {
+    categoryId: category.id,
+    name: category.name.value,
+    color: category.color?.value ?? null,
+    icon: category.icon?.value ?? null,
+    isArchived: category.isArchived,
+  };
+}
@@ -0,0 +1,21 @@
+export { ChangeCategoryIconUseCase } from "./ChangeCategoryIconUseCase";
+
+export { CreateCategoryUseCase } from "./CreateCategoryUseCase";
+
+export { DeleteCategoryUseCase } from "./DeleteCategoryUseCase";
+
+export { GetCategoriesWithStatsUseCase } from "./GetCategoriesWithStatsUseCase";
+
+export { GetCategoryTreeUseCase } from "./GetCategoryTreeUseCase";
+
+export { GetCategoryUseCase } from "./GetCategoryUseCase";
+
+export { ListCategoriesUseCase } from "./ListCategoriesUseCase";
+
+export { MergeCategoriesUseCase } from "./MergeCategoriesUseCase";
+
+export { MoveCategoryUseCase } from "./MoveCategoryUseCase";
+
+export { RecolorCategoryUseCase } from "./RecolorCategoryUseCase";
+
+export { RenameCategoryUseCase } from "./RenameCategoryUseCase";
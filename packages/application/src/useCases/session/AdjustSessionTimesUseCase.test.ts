@@ -0,0 +1,271 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import { SessionSegment } from "@wimt/domain/entities";
+import {
+  OverlappingSessionError,
+  TooShortSegmentError,
+} from "@wimt/domain/errors";
+import { SegmentAdjustedDomainEvent } from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { AdjustedTimeInFutureError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { AdjustSessionTimesUseCase } from "./AdjustSessionTimesUseCase";
+
+describe("AdjustSessionTimesUseCase", () => {
+  let container: Container;
+  let useCase: AdjustSessionTimesUseCase;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+
+  const createStoppedSession = () =>
+    new Session({
+      id: makeId(),
+      categoryId: makeId(),
+      createdAt: DateTime.create(0),
+      stoppedAt: DateTime.create(3000),
+      history: [
+        new SessionSegment({
+          startedAt: DateTime.create(0),
+          stoppedAt: DateTime.create(1000),
+        }),
+        new SessionSegment({
+          startedAt: DateTime.create(2000),
+          stoppedAt: DateTime.create(3000),
+        }),
+      ],
+    });
+
+  beforeEach(() => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(AdjustSessionTimesUseCase).toSelf();
+
+    useCase = container.get(AdjustSessionTimesUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("successful adjustment", () => {
+    it("should adjust session start and stop and persist it", async () => {
+      // Given: A stopped session
+      const session = createStoppedSession();
+
+      await sessionRepo.save(session);
+
+      // When: Adjusting start and stop times
+      const result = await useCase.execute({
+        sessionId: session.id,
+        startedAt: -1000,
+        stoppedAt: 5000,
+      });
+
+      // Then: Result reflects new bounds
+      expect(result).toEqual({
+        sessionId: session.id,
+        startedAt: -1000,
+        stoppedAt: 5000,
+        totalDurationMs: 5000,
+      });
+
+      // And: Session is persisted with new bounds
+      const saved = await sessionRepo.findById(session.id);
+
+      expect(saved!.history[0]!.startedAt.value).toBe(-1000);
+      expect(saved!.stoppedAt!.value).toBe(5000);
+
+      // And: Creation time moves back with the earlier start
+      expect(saved!.createdAt.value).toBe(-1000);
+    });
+
+    it("should adjust individual segments by id", async () => {
+      // Given: A stopped session
+      const session = createStoppedSession();
+      const segmentId = session.history[1]!.id;
+
+      await sessionRepo.save(session);
+
+      // When: Adjusting the second segment
+      const result = await useCase.execute({
+        sessionId: session.id,
+        segments: [{ segmentId, startedAt: 1500 }],
+      });
+
+      // Then: Only that segment changed
+      expect(result.totalDurationMs).toBe(2500);
+    });
+
+    it("should publish SegmentAdjustedDomainEvent for every adjustment", async () => {
+      // Given: A stopped session and event handler
+      const session = createStoppedSession();
+
+      await sessionRepo.save(session);
+
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(SegmentAdjustedDomainEvent, eventHandler);
+
+      // When: Adjusting start and stop
+      await useCase.execute({
+        sessionId: session.id,
+        startedAt: -1000,
+        stoppedAt: 5000,
+      });
+
+      // Then: Event published for both segments
+      expect(eventHandler).toHaveBeenCalledTimes(2);
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: session.id }),
+      );
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if session does not exist", async () => {
+      const promise = useCase.execute({ sessionId: "non-existent-id" });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should reject adjustments producing too short segments", async () => {
+      // Given: A stopped session
+      const session = createStoppedSession();
+
+      await sessionRepo.save(session);
+
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(SegmentAdjustedDomainEvent, eventHandler);
+
+      // When: Stop time is moved 100ms after the last segment start
+      const promise = useCase.execute({
+        sessionId: session.id,
+        stoppedAt: 2100,
+      });
+
+      // Then: Nothing is published
+      await expect(promise).rejects.toThrow(TooShortSegmentError);
+      expect(eventHandler).not.toHaveBeenCalled();
+    });
+
+    it("should refuse times in the future", async () => {
+      const session = createStoppedSession();
+      const future = Date.now() + 60 * 60 * 1000;
+
+      await sessionRepo.save(session);
+
+      await expect(
+        useCase.execute({ sessionId: session.id, stoppedAt: future }),
+      ).rejects.toThrow(AdjustedTimeInFutureError);
+      await expect(
+        useCase.execute({
+          sessionId: session.id,
+          segments: [{ segmentId: session.history[1]!.id, stoppedAt: future }],
+        }),
+      ).rejects.toThrow(AdjustedTimeInFutureError);
+      expect((await sessionRepo.findById(session.id))!.stoppedAt!.value).toBe(
+        3000,
+      );
+    });
+
+    it("should reject adjustments overlapping other segments", async () => {
+      const session = createStoppedSession();
+
+      await sessionRepo.save(session);
+
+      const promise = useCase.execute({
+        sessionId: session.id,
+        segments: [{ segmentId: session.history[0]!.id, stoppedAt: 2500 }],
+      });
+
+      await expect(promise).rejects.toThrow("overlap");
+    });
+
+    it("should restart a running session moved into another session with trimCandidate policy", async () => {
+      const HOUR = 60 * 60 * 1000;
+
+      // Given: A session running since 10h and one stopped 9h-10h
+      const running = new Session({
+        categoryId: makeId(),
+        createdAt: DateTime.create(10 * HOUR),
+      });
+      const stopped = Session.createCompleted({
+        categoryId: running.categoryId,
+        segments: [
+          {
+            startedAt: DateTime.create(9 * HOUR),
+            stoppedAt: DateTime.create(10 * HOUR),
+          },
+        ],
+        loggedAt: DateTime.create(10 * HOUR),
+      });
+
+      await sessionRepo.save(running);
+      await sessionRepo.save(stopped);
+
+      // When: Moving the start of the running session to 9:30
+      const result = await useCase.execute({
+        sessionId: running.id,
+        startedAt: 9.5 * HOUR,
+        overlapPolicy: "trimCandidate",
+      });
+
+      // Then: It keeps running from the end of the other session
+      expect(result.startedAt).toBe(10 * HOUR);
+      expect(
+        (await sessionRepo.findById(running.id))!.activeSegment!.startedAt
+          .value,
+      ).toBe(10 * HOUR);
+      expect((await sessionRepo.findById(stopped.id))!.getDurationMs()).toBe(
+        HOUR,
+      );
+    });
+
+    it("should reject adjustments covering time of another session", async () => {
+      // Given: Two stopped sessions, the second one starting at 10000
+      const session = createStoppedSession();
+      const other = Session.createCompleted({
+        categoryId: session.categoryId,
+        segments: [
+          {
+            startedAt: DateTime.create(10000),
+            stoppedAt: DateTime.create(20000),
+          },
+        ],
+        loggedAt: DateTime.create(30000),
+      });
+
+      await sessionRepo.save(session);
+      await sessionRepo.save(other);
+
+      // When: Extending the first session into the second one
+      const promise = useCase.execute({
+        sessionId: session.id,
+        stoppedAt: 15000,
+      });
+
+      // Then: Adjustment is refused
+      await expect(promise).rejects.toThrow(OverlappingSessionError);
+    });
+  });
+});
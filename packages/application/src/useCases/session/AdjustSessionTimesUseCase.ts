@@ -0,0 +1,120 @@
+import "reflect-metadata";
+
+import { invariant, isNil, isNotNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { SessionOverlapResolver } from "@wimt/domain/services";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime } from "@wimt/domain/valueObjects";
+
+import type {
+  AdjustSessionTimesCommand,
+  AdjustSessionTimesResult,
+} from "../../commands";
+
+import { AdjustedTimeInFutureError, SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Correct the recorded times of a session (e.g. a forgotten timer)
+ *
+ * Business Rules:
+ * - Session must exist
+ * - Stop time can only be adjusted on a stopped session
+ * - Adjusted times must not be in the future
+ * - Segments must stay sorted, non-overlapping and at least 300ms long
+ * - Session must not cover time of other sessions (see overlapPolicy)
+ *
+ * Domain Events Emitted:
+ * - SegmentAdjustedDomainEvent (one per adjusted segment)
+ * - SessionTrimmedDomainEvent (when overlaps are trimmed)
+ */
+@injectable()
+export class AdjustSessionTimesUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(
+    command: AdjustSessionTimesCommand,
+  ): Promise<AdjustSessionTimesResult> {
+    // 1. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 2. Refuse times in the future
+    const adjustedAt = this.timeService.now();
+    const timestamps = [
+      command.startedAt,
+      command.stoppedAt,
+      ...(command.segments ?? []).flatMap((segment) => [
+        segment.startedAt,
+        segment.stoppedAt,
+      ]),
+    ].filter(isNotNil);
+
+    invariant(
+      timestamps.every((timestamp) => timestamp <= adjustedAt.value),
+      new AdjustedTimeInFutureError(),
+    );
+
+    // 3. Apply adjustments (domain logic validates every step)
+    for (const segment of command.segments ?? []) {
+      session.adjustSegment(
+        segment.segmentId,
+        {
+          startedAt: this.toDateTime(segment.startedAt),
+          stoppedAt: this.toDateTime(segment.stoppedAt),
+        },
+        adjustedAt,
+      );
+    }
+
+    if (isNotNil(command.startedAt)) {
+      session.ajustStartTime(DateTime.create(command.startedAt), adjustedAt);
+    }
+
+    if (isNotNil(command.stoppedAt)) {
+      session.ajustStopTime(DateTime.create(command.stoppedAt), adjustedAt);
+    }
+
+    // 4. Resolve overlaps with other sessions
+    const overlapResolution = await new SessionOverlapResolver(
+      this.sessionRepo,
+    ).resolve(session, command.overlapPolicy ?? "reject", adjustedAt);
+
+    // 5. Persist sessions together
+    await this.sessionRepo.saveAndDelete(
+      [session, ...overlapResolution.updated],
+      overlapResolution.removed.map((removed) => removed.id),
+    );
+
+    // 6. Publish domain events
+    const events = [session, ...overlapResolution.updated].flatMap((s) =>
+      s.pullDomainEvents(),
+    );
+
+    await this.eventPublisher.publishAll(events);
+
+    // 7. Return result DTO
+    return {
+      sessionId: session.id,
+      startedAt: session.startedAt.value,
+      stoppedAt: session.stoppedAt?.value ?? null,
+      totalDurationMs: session.getDurationMs(),
+    };
+  }
+
+  private toDateTime(timestamp: number | undefined) {
+    return isNil(timestamp) ? undefined : DateTime.create(timestamp);
+  }
+}
@@ -0,0 +1,139 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import {
+  SegmentNotFoundError,
+  ValidationDomainError,
+} from "@wimt/domain/errors";
+import {
+  SegmentNoteEditedDomainEvent,
+  SessionNoteEditedDomainEvent,
+} from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, Note, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../../services";
+import { EditSessionNoteUseCase } from "./EditSessionNoteUseCase";
+
+describe("EditSessionNoteUseCase", () => {
+  let container: Container;
+  let useCase: EditSessionNoteUseCase;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+  let session: Session;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(EditSessionNoteUseCase).toSelf();
+
+    useCase = container.get(EditSessionNoteUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: A stopped session with one segment
+    session = Session._validTestInstance();
+    session.stop(DateTime.create(1000));
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should set the session note", async () => {
+    const eventHandler = jest.fn();
+
+    eventPublisher.subscribe(SessionNoteEditedDomainEvent, eventHandler);
+
+    const result = await useCase.execute({
+      sessionId: session.id,
+      note: "  Sprint planning ",
+    });
+
+    const saved = await sessionRepo.findById(session.id);
+
+    expect(result).toEqual({
+      sessionId: session.id,
+      segmentId: null,
+      note: "Sprint planning",
+    });
+    expect(saved!.note?.value).toBe("Sprint planning");
+    expect(eventHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ note: "Sprint planning" }),
+    );
+  });
+
+  it("should set a segment note", async () => {
+    const eventHandler = jest.fn();
+    const segmentId = session.history[0]!.id;
+
+    eventPublisher.subscribe(SegmentNoteEditedDomainEvent, eventHandler);
+
+    await useCase.execute({
+      sessionId: session.id,
+      segmentId,
+      note: "Fixed login bug",
+    });
+
+    const saved = await sessionRepo.findById(session.id);
+
+    expect(saved!.history[0]!.note?.value).toBe("Fixed login bug");
+    expect(saved!.note).toBeNull();
+    expect(eventHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ segmentId, note: "Fixed login bug" }),
+    );
+  });
+
+  it("should clear the note when it is blank", async () => {
+    session.editNote(Note.create("Draft"), DateTime.create(1000));
+    await sessionRepo.save(session);
+
+    const result = await useCase.execute({ sessionId: session.id, note: " " });
+
+    expect(result.note).toBeNull();
+    expect((await sessionRepo.findById(session.id))!.note).toBeNull();
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if session does not exist", async () => {
+      const promise = useCase.execute({ sessionId: makeId(), note: "x" });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should throw error if segment does not belong to the session", async () => {
+      const promise = useCase.execute({
+        sessionId: session.id,
+        segmentId: makeId(),
+        note: "x",
+      });
+
+      await expect(promise).rejects.toThrow(SegmentNotFoundError);
+    });
+
+    it("should reject a note that is too long", async () => {
+      const promise = useCase.execute({
+        sessionId: session.id,
+        note: "a".repeat(Note.MAX_LENGTH + 1),
+      });
+
+      await expect(promise).rejects.toThrow(ValidationDomainError);
+    });
+  });
+});
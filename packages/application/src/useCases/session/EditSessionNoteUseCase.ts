@@ -0,0 +1,76 @@
+import "reflect-metadata";
+
+import { isNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { Note } from "@wimt/domain/valueObjects";
+
+import type {
+  EditSessionNoteCommand,
+  EditSessionNoteResult,
+} from "../../commands";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Set, change or clear the note of a session or of one of its segments
+ *
+ * Business Rules:
+ * - Session must exist (active, paused or stopped)
+ * - Segment, when given, must belong to the session
+ * - Null or blank note clears it, setting the same note is a no-op
+ *
+ * Domain Events Emitted:
+ * - SessionNoteEditedDomainEvent (session note)
+ * - SegmentNoteEditedDomainEvent (segment note)
+ */
+@injectable()
+export class EditSessionNoteUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(
+    command: EditSessionNoteCommand,
+  ): Promise<EditSessionNoteResult> {
+    // 1. Parse note before touching the session
+    const note = command.note?.trim() ? Note.create(command.note) : null;
+
+    // 2. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 3. Edit note (domain logic)
+    const now = this.timeService.now();
+
+    if (isNil(command.segmentId)) {
+      session.editNote(note, now);
+    } else {
+      session.editSegmentNote(command.segmentId, note, now);
+    }
+
+    // 4. Persist session
+    await this.sessionRepo.save(session);
+
+    // 5. Publish domain events
+    await this.eventPublisher.publishAll(session.pullDomainEvents());
+
+    // 6. Return result DTO
+    return {
+      sessionId: session.id,
+      segmentId: command.segmentId ?? null,
+      note: note?.value ?? null,
+    };
+  }
+}
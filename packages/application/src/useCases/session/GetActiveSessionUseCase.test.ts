@@ -0,0 +1,160 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, Color, DateTime, Icon } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+
+import { GetActiveSessionUseCase } from "./GetActiveSessionUseCase";
+
+const MINUTE = 60 * 1000;
+const NOW = 60 * MINUTE;
+
+describe("GetActiveSessionUseCase", () => {
+  let container: Container;
+  let useCase: GetActiveSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let category: Category;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(NOW) });
+    container.bind(GetActiveSessionUseCase).toSelf();
+
+    useCase = container.get(GetActiveSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+
+    category = new Category({
+      name: CategoryName.create("Work"),
+      color: Color.create("#ff5733"),
+      icon: Icon.create("💼"),
+      createdAt: DateTime.create(0),
+    });
+    await container
+      .get<ICategoryRepository>(CategoryRepositorySymbol)
+      .save(category);
+  });
+
+  it("should return null when no session is running", async () => {
+    const session = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(0),
+    });
+
+    session.stop(DateTime.create(10 * MINUTE));
+    await sessionRepo.save(session);
+
+    expect(await useCase.execute()).toBeNull();
+  });
+
+  it("should return an active session with elapsed time up to now", async () => {
+    // Given: started at 0, paused 10m-20m, running since then
+    const session = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(0),
+    });
+
+    session.pause(DateTime.create(10 * MINUTE));
+    session.resume(DateTime.create(20 * MINUTE));
+    await sessionRepo.save(session);
+
+    const result = await useCase.execute();
+
+    expect(result).toEqual({
+      sessionId: session.id,
+      categoryId: category.id,
+      categoryName: "Work",
+      categoryColor: "#ff5733",
+      categoryIcon: "💼",
+      state: "active",
+      startedAt: 0,
+      currentSegmentStartedAt: 20 * MINUTE,
+      elapsedMs: 50 * MINUTE,
+      canPause: true,
+      canResume: false,
+      canStop: true,
+    });
+  });
+
+  it("should return a paused session with the pause as current segment", async () => {
+    const session = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(0),
+    });
+
+    session.pause(DateTime.create(15 * MINUTE));
+    await sessionRepo.save(session);
+
+    const result = await useCase.execute();
+
+    expect(result).toMatchObject({
+      state: "paused",
+      currentSegmentStartedAt: 15 * MINUTE,
+      elapsedMs: 15 * MINUTE,
+      canPause: false,
+      canResume: true,
+      canStop: true,
+    });
+  });
+
+  it("should prefer the active session over a paused one", async () => {
+    const paused = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(0),
+    });
+
+    paused.pause(DateTime.create(10 * MINUTE));
+    await sessionRepo.save(paused);
+
+    const active = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(20 * MINUTE),
+    });
+
+    await sessionRepo.save(active);
+
+    expect(await useCase.execute()).toMatchObject({
+      sessionId: active.id,
+      state: "active",
+      canStop: true,
+    });
+  });
+
+  it("should throw when the category is missing", async () => {
+    const session = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(0),
+    });
+
+    await sessionRepo.save(session);
+    await container
+      .get<ICategoryRepository>(CategoryRepositorySymbol)
+      .delete(category.id);
+
+    await expect(useCase.execute()).rejects.toThrow(
+      `Category with id ${category.id} not found`,
+    );
+  });
+});
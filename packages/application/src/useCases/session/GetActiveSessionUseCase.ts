@@ -0,0 +1,77 @@
+import "reflect-metadata";
+
+import { last } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import type { Session } from "@wimt/domain/aggregates";
+import type { DateTime } from "@wimt/domain/valueObjects";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import {
+  ActiveSessionSpec,
+  PausedSessionSpec,
+} from "@wimt/domain/specifications";
+
+import type { ActiveSessionDTO } from "../../queries";
+
+/**
+ * Query: The session currently being tracked, for the timer screen
+ *
+ * - The active session wins, a paused one is returned only when none is
+ *   active; null when every session is stopped
+ * - Elapsed time counts the running segment up to now
+ * - For a paused session the current segment is the pause itself
+ */
+@injectable()
+export class GetActiveSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(): Promise<ActiveSessionDTO | null> {
+    const session =
+      (await this.sessionRepo.findOneBySpec(new ActiveSessionSpec())) ??
+      (await this.sessionRepo.findOneBySpec(new PausedSessionSpec()));
+
+    if (!session || session.state === "stopped") return null;
+
+    const category = await this.categoryRepo.findById(session.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${session.categoryId} not found`);
+    }
+
+    const now = this.timeService.now();
+
+    return {
+      sessionId: session.id,
+      categoryId: category.id,
+      categoryName: category.name.value,
+      categoryColor: category.color?.value ?? null,
+      categoryIcon: category.icon?.value ?? null,
+      state: session.state,
+      startedAt: session.startedAt.value,
+      currentSegmentStartedAt: this.currentSegmentStartedAt(session).value,
+      elapsedMs: session.getElapsedMs(now),
+      canPause: session.state === "active",
+      canResume: session.state === "paused",
+      canStop: session.state === "active" || session.state === "paused",
+    };
+  }
+
+  private currentSegmentStartedAt(session: Session): DateTime {
+    return (
+      session.activeSegment?.startedAt ??
+      last(session.history)?.stoppedAt ??
+      session.startedAt
+    );
+  }
+}
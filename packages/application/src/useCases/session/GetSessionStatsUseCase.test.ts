@@ -0,0 +1,116 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { GetSessionStatsUseCase } from "./GetSessionStatsUseCase";
+
+const HOUR = 60 * 60 * 1000;
+const BERLIN = "Europe/Berlin";
+// Wednesday
+const NOW = DateTime.parse("2024-05-15T10:00", BERLIN);
+
+describe("GetSessionStatsUseCase", () => {
+  let container: Container;
+  let useCase: GetSessionStatsUseCase;
+  let sessionRepo: ISessionRepository;
+
+  const logSession = async (startedAt: string, stoppedAt: string) => {
+    const stopped = DateTime.parse(stoppedAt, BERLIN);
+
+    await sessionRepo.save(
+      Session.createCompleted({
+        categoryId: makeId(),
+        segments: [
+          { startedAt: DateTime.parse(startedAt, BERLIN), stoppedAt: stopped },
+        ],
+        loggedAt: stopped,
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(TimeServiceSymbol).toConstantValue({ now: () => NOW });
+    container.bind(GetSessionStatsUseCase).toSelf();
+
+    useCase = container.get(GetSessionStatsUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+
+    // Given: Friday 1h, Monday 2h, overnight Tue-Wed 3h and a session running for 1h
+    await logSession("2024-05-10T09:00", "2024-05-10T10:00");
+    await logSession("2024-05-13T09:00", "2024-05-13T11:00");
+    await logSession("2024-05-14T22:00", "2024-05-15T01:00");
+    await sessionRepo.save(
+      new Session({
+        categoryId: makeId(),
+        createdAt: DateTime.parse("2024-05-15T09:00", BERLIN),
+      }),
+    );
+  });
+
+  it("should report totals over all sessions", async () => {
+    const stats = await useCase.execute({ timeZone: BERLIN });
+
+    expect(stats).toMatchObject({
+      totalSessions: 4,
+      activeSessions: 1,
+      totalDurationMs: 7 * HOUR,
+      averageDurationMs: 1.75 * HOUR,
+      longestSessionMs: 3 * HOUR,
+    });
+  });
+
+  it("should count today and this week in the local calendar", async () => {
+    const stats = await useCase.execute({ timeZone: BERLIN });
+
+    // after local midnight: 1h of the overnight session and the running hour
+    expect(stats.todayDurationMs).toBe(2 * HOUR);
+    // the week starts on Monday
+    expect(stats.thisWeekDurationMs).toBe(6 * HOUR);
+  });
+
+  it("should default to UTC", async () => {
+    const stats = await useCase.execute();
+
+    // the overnight session ended before midnight UTC
+    expect(stats.todayDurationMs).toBe(HOUR);
+  });
+
+  it("should honour the configured week start", async () => {
+    const stats = await useCase.execute({ timeZone: BERLIN, weekStartsOn: 5 });
+
+    expect(stats.thisWeekDurationMs).toBe(7 * HOUR);
+  });
+
+  it("should return zeros without sessions", async () => {
+    await Promise.all(
+      (await sessionRepo.findAll()).map((session) =>
+        sessionRepo.delete(session.id),
+      ),
+    );
+
+    expect(await useCase.execute()).toEqual({
+      totalSessions: 0,
+      activeSessions: 0,
+      totalDurationMs: 0,
+      averageDurationMs: 0,
+      longestSessionMs: 0,
+      todayDurationMs: 0,
+      thisWeekDurationMs: 0,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import "reflect-metadata";
+
+import { maxBy } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { TimeRange } from "@wimt/domain/valueObjects";
+
+import type { GetSessionStatsQuery, SessionStatsDTO } from "../../queries";
+
+import { TrackedTime } from "../../readModels";
+
+/**
+ * Query: Totals over all sessions
+ *
+ * - Running sessions count up to now
+ * - Today and this week start at local midnight of the query time zone,
+ *   sessions spanning the boundary count only their part after it
+ */
+@injectable()
+export class GetSessionStatsUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(query: GetSessionStatsQuery = {}): Promise<SessionStatsDTO> {
+    const now = this.timeService.now();
+    const sessions = await this.sessionRepo.findAll();
+    const trackedTime = new TrackedTime(now);
+    const total = trackedTime.total(sessions);
+    const longest = maxBy(sessions, (session) => trackedTime.of(session).value);
+
+    return {
+      totalSessions: sessions.length,
+      activeSessions: sessions.filter((session) => session.state !== "stopped")
+        .length,
+      totalDurationMs: total.value,
+      averageDurationMs:
+        sessions.length > 0 ? total.divide(sessions.length).value : 0,
+      longestSessionMs: longest ? trackedTime.of(longest).value : 0,
+      todayDurationMs: trackedTime.within(
+        sessions,
+        TimeRange.create(now.startOf("day", query), now),
+      ).value,
+      thisWeekDurationMs: trackedTime.within(
+        sessions,
+        TimeRange.create(now.startOf("week", query), now),
+      ).value,
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import {
+  CategoryName,
+  DateTime,
+  makeId,
+  Note,
+} from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+
+import { SessionNotFoundError } from "../../errors";
+import { GetSessionUseCase } from "./GetSessionUseCase";
+
+const NOW = 20000;
+
+describe("GetSessionUseCase", () => {
+  let container: Container;
+  let useCase: GetSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let category: Category;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(NOW) });
+    container.bind(GetSessionUseCase).toSelf();
+
+    useCase = container.get(GetSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+
+    category = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(category);
+  });
+
+  it("should return the session with its segments and notes", async () => {
+    // Given: A session tracked 0-5000 and 8000-12000 with notes
+    const session = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(0),
+    });
+
+    session.pause(DateTime.create(5000));
+    session.resume(DateTime.create(8000));
+    session.stop(DateTime.create(12000));
+    session.editNote(Note.create("Release prep"), DateTime.create(12000));
+    session.editSegmentNote(
+      session.history[0]!.id,
+      Note.create("Changelog"),
+      DateTime.create(12000),
+    );
+    await sessionRepo.save(session);
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result).toEqual({
+      sessionId: session.id,
+      categoryId: category.id,
+      categoryName: "Work",
+      categoryColor: null,
+      state: "stopped",
+      createdAt: 0,
+      startedAt: 0,
+      stoppedAt: 12000,
+      totalDurationMs: 9000,
+      segments: [
+        {
+          segmentId: session.history[0]!.id,
+          startTime: 0,
+          endTime: 5000,
+          durationMs: 5000,
+          isPaused: false,
+          note: "Changelog",
+        },
+        {
+          segmentId: session.history[1]!.id,
+          startTime: 8000,
+          endTime: 12000,
+          durationMs: 4000,
+          isPaused: false,
+          note: null,
+        },
+      ],
+      segmentCount: 2,
+      tags: [],
+      note: "Release prep",
+    });
+  });
+
+  it("should mark the segment a paused session stopped after", async () => {
+    const session = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(0),
+    });
+
+    session.pause(DateTime.create(5000));
+    await sessionRepo.save(session);
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result.state).toBe("paused");
+    expect(result.segments).toEqual([
+      expect.objectContaining({ endTime: 5000, isPaused: true }),
+    ]);
+  });
+
+  it("should count the running segment up to now", async () => {
+    const session = new Session({
+      categoryId: category.id,
+      createdAt: DateTime.create(15000),
+    });
+
+    await sessionRepo.save(session);
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result.totalDurationMs).toBe(5000);
+    expect(result.segments).toEqual([
+      expect.objectContaining({ endTime: null, durationMs: 5000 }),
+    ]);
+  });
+
+  it("should throw SessionNotFoundError for unknown session", async () => {
+    await expect(useCase.execute({ sessionId: makeId() })).rejects.toThrow(
+      SessionNotFoundError,
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type { GetSessionQuery, SessionDTO } from "../../queries";
+
+import { SessionNotFoundError } from "../../errors";
+import { toSessionDTO } from "./sessionDTO";
+
+/**
+ * Query: Full details of one session with its segments and notes,
+ * for the session detail view
+ */
+@injectable()
+export class GetSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(query: GetSessionQuery): Promise<SessionDTO> {
+    const session = await this.sessionRepo.findById(query.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(query.sessionId);
+    }
+
+    const category = await this.categoryRepo.findById(session.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${session.categoryId} not found`);
+    }
+
+    return toSessionDTO(session, category, this.timeService.now());
+  }
+}
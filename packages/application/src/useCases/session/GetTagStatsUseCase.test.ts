@@ -0,0 +1,112 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, Tag, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { GetTagStatsUseCase } from "./GetTagStatsUseCase";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = 10 * HOUR;
+
+describe("GetTagStatsUseCase", () => {
+  let container: Container;
+  let useCase: GetTagStatsUseCase;
+  let sessionRepo: ISessionRepository;
+
+  const logSession = async (
+    startedAt: number,
+    stoppedAt: number,
+    tags: string[],
+  ) => {
+    const session = Session.createCompleted({
+      categoryId: makeId(),
+      segments: [
+        {
+          startedAt: DateTime.create(startedAt),
+          stoppedAt: DateTime.create(stoppedAt),
+        },
+      ],
+      loggedAt: DateTime.create(stoppedAt),
+    });
+
+    tags.forEach((tag) =>
+      session.addTag(Tag.create(tag), DateTime.create(stoppedAt)),
+    );
+    await sessionRepo.save(session);
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(NOW) });
+    container.bind(GetTagStatsUseCase).toSelf();
+
+    useCase = container.get(GetTagStatsUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+
+    // Given: 1h billable deep work, 3h billable, 30m untagged
+    await logSession(0, HOUR, ["billable", "deep-work"]);
+    await logSession(2 * HOUR, 5 * HOUR, ["Billable"]);
+    await logSession(6 * HOUR, 6 * HOUR + 30 * MINUTE, []);
+  });
+
+  it("should report totals per tag", async () => {
+    const stats = await useCase.execute();
+
+    expect(stats.map((stat) => stat.tag)).toEqual(["billable", "deep-work"]);
+    expect(stats[0]).toMatchObject({
+      totalSessions: 2,
+      totalDurationMs: 4 * HOUR,
+      averageDurationMs: 2 * HOUR,
+      formattedTotalDuration: "4h 0m",
+    });
+    expect(stats[0]!.percentageOfTotal).toBeCloseTo((4 / 4.5) * 100);
+    expect(stats[1]).toMatchObject({
+      totalSessions: 1,
+      totalDurationMs: HOUR,
+    });
+  });
+
+  it("should count running sessions up to now", async () => {
+    const session = new Session({
+      categoryId: makeId(),
+      createdAt: DateTime.create(NOW - HOUR),
+    });
+
+    session.addTag(Tag.create("deep-work"), DateTime.create(NOW - HOUR));
+    await sessionRepo.save(session);
+
+    const stats = await useCase.execute();
+
+    expect(stats[1]).toMatchObject({
+      tag: "deep-work",
+      totalSessions: 2,
+      totalDurationMs: 2 * HOUR,
+    });
+  });
+
+  it("should return nothing when no session is tagged", async () => {
+    await Promise.all(
+      (await sessionRepo.findAll()).map((session) =>
+        sessionRepo.delete(session.id),
+      ),
+    );
+
+    expect(await useCase.execute()).toEqual([]);
+  });
+});
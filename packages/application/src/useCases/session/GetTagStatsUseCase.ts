@@ -0,0 +1,56 @@
+import "reflect-metadata";
+
+import { groupBy, sortBy } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type { TagWithStatsDTO } from "../../queries";
+
+import { TrackedTime } from "../../readModels";
+
+/**
+ * Query: Totals for every tag in use, sorted by tag
+ *
+ * - Tags are grouped case-insensitively, the first spelling seen is shown
+ * - A session counts towards each of its tags
+ * - Running sessions count up to now
+ */
+@injectable()
+export class GetTagStatsUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(): Promise<TagWithStatsDTO[]> {
+    const sessions = await this.sessionRepo.findAll();
+    const trackedTime = new TrackedTime(this.timeService.now());
+    const grandTotal = trackedTime.total(sessions);
+    const tagged = sessions.flatMap((session) =>
+      session.tags.map((tag) => ({ session, tag })),
+    );
+    const byTag = Object.values(groupBy(tagged, ({ tag }) => tag.key));
+
+    const stats = byTag.map((entries) => {
+      const tagSessions = entries.map(({ session }) => session);
+      const total = trackedTime.total(tagSessions);
+
+      return {
+        tag: entries[0]!.tag.value,
+        totalSessions: tagSessions.length,
+        totalDurationMs: total.value,
+        averageDurationMs: total.divide(tagSessions.length).value,
+        percentageOfTotal:
+          grandTotal.value > 0 ? (total.value / grandTotal.value) * 100 : 0,
+        formattedTotalDuration: total.format(),
+      };
+    });
+
+    return sortBy(stats, [(stat) => stat.tag.toLowerCase()]);
+  }
+}
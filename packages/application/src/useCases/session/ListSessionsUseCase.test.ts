@@ -0,0 +1,129 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, Color, DateTime, Tag } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+
+import { ListSessionsUseCase } from "./ListSessionsUseCase";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = 10 * HOUR;
+
+describe("ListSessionsUseCase", () => {
+  let container: Container;
+  let useCase: ListSessionsUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let work: Category;
+  let rest: Category;
+  let logged: Session;
+  let running: Session;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(NOW) });
+    container.bind(ListSessionsUseCase).toSelf();
+
+    useCase = container.get(ListSessionsUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+
+    // Given: 1h30m of tagged work logged at 1h, rest running since 9h45m
+    work = new Category({
+      name: CategoryName.create("Work"),
+      color: Color.create("#ff0000"),
+      createdAt: DateTime.create(0),
+    });
+    rest = new Category({
+      name: CategoryName.create("Rest"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(work);
+    await categoryRepo.save(rest);
+
+    logged = Session.createCompleted({
+      categoryId: work.id,
+      segments: [
+        {
+          startedAt: DateTime.create(HOUR),
+          stoppedAt: DateTime.create(HOUR + 90 * MINUTE),
+        },
+      ],
+      loggedAt: DateTime.create(3 * HOUR),
+    });
+    logged.addTag(Tag.create("Billable"), DateTime.create(3 * HOUR));
+    running = new Session({
+      categoryId: rest.id,
+      createdAt: DateTime.create(NOW - 15 * MINUTE),
+    });
+    await sessionRepo.save(logged);
+    await sessionRepo.save(running);
+  });
+
+  it("should list sessions most recently started first", async () => {
+    const result = await useCase.execute();
+
+    expect(result.map((item) => item.sessionId)).toEqual([
+      running.id,
+      logged.id,
+    ]);
+  });
+
+  it("should format the duration of a stopped session", async () => {
+    const [, item] = await useCase.execute();
+
+    expect(item).toEqual({
+      sessionId: logged.id,
+      categoryId: work.id,
+      categoryName: "Work",
+      categoryColor: "#ff0000",
+      state: "stopped",
+      startedAt: HOUR,
+      stoppedAt: HOUR + 90 * MINUTE,
+      totalDurationMs: 90 * MINUTE,
+      formattedDuration: "1h 30m",
+      tags: ["Billable"],
+    });
+  });
+
+  it("should count a running session up to now", async () => {
+    const [item] = await useCase.execute();
+
+    expect(item).toMatchObject({
+      state: "active",
+      stoppedAt: null,
+      totalDurationMs: 15 * MINUTE,
+      formattedDuration: "0h 15m",
+    });
+  });
+
+  it("should list only sessions of the given category", async () => {
+    const result = await useCase.execute({ categoryId: work.id });
+
+    expect(result.map((item) => item.sessionId)).toEqual([logged.id]);
+  });
+});
@@ -0,0 +1,57 @@
+import "reflect-metadata";
+
+import { keyBy } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { SessionForCategorySpec } from "@wimt/domain/specifications";
+
+import type { ListSessionsQuery, SessionListItemDTO } from "../../queries";
+
+import { toSessionListItemDTO } from "./sessionDTO";
+
+/**
+ * Query: Session history, most recently started first
+ *
+ * - Limited to one category when categoryId is set
+ * - Running sessions report the time tracked so far
+ */
+@injectable()
+export class ListSessionsUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(query: ListSessionsQuery = {}): Promise<SessionListItemDTO[]> {
+    const sessions = query.categoryId
+      ? await this.sessionRepo.findManyBySpec(
+          new SessionForCategorySpec(query.categoryId),
+        )
+      : await this.sessionRepo.findAll();
+    const categoriesById = keyBy(
+      await this.categoryRepo.findAll(),
+      (category) => category.id,
+    );
+    const now = this.timeService.now();
+
+    return sessions
+      .sort((a, b) => b.startedAt.value - a.startedAt.value)
+      .map((session) => {
+        const category = categoriesById[session.categoryId];
+
+        if (!category) {
+          throw new Error(`Category with id ${session.categoryId} not found`);
+        }
+
+        return toSessionListItemDTO(session, category, now);
+      });
+  }
+}
@@ -0,0 +1,292 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import { OverlappingSessionError } from "@wimt/domain/errors";
+import {
+  SessionLoggedDomainEvent,
+  SessionStartedDomainEvent,
+  SessionTrimmedDomainEvent,
+} from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+
+import { TimeRangeInFutureError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { LogPastSessionUseCase } from "./LogPastSessionUseCase";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 100 * HOUR;
+
+describe("LogPastSessionUseCase", () => {
+  let container: Container;
+  let useCase: LogPastSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let category: Category;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container
+      .bind<ITimeService>(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(NOW) });
+    container.bind(LogPastSessionUseCase).toSelf();
+
+    useCase = container.get(LogPastSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    category = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(category);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("successful logging", () => {
+    it("should save a stopped session for the given ranges", async () => {
+      // When: Logging "yesterday 14:00-16:00"
+      const result = await useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 70 * HOUR, stoppedAt: 72 * HOUR }],
+      });
+
+      // Then: Result describes the logged session
+      expect(result.startedAt).toBe(70 * HOUR);
+      expect(result.stoppedAt).toBe(72 * HOUR);
+      expect(result.totalDurationMs).toBe(2 * HOUR);
+
+      // And: Session is persisted as stopped
+      const saved = await sessionRepo.findById(result.sessionId);
+
+      expect(saved!.state).toBe("stopped");
+      expect(saved!.categoryId).toBe(category.id);
+    });
+
+    it("should publish SessionLogged and not SessionStarted", async () => {
+      const loggedHandler = jest.fn();
+      const startedHandler = jest.fn();
+
+      eventPublisher.subscribe(SessionLoggedDomainEvent, loggedHandler);
+      eventPublisher.subscribe(SessionStartedDomainEvent, startedHandler);
+
+      const result = await useCase.execute({
+        categoryId: category.id,
+        ranges: [
+          { startedAt: 70 * HOUR, stoppedAt: 71 * HOUR },
+          { startedAt: 72 * HOUR, stoppedAt: 73 * HOUR },
+        ],
+      });
+
+      expect(loggedHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: result.sessionId,
+          totalDurationMs: 2 * HOUR,
+        }),
+      );
+      expect(startedHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if category does not exist", async () => {
+      const promise = useCase.execute({
+        categoryId: "non-existent-category-id",
+        ranges: [{ startedAt: 70 * HOUR, stoppedAt: 72 * HOUR }],
+      });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should refuse ranges ending in the future", async () => {
+      const promise = useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: NOW - HOUR, stoppedAt: NOW + HOUR }],
+      });
+
+      await expect(promise).rejects.toThrow(TimeRangeInFutureError);
+      expect(await sessionRepo.count()).toBe(0);
+    });
+
+    it("should refuse overlapping ranges", async () => {
+      const promise = useCase.execute({
+        categoryId: category.id,
+        ranges: [
+          { startedAt: 70 * HOUR, stoppedAt: 72 * HOUR },
+          { startedAt: 71 * HOUR, stoppedAt: 73 * HOUR },
+        ],
+      });
+
+      await expect(promise).rejects.toThrow("overlap");
+    });
+  });
+
+  describe("overlap with other sessions", () => {
+    let existing: Session;
+
+    beforeEach(async () => {
+      // Given: A session logged 70h-72h
+      existing = Session.createCompleted({
+        categoryId: category.id,
+        segments: [
+          {
+            startedAt: DateTime.create(70 * HOUR),
+            stoppedAt: DateTime.create(72 * HOUR),
+          },
+        ],
+        loggedAt: DateTime.create(NOW),
+      });
+      await sessionRepo.save(existing);
+    });
+
+    it("should reject overlapping ranges by default", async () => {
+      const promise = useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 71 * HOUR, stoppedAt: 73 * HOUR }],
+      });
+
+      await expect(promise).rejects.toThrow(OverlappingSessionError);
+      expect(await sessionRepo.count()).toBe(1);
+    });
+
+    it("should allow sessions touching each other", async () => {
+      await useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 72 * HOUR, stoppedAt: 73 * HOUR }],
+      });
+
+      expect(await sessionRepo.count()).toBe(2);
+    });
+
+    it("should trim the new session with trimCandidate policy", async () => {
+      const result = await useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 71 * HOUR, stoppedAt: 73 * HOUR }],
+        overlapPolicy: "trimCandidate",
+      });
+
+      expect(result.startedAt).toBe(72 * HOUR);
+      expect(result.totalDurationMs).toBe(HOUR);
+      expect((await sessionRepo.findById(existing.id))!.getDurationMs()).toBe(
+        2 * HOUR,
+      );
+    });
+
+    it("should report the trimmed duration in SessionLogged", async () => {
+      const loggedHandler = jest.fn();
+
+      eventPublisher.subscribe(SessionLoggedDomainEvent, loggedHandler);
+
+      const result = await useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 71 * HOUR, stoppedAt: 73 * HOUR }],
+        overlapPolicy: "trimCandidate",
+      });
+
+      expect(loggedHandler).toHaveBeenCalledTimes(1);
+      expect(loggedHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: result.sessionId,
+          totalDurationMs: HOUR,
+        }),
+      );
+    });
+
+    it("should reject ranges trimmed away completely with trimCandidate policy", async () => {
+      const promise = useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 70 * HOUR, stoppedAt: 71 * HOUR }],
+        overlapPolicy: "trimCandidate",
+      });
+
+      await expect(promise).rejects.toThrow(OverlappingSessionError);
+      await expect(promise).rejects.toMatchObject({
+        sessionIds: [existing.id],
+      });
+      expect(await sessionRepo.count()).toBe(1);
+    });
+
+    it("should trim existing sessions with trimExisting policy", async () => {
+      const trimmedHandler = jest.fn();
+
+      eventPublisher.subscribe(SessionTrimmedDomainEvent, trimmedHandler);
+
+      const result = await useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 71 * HOUR, stoppedAt: 73 * HOUR }],
+        overlapPolicy: "trimExisting",
+      });
+
+      expect(result.totalDurationMs).toBe(2 * HOUR);
+
+      const trimmed = await sessionRepo.findById(existing.id);
+
+      expect(trimmed!.stoppedAt!.value).toBe(71 * HOUR);
+      expect(trimmedHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: existing.id }),
+      );
+    });
+
+    it("should restart a running session covered from its start with trimExisting policy", async () => {
+      // Given: A session running since 80h
+      const running = new Session({
+        categoryId: category.id,
+        createdAt: DateTime.create(80 * HOUR),
+      });
+
+      await sessionRepo.save(running);
+
+      // When: Logging 79h-81h over its start
+      await useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 79 * HOUR, stoppedAt: 81 * HOUR }],
+        overlapPolicy: "trimExisting",
+      });
+
+      // Then: It keeps running from the end of the logged range
+      const trimmed = await sessionRepo.findById(running.id);
+
+      expect(trimmed!.state).toBe("active");
+      expect(trimmed!.history).toEqual([]);
+      expect(trimmed!.activeSegment!.startedAt.value).toBe(81 * HOUR);
+    });
+
+    it("should delete fully covered sessions with trimExisting policy", async () => {
+      await useCase.execute({
+        categoryId: category.id,
+        ranges: [{ startedAt: 69 * HOUR, stoppedAt: 73 * HOUR }],
+        overlapPolicy: "trimExisting",
+      });
+
+      expect(await sessionRepo.findById(existing.id)).toBeNull();
+      expect(await sessionRepo.count()).toBe(1);
+    });
+  });
+});
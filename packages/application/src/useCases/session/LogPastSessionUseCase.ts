@@ -0,0 +1,110 @@
+import "reflect-metadata";
+
+import { invariant } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { SessionOverlapResolver } from "@wimt/domain/services";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime } from "@wimt/domain/valueObjects";
+
+import type {
+  LogPastSessionCommand,
+  LogPastSessionResult,
+} from "../../commands";
+
+import { TimeRangeInFutureError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Log a completed session after the fact (manual backfill)
+ *
+ * Business Rules:
+ * - Category must exist
+ * - At least one time range is required
+ * - Ranges must not overlap and must be at least 300ms long
+ * - Ranges must not end in the future
+ * - Ranges must not cover time of other sessions (see overlapPolicy),
+ *   trimming them away completely is rejected as an overlap
+ *
+ * Domain Events Emitted:
+ * - SessionLoggedDomainEvent (with the duration left after trimming)
+ * - SessionTrimmedDomainEvent (when overlaps are trimmed)
+ */
+@injectable()
+export class LogPastSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: LogPastSessionCommand): Promise<LogPastSessionResult> {
+    // 1. Validate category exists
+    const category = await this.categoryRepo.findById(command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    // 2. Refuse ranges in the future
+    const now = this.timeService.now();
+    const segments = command.ranges.map((range) => ({
+      startedAt: DateTime.create(range.startedAt),
+      stoppedAt: DateTime.create(range.stoppedAt),
+    }));
+
+    invariant(
+      segments.every((segment) => segment.stoppedAt.isSameOrBefore(now)),
+      new TimeRangeInFutureError(),
+    );
+
+    // 3. Draft the completed session and resolve overlaps with other sessions
+    const draft = Session.createCompleted({
+      categoryId: command.categoryId,
+      segments,
+      loggedAt: now,
+    });
+    const overlapResolution = await new SessionOverlapResolver(
+      this.sessionRepo,
+    ).resolve(draft, command.overlapPolicy ?? "reject", now);
+
+    // 4. Log what is left after trimming, SessionLogged reports that duration
+    const session = Session.createCompleted({
+      categoryId: command.categoryId,
+      segments: draft.history.map((segment) => ({
+        startedAt: segment.startedAt,
+        stoppedAt: segment.stoppedAt!,
+      })),
+      loggedAt: now,
+    });
+
+    // 5. Persist sessions together
+    await this.sessionRepo.saveAndDelete(
+      [session, ...overlapResolution.updated],
+      overlapResolution.removed.map((removed) => removed.id),
+    );
+
+    // 6. Publish domain events
+    const events = [session, ...overlapResolution.updated].flatMap((s) =>
+      s.pullDomainEvents(),
+    );
+
+    await this.eventPublisher.publishAll(events);
+
+    // 7. Return result DTO
+    return {
+      sessionId: session.id,
+      startedAt: session.startedAt.value,
+      stoppedAt: session.stoppedAt!.value,
+      totalDurationMs: session.getDurationMs() ?? 0,
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+import initSqlJs from "sql.js";
+
+import { Session } from "@wimt/domain/aggregates";
+import { SessionsMergedDomainEvent } from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, makeId, type ULID } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { createContainer } from "../../di";
+import { DomainEventPublisher } from "../../services";
+import { CreateCategoryUseCase } from "../category";
+import { MergeSessionsUseCase } from "./MergeSessionsUseCase";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("MergeSessionsUseCase", () => {
+  let container: Container;
+  let useCase: MergeSessionsUseCase;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+  let categoryId: ULID;
+
+  const logSession = async (
+    startedAt: number,
+    stoppedAt: number,
+    sessionCategoryId = categoryId,
+  ) => {
+    const session = Session.createCompleted({
+      categoryId: sessionCategoryId,
+      segments: [
+        {
+          startedAt: DateTime.create(startedAt),
+          stoppedAt: DateTime.create(stoppedAt),
+        },
+      ],
+      loggedAt: DateTime.create(stoppedAt),
+    });
+
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+
+    return session;
+  };
+
+  beforeEach(() => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(MergeSessionsUseCase).toSelf();
+
+    useCase = container.get(MergeSessionsUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+    categoryId = makeId();
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("successful merge", () => {
+    it("should keep the earliest session and delete absorbed ones", async () => {
+      // Given: Three Work sessions with short breaks in between
+      const first = await logSession(0, HOUR);
+      const second = await logSession(2 * HOUR, 3 * HOUR);
+      const third = await logSession(4 * HOUR, 5 * HOUR);
+
+      // When: Merging them in arbitrary order
+      const result = await useCase.execute({
+        sessionIds: [third.id, first.id, second.id],
+      });
+
+      // Then: Only the earliest session remains, with breaks as pauses
+      expect(result.sessionId).toBe(first.id);
+      expect(result.absorbedSessionIds).toEqual([second.id, third.id]);
+      expect(result.totalDurationMs).toBe(3 * HOUR);
+      expect(await sessionRepo.count()).toBe(1);
+
+      const merged = await sessionRepo.findById(first.id);
+
+      expect(merged!.history).toHaveLength(3);
+      expect(merged!.stoppedAt!.value).toBe(5 * HOUR);
+    });
+
+    it("should publish SessionsMergedDomainEvent", async () => {
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(SessionsMergedDomainEvent, eventHandler);
+
+      const first = await logSession(0, HOUR);
+      const second = await logSession(2 * HOUR, 3 * HOUR);
+
+      await useCase.execute({ sessionIds: [first.id, second.id] });
+
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: first.id,
+          absorbedSessionIds: [second.id],
+        }),
+      );
+    });
+  });
+
+  describe("on SQLite", () => {
+    it("should move segments of absorbed sessions under their ids", async () => {
+      const SQL = await initSqlJs();
+      const app = createContainer({
+        profile: "sql.js",
+        database: new SQL.Database(),
+      });
+
+      sessionRepo = app.resolve(SessionRepositorySymbol);
+      ({ categoryId } = await app
+        .resolve(CreateCategoryUseCase)
+        .execute({ name: "Work" }));
+
+      const first = await logSession(0, HOUR);
+      const second = await logSession(2 * HOUR, 3 * HOUR);
+
+      await app
+        .resolve(MergeSessionsUseCase)
+        .execute({ sessionIds: [first.id, second.id] });
+
+      const merged = await sessionRepo.findById(first.id);
+
+      expect(await sessionRepo.count()).toBe(1);
+      expect(merged!.history.map((segment) => segment.id)).toEqual([
+        first.history[0]!.id,
+        second.history[0]!.id,
+      ]);
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if less than two sessions are given", async () => {
+      const first = await logSession(0, HOUR);
+
+      const promise = useCase.execute({ sessionIds: [first.id, first.id] });
+
+      await expect(promise).rejects.toThrow("At least two sessions");
+    });
+
+    it("should throw error if a session does not exist", async () => {
+      const first = await logSession(0, HOUR);
+
+      const promise = useCase.execute({ sessionIds: [first.id, makeId()] });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should not delete anything if categories differ", async () => {
+      const first = await logSession(0, HOUR);
+      const other = await logSession(2 * HOUR, 3 * HOUR, makeId());
+
+      const promise = useCase.execute({ sessionIds: [first.id, other.id] });
+
+      await expect(promise).rejects.toThrow("same category");
+      expect(await sessionRepo.count()).toBe(2);
+    });
+  });
+});
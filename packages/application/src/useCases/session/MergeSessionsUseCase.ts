@@ -0,0 +1,82 @@
+import "reflect-metadata";
+
+import { sortBy } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import type { Session } from "@wimt/domain/aggregates";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type { MergeSessionsCommand, MergeSessionsResult } from "../../commands";
+
+import { ApplicationError, SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Merge stopped sessions of the same category into one
+ *
+ * Business Rules:
+ * - At least two distinct sessions are required
+ * - All sessions must exist, be stopped and share a category
+ * - The earliest created session survives, gaps become pauses
+ * - Absorbed sessions are deleted
+ *
+ * Domain Events Emitted:
+ * - SessionsMergedDomainEvent
+ */
+@injectable()
+export class MergeSessionsUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: MergeSessionsCommand): Promise<MergeSessionsResult> {
+    const sessionIds = [...new Set(command.sessionIds)];
+
+    if (sessionIds.length < 2) {
+      throw new ApplicationError("At least two sessions are required to merge");
+    }
+
+    // 1. Load sessions
+    const sessions: Session[] = [];
+
+    for (const sessionId of sessionIds) {
+      const session = await this.sessionRepo.findById(sessionId);
+
+      if (!session) {
+        throw new SessionNotFoundError(sessionId);
+      }
+
+      sessions.push(session);
+    }
+
+    // 2. Merge into the earliest session (domain logic)
+    const ordered = sortBy(sessions, [(session) => session.createdAt.value]);
+    const target = ordered[0]!;
+    const absorbed = ordered.slice(1);
+
+    target.merge(absorbed, this.timeService.now());
+
+    // 3. Remove absorbed sessions and persist the merged one together
+    await this.sessionRepo.saveAndDelete(
+      [target],
+      absorbed.map((session) => session.id),
+    );
+
+    // 4. Publish domain events
+    await this.eventPublisher.publishAll(target.pullDomainEvents());
+
+    // 5. Return result DTO
+    return {
+      sessionId: target.id,
+      absorbedSessionIds: absorbed.map((session) => session.id),
+      totalDurationMs: target.getDurationMs() ?? 0,
+    };
+  }
+}
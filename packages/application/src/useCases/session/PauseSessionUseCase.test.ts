@@ -0,0 +1,132 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import { TooShortSegmentError } from "@wimt/domain/errors";
+import {
+  SegmentTooShortDomainEvent,
+  SessionPausedDomainEvent,
+} from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { PauseSessionUseCase } from "./PauseSessionUseCase";
+
+describe("PauseSessionUseCase", () => {
+  let container: Container;
+  let useCase: PauseSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+  let session: Session;
+  let now: number;
+
+  beforeEach(async () => {
+    container = new Container();
+    now = 0;
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(now) });
+    container.bind(PauseSessionUseCase).toSelf();
+
+    useCase = container.get(PauseSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: A session running since 0
+    session = new Session({
+      categoryId: makeId(),
+      createdAt: DateTime.create(0),
+    });
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should pause the session at now", async () => {
+    const eventHandler = jest.fn();
+
+    eventPublisher.subscribe(SessionPausedDomainEvent, eventHandler);
+    now = 5000;
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result).toEqual({
+      sessionId: session.id,
+      pausedAt: 5000,
+      discardedSegmentId: null,
+    });
+
+    const saved = await sessionRepo.findById(session.id);
+
+    expect(saved!.state).toBe("paused");
+    expect(saved!.history).toHaveLength(1);
+    expect(eventHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report a too short segment that was discarded", async () => {
+    const eventHandler = jest.fn();
+
+    session.pause(DateTime.create(5000));
+    session.resume(DateTime.create(6000));
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+
+    const segmentId = session.activeSegment!.id;
+
+    eventPublisher.subscribe(SegmentTooShortDomainEvent, eventHandler);
+    now = 6100;
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result.discardedSegmentId).toBe(segmentId);
+
+    const saved = await sessionRepo.findById(session.id);
+
+    expect(saved!.state).toBe("paused");
+    expect(saved!.history).toHaveLength(1);
+    expect(eventHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ segmentId }),
+    );
+  });
+
+  it("should refuse to discard the only segment", async () => {
+    now = 100;
+
+    const promise = useCase.execute({ sessionId: session.id });
+
+    await expect(promise).rejects.toThrow(TooShortSegmentError);
+    expect((await sessionRepo.findById(session.id))!.state).toBe("active");
+  });
+
+  it("should throw SessionNotFoundError for unknown session", async () => {
+    const promise = useCase.execute({ sessionId: makeId() });
+
+    await expect(promise).rejects.toThrow(SessionNotFoundError);
+  });
+
+  it("should throw when the session is not active", async () => {
+    now = 5000;
+    await useCase.execute({ sessionId: session.id });
+
+    const promise = useCase.execute({ sessionId: session.id });
+
+    await expect(promise).rejects.toThrow("Only active session can be paused");
+  });
+});
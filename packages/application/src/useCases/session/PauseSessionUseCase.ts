@@ -0,0 +1,70 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import { SegmentTooShortDomainEvent } from "@wimt/domain/events";
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type { PauseSessionCommand, PauseSessionResult } from "../../commands";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Pause the running session
+ *
+ * Business Rules:
+ * - Session must exist and be active
+ * - The running segment is closed at now
+ * - A segment shorter than the minimum is discarded, the result reports it
+ * - The only segment of a session is never discarded, pausing is refused
+ *
+ * Domain Events Emitted:
+ * - SessionPausedDomainEvent
+ * - SegmentTooShortDomainEvent (instead, when the segment is discarded)
+ */
+@injectable()
+export class PauseSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: PauseSessionCommand): Promise<PauseSessionResult> {
+    // 1. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 2. Pause (domain logic)
+    const pausedAt = this.timeService.now();
+
+    session.pause(pausedAt);
+
+    // 3. Persist session
+    await this.sessionRepo.save(session);
+
+    // 4. Publish domain events
+    const events = session.pullDomainEvents();
+
+    await this.eventPublisher.publishAll(events);
+
+    // 5. Return result DTO
+    const discarded = events.find(
+      (event) => event instanceof SegmentTooShortDomainEvent,
+    );
+
+    return {
+      sessionId: session.id,
+      pausedAt: pausedAt.value,
+      discardedSegmentId: discarded?.segmentId ?? null,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import { SessionRecategorizedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../../services";
+import { RecategorizeSessionUseCase } from "./RecategorizeSessionUseCase";
+
+describe("RecategorizeSessionUseCase", () => {
+  let container: Container;
+  let useCase: RecategorizeSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let work: Category;
+  let meetings: Category;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(RecategorizeSessionUseCase).toSelf();
+
+    useCase = container.get(RecategorizeSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: "Work" and "Meetings" categories
+    work = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    meetings = new Category({
+      name: CategoryName.create("Meetings"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(work);
+    await categoryRepo.save(meetings);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("successful recategorization", () => {
+    it("should move an active session to another category", async () => {
+      // Given: An active Work session
+      const session = Session._validTestInstance({ categoryId: work.id });
+
+      await sessionRepo.save(session);
+
+      // When: Moving it to Meetings
+      const result = await useCase.execute({
+        sessionId: session.id,
+        categoryId: meetings.id,
+      });
+
+      // Then: Session keeps running under Meetings
+      const saved = await sessionRepo.findById(session.id);
+
+      expect(result.previousCategoryId).toBe(work.id);
+      expect(result.categoryId).toBe(meetings.id);
+      expect(saved!.categoryId).toBe(meetings.id);
+      expect(saved!.state).toBe("active");
+    });
+
+    it("should publish SessionRecategorizedDomainEvent", async () => {
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(SessionRecategorizedDomainEvent, eventHandler);
+
+      const session = Session._validTestInstance({ categoryId: work.id });
+
+      session.stop(DateTime.create(1000));
+      await sessionRepo.save(session);
+
+      await useCase.execute({ sessionId: session.id, categoryId: meetings.id });
+
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: session.id,
+          previousCategoryId: work.id,
+          categoryId: meetings.id,
+        }),
+      );
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if session does not exist", async () => {
+      const promise = useCase.execute({
+        sessionId: makeId(),
+        categoryId: meetings.id,
+      });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should throw error if category does not exist", async () => {
+      const session = Session._validTestInstance({ categoryId: work.id });
+
+      await sessionRepo.save(session);
+
+      const promise = useCase.execute({
+        sessionId: session.id,
+        categoryId: makeId(),
+      });
+
+      await expect(promise).rejects.toThrow("not found");
+      expect((await sessionRepo.findById(session.id))!.categoryId).toBe(
+        work.id,
+      );
+    });
+  });
+});
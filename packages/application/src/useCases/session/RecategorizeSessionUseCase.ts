@@ -0,0 +1,75 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type {
+  RecategorizeSessionCommand,
+  RecategorizeSessionResult,
+} from "../../commands";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Move a session to another category
+ *
+ * Business Rules:
+ * - Session must exist (active, paused or stopped)
+ * - Target category must exist
+ *
+ * Domain Events Emitted:
+ * - SessionRecategorizedDomainEvent
+ */
+@injectable()
+export class RecategorizeSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(
+    command: RecategorizeSessionCommand,
+  ): Promise<RecategorizeSessionResult> {
+    // 1. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 2. Validate target category exists
+    const category = await this.categoryRepo.findById(command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    // 3. Change category (domain logic)
+    const previousCategoryId = session.categoryId;
+
+    session.changeCategory(category.id, this.timeService.now());
+
+    // 4. Persist session
+    await this.sessionRepo.save(session);
+
+    // 5. Publish domain events
+    await this.eventPublisher.publishAll(session.pullDomainEvents());
+
+    // 6. Return result DTO
+    return {
+      sessionId: session.id,
+      previousCategoryId,
+      categoryId: session.categoryId,
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import { SessionRecategorizedDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import {
+  SessionForCategorySpec,
+  StoppedSessionSpec,
+} from "@wimt/domain/specifications";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../../services";
+import { RecategorizeSessionsUseCase } from "./RecategorizeSessionsUseCase";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("RecategorizeSessionsUseCase", () => {
+  let container: Container;
+  let useCase: RecategorizeSessionsUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let work: Category;
+  let meetings: Category;
+
+  const logSession = async (categoryId: string, startedAt: number) => {
+    const session = Session.createCompleted({
+      categoryId,
+      segments: [
+        {
+          startedAt: DateTime.create(startedAt),
+          stoppedAt: DateTime.create(startedAt + HOUR),
+        },
+      ],
+      loggedAt: DateTime.create(startedAt + HOUR),
+    });
+
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+
+    return session;
+  };
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(RecategorizeSessionsUseCase).toSelf();
+
+    useCase = container.get(RecategorizeSessionsUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: "Work" and "Meetings" categories
+    work = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    meetings = new Category({
+      name: CategoryName.create("Meetings"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(work);
+    await categoryRepo.save(meetings);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should move every matching session", async () => {
+    // Given: Two stopped Work sessions and one active Work session
+    const first = await logSession(work.id, 0);
+    const second = await logSession(work.id, 2 * HOUR);
+    const active = Session._validTestInstance({ categoryId: work.id });
+
+    await sessionRepo.save(active);
+
+    // When: Moving all stopped Work sessions to Meetings
+    const result = await useCase.execute({
+      spec: new SessionForCategorySpec(work.id).and(new StoppedSessionSpec()),
+      categoryId: meetings.id,
+    });
+
+    // Then: Only the stopped ones are moved
+    expect(result.sessionIds.sort()).toEqual([first.id, second.id].sort());
+    expect((await sessionRepo.findById(first.id))!.categoryId).toBe(
+      meetings.id,
+    );
+    expect((await sessionRepo.findById(second.id))!.categoryId).toBe(
+      meetings.id,
+    );
+    expect((await sessionRepo.findById(active.id))!.categoryId).toBe(work.id);
+  });
+
+  it("should publish one event per moved session", async () => {
+    const eventHandler = jest.fn();
+
+    eventPublisher.subscribe(SessionRecategorizedDomainEvent, eventHandler);
+
+    await logSession(work.id, 0);
+    await logSession(work.id, 2 * HOUR);
+    await logSession(meetings.id, 4 * HOUR);
+
+    await useCase.execute({
+      spec: new StoppedSessionSpec(),
+      categoryId: meetings.id,
+    });
+
+    expect(eventHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw error if category does not exist", async () => {
+    const session = await logSession(work.id, 0);
+
+    const promise = useCase.execute({
+      spec: new StoppedSessionSpec(),
+      categoryId: makeId(),
+    });
+
+    await expect(promise).rejects.toThrow("not found");
+    expect((await sessionRepo.findById(session.id))!.categoryId).toBe(work.id);
+  });
+});
@@ -0,0 +1,76 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type {
+  RecategorizeSessionsCommand,
+  RecategorizeSessionsResult,
+} from "../../commands";
+
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Move every session matching a specification to another category
+ *
+ * Business Rules:
+ * - Target category must exist
+ * - Sessions already in the target category are left untouched
+ * - All matching sessions are saved together or not at all
+ *
+ * Domain Events Emitted:
+ * - SessionRecategorizedDomainEvent (one per moved session)
+ */
+@injectable()
+export class RecategorizeSessionsUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(
+    command: RecategorizeSessionsCommand,
+  ): Promise<RecategorizeSessionsResult> {
+    // 1. Validate target category exists
+    const category = await this.categoryRepo.findById(command.categoryId);
+
+    if (!category) {
+      throw new Error(`Category with id ${command.categoryId} not found`);
+    }
+
+    // 2. Load matching sessions
+    const sessions = (
+      await this.sessionRepo.findManyBySpec(command.spec)
+    ).filter((session) => session.categoryId !== category.id);
+
+    // 3. Change category (domain logic)
+    const now = this.timeService.now();
+
+    for (const session of sessions) {
+      session.changeCategory(category.id, now);
+    }
+
+    // 4. Persist sessions atomically
+    await this.sessionRepo.saveMany(sessions);
+
+    // 5. Publish domain events
+    const events = sessions.flatMap((session) => session.pullDomainEvents());
+
+    await this.eventPublisher.publishAll(events);
+
+    // 6. Return result DTO
+    return {
+      categoryId: category.id,
+      sessionIds: sessions.map((session) => session.id),
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+import initSqlJs from "sql.js";
+
+import { Session } from "@wimt/domain/aggregates";
+import { SessionResumedDomainEvent } from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { createContainer } from "../../di";
+import {
+  ActiveSessionExistsAlreadyError,
+  SessionNotFoundError,
+} from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { CreateCategoryUseCase } from "../category";
+import { ResumeSessionUseCase } from "./ResumeSessionUseCase";
+
+describe("ResumeSessionUseCase", () => {
+  let container: Container;
+  let useCase: ResumeSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+  let session: Session;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(9000) });
+    container.bind(ResumeSessionUseCase).toSelf();
+
+    useCase = container.get(ResumeSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: A session paused at 5000
+    session = new Session({
+      categoryId: makeId(),
+      createdAt: DateTime.create(0),
+    });
+    session.pause(DateTime.create(5000));
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should resume the session with a new segment at now", async () => {
+    const eventHandler = jest.fn();
+
+    eventPublisher.subscribe(SessionResumedDomainEvent, eventHandler);
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result).toEqual({ sessionId: session.id, resumedAt: 9000 });
+
+    const saved = await sessionRepo.findById(session.id);
+
+    expect(saved!.state).toBe("active");
+    expect(saved!.activeSegment!.startedAt.value).toBe(9000);
+    expect(eventHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw SessionNotFoundError for unknown session", async () => {
+    const promise = useCase.execute({ sessionId: makeId() });
+
+    await expect(promise).rejects.toThrow(SessionNotFoundError);
+  });
+
+  it("should throw when the session is not paused", async () => {
+    await useCase.execute({ sessionId: session.id });
+
+    const promise = useCase.execute({ sessionId: session.id });
+
+    await expect(promise).rejects.toThrow("Only paused session can be resumed");
+  });
+
+  it("should refuse to resume while another session is active", async () => {
+    const active = new Session({
+      categoryId: makeId(),
+      createdAt: DateTime.create(6000),
+    });
+
+    await sessionRepo.save(active);
+
+    const promise = useCase.execute({ sessionId: session.id });
+
+    await expect(promise).rejects.toThrow(ActiveSessionExistsAlreadyError);
+    expect((await sessionRepo.findById(session.id))!.state).toBe("paused");
+  });
+
+  it("should refuse before SQLite rejects a second active session", async () => {
+    const SQL = await initSqlJs();
+    const app = createContainer({
+      profile: "sql.js",
+      database: new SQL.Database(),
+      timeService: { now: () => DateTime.create(9000) },
+    });
+    const repo = app.resolve(SessionRepositorySymbol);
+    const { categoryId } = await app
+      .resolve(CreateCategoryUseCase)
+      .execute({ name: "Work" });
+    const paused = new Session({
+      categoryId,
+      createdAt: DateTime.create(0),
+    });
+
+    paused.pause(DateTime.create(5000));
+    await repo.save(paused);
+    await repo.save(
+      new Session({ categoryId, createdAt: DateTime.create(6000) }),
+    );
+
+    const promise = app
+      .resolve(ResumeSessionUseCase)
+      .execute({ sessionId: paused.id });
+
+    await expect(promise).rejects.toThrow(ActiveSessionExistsAlreadyError);
+  });
+});
@@ -0,0 +1,75 @@
+import "reflect-metadata";
+
+import { invariant, isNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { ActiveSessionSpec } from "@wimt/domain/specifications";
+
+import type { ResumeSessionCommand, ResumeSessionResult } from "../../commands";
+
+import {
+  ActiveSessionExistsAlreadyError,
+  SessionNotFoundError,
+} from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Resume a paused session
+ *
+ * Business Rules:
+ * - Session must exist and be paused
+ * - Only one active session allowed at a time
+ * - A new segment starts at now
+ *
+ * Domain Events Emitted:
+ * - SessionResumedDomainEvent
+ */
+@injectable()
+export class ResumeSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: ResumeSessionCommand): Promise<ResumeSessionResult> {
+    // 1. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 2. Check for another active session
+    const activeSession = await this.sessionRepo.findOneBySpec(
+      new ActiveSessionSpec(),
+    );
+
+    invariant(
+      isNil(activeSession) || activeSession.id === session.id,
+      new ActiveSessionExistsAlreadyError(),
+    );
+
+    // 3. Resume (domain logic)
+    const resumedAt = this.timeService.now();
+
+    session.resume(resumedAt);
+
+    // 4. Persist session
+    await this.sessionRepo.save(session);
+
+    // 5. Publish domain events
+    await this.eventPublisher.publishAll(session.pullDomainEvents());
+
+    // 6. Return result DTO
+    return {
+      sessionId: session.id,
+      resumedAt: resumedAt.value,
+    };
+  }
+}
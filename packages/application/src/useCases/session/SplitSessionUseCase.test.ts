@@ -0,0 +1,160 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import { SessionSplitDomainEvent } from "@wimt/domain/events";
+import {
+  CategoryRepositorySymbol,
+  ICategoryRepository,
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { CategoryName, DateTime, makeId } from "@wimt/domain/valueObjects";
+import {
+  InMemoryCategoryRepository,
+  InMemorySessionRepository,
+} from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../../services";
+import { SplitSessionUseCase } from "./SplitSessionUseCase";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("SplitSessionUseCase", () => {
+  let container: Container;
+  let useCase: SplitSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let categoryRepo: ICategoryRepository;
+  let eventPublisher: DomainEventPublisher;
+  let work: Category;
+  let meetings: Category;
+  let session: Session;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container
+      .bind<ICategoryRepository>(CategoryRepositorySymbol)
+      .to(InMemoryCategoryRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(SplitSessionUseCase).toSelf();
+
+    useCase = container.get(SplitSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    categoryRepo = container.get<ICategoryRepository>(CategoryRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: "Work" and "Meetings" categories and a 4h Work session
+    work = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    meetings = new Category({
+      name: CategoryName.create("Meetings"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(work);
+    await categoryRepo.save(meetings);
+
+    session = Session.createCompleted({
+      categoryId: work.id,
+      segments: [
+        { startedAt: DateTime.create(0), stoppedAt: DateTime.create(4 * HOUR) },
+      ],
+      loggedAt: DateTime.create(5 * HOUR),
+    });
+    await sessionRepo.save(session);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  describe("successful split", () => {
+    it("should save both parts with the new part in another category", async () => {
+      // When: Second half was actually "Meetings"
+      const result = await useCase.execute({
+        sessionId: session.id,
+        splitAt: 2 * HOUR,
+        newCategoryId: meetings.id,
+      });
+
+      // Then: Both sessions are persisted
+      const first = await sessionRepo.findById(result.sessionId);
+      const second = await sessionRepo.findById(result.newSessionId);
+
+      expect(first!.categoryId).toBe(work.id);
+      expect(first!.getDurationMs()).toBe(2 * HOUR);
+      expect(second!.categoryId).toBe(meetings.id);
+      expect(second!.getDurationMs()).toBe(2 * HOUR);
+    });
+
+    it("should keep the category when none is given", async () => {
+      const result = await useCase.execute({
+        sessionId: session.id,
+        splitAt: HOUR,
+      });
+
+      const second = await sessionRepo.findById(result.newSessionId);
+
+      expect(second!.categoryId).toBe(work.id);
+    });
+
+    it("should publish SessionSplitDomainEvent", async () => {
+      const eventHandler = jest.fn();
+
+      eventPublisher.subscribe(SessionSplitDomainEvent, eventHandler);
+
+      const result = await useCase.execute({
+        sessionId: session.id,
+        splitAt: 2 * HOUR,
+        newCategoryId: meetings.id,
+      });
+
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: session.id,
+          newSessionId: result.newSessionId,
+          newCategoryId: meetings.id,
+        }),
+      );
+    });
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if session does not exist", async () => {
+      const promise = useCase.execute({ sessionId: makeId(), splitAt: HOUR });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should throw error if new category does not exist", async () => {
+      const promise = useCase.execute({
+        sessionId: session.id,
+        splitAt: HOUR,
+        newCategoryId: makeId(),
+      });
+
+      await expect(promise).rejects.toThrow("not found");
+      expect(await sessionRepo.count()).toBe(1);
+    });
+
+    it("should throw error if split point is outside the session", async () => {
+      const promise = useCase.execute({
+        sessionId: session.id,
+        splitAt: 5 * HOUR,
+      });
+
+      await expect(promise).rejects.toThrow("inside the session");
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import "reflect-metadata";
+
+import { isNotNil } from "es-toolkit";
+import { inject, injectable } from "inversify";
+
+import {
+  CategoryRepositorySymbol,
+  type ICategoryRepository,
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime } from "@wimt/domain/valueObjects";
+
+import type { SplitSessionCommand, SplitSessionResult } from "../../commands";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Split a session at a timestamp into two sessions
+ *
+ * Business Rules:
+ * - Session must exist
+ * - Split point must be inside the session
+ * - Category of the new part must exist (when given)
+ * - Both parts are saved together or not at all
+ *
+ * Domain Events Emitted:
+ * - SessionSplitDomainEvent
+ */
+@injectable()
+export class SplitSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(CategoryRepositorySymbol) private categoryRepo: ICategoryRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: SplitSessionCommand): Promise<SplitSessionResult> {
+    // 1. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 2. Validate target category exists
+    if (isNotNil(command.newCategoryId)) {
+      const category = await this.categoryRepo.findById(command.newCategoryId);
+
+      if (!category) {
+        throw new Error(`Category with id ${command.newCategoryId} not found`);
+      }
+    }
+
+    // 3. Split session (domain logic)
+    const part = session.splitAt(
+      DateTime.create(command.splitAt),
+      this.timeService.now(),
+      command.newCategoryId,
+    );
+
+    // 4. Persist both sessions atomically
+    await this.sessionRepo.saveMany([session, part]);
+
+    // 5. Publish domain events
+    const events = [session, part].flatMap((s) => s.pullDomainEvents());
+
+    await this.eventPublisher.publishAll(events);
+
+    // 6. Return result DTO
+    return {
+      sessionId: session.id,
+      newSessionId: part.id,
+    };
+  }
+}
@@ -3,6 +3,7 @@ import "reflect-metadata";
 import { Container } from "inversify";
 
 import { Category, Session } from "@wimt/domain/aggregates";
+import { CategoryArchivedError } from "@wimt/domain/errors";
 import { SessionStartedDomainEvent } from "@wimt/domain/events";
 import {
   CategoryRepositorySymbol,
@@ -170,6 +171,24 @@ describe("StartSessionUseCase", () => {
       // Then: Should throw error
       await expect(promise).rejects.toThrow("active session already exists");
     });
+
+    it("should throw error if category is archived", async () => {
+      // Given: An archived category
+      const category = new Category({
+        name: CategoryName.create("Old Project"),
+        createdAt: timeService.now(),
+      });
+
+      category.archive(timeService.now());
+      await categoryRepo.save(category);
+
+      // When: Trying to start a session on it
+      const promise = useCase.execute({ categoryId: category.id });
+
+      // Then: Should throw error and not create a session
+      await expect(promise).rejects.toThrow(CategoryArchivedError);
+      expect(await sessionRepo.count()).toBe(0);
+    });
   });
 
   describe("session state", () => {
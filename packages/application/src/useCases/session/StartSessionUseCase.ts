@@ -4,6 +4,7 @@ import { isNull, invariant } from "es-toolkit";
 import { inject, injectable } from "inversify";
 
 import { Session } from "@wimt/domain/aggregates";
+import { CategoryArchivedError } from "@wimt/domain/errors";
 import {
   CategoryRepositorySymbol,
   type ICategoryRepository,
@@ -24,7 +25,7 @@ import { DomainEventPublisher } from "../../services";
  *
  * Business Rules:
  * - Only one active session allowed at a time
- * - Category must exist
+ * - Category must exist and not be archived
  * - Session starts with one active segment
  *
  * Domain Events Emitted:
@@ -47,6 +48,8 @@ export class StartSessionUseCase {
       throw new Error(`Category with id ${command.categoryId} not found`);
     }
 
+    invariant(!category.isArchived, new CategoryArchivedError(category.id));
+
     // 2. Check for existing active session
     const existingActiveSession = await this.sessionRepo.findOneBySpec(
       new ActiveSessionSpec(),
@@ -0,0 +1,134 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import { EmptySessionError } from "@wimt/domain/errors";
+import { SessionStoppedDomainEvent } from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+import { StopSessionUseCase } from "./StopSessionUseCase";
+
+describe("StopSessionUseCase", () => {
+  let container: Container;
+  let useCase: StopSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+  let session: Session;
+  let now: number;
+
+  beforeEach(async () => {
+    container = new Container();
+    now = 0;
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container
+      .bind(TimeServiceSymbol)
+      .toConstantValue({ now: () => DateTime.create(now) });
+    container.bind(StopSessionUseCase).toSelf();
+
+    useCase = container.get(StopSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: A session tracked 0-5000, paused, and running again since 9000
+    session = new Session({
+      categoryId: makeId(),
+      createdAt: DateTime.create(0),
+    });
+    session.pause(DateTime.create(5000));
+    session.resume(DateTime.create(9000));
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should stop the session at now", async () => {
+    const eventHandler = jest.fn();
+
+    eventPublisher.subscribe(SessionStoppedDomainEvent, eventHandler);
+    now = 12000;
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result).toEqual({
+      sessionId: session.id,
+      stoppedAt: 12000,
+      totalDurationMs: 8000,
+      discardedSegmentId: null,
+    });
+
+    const saved = await sessionRepo.findById(session.id);
+
+    expect(saved!.state).toBe("stopped");
+    expect(eventHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should end at the previous segment when the last one is too short", async () => {
+    const segmentId = session.activeSegment!.id;
+
+    now = 9100;
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result).toEqual({
+      sessionId: session.id,
+      stoppedAt: 5000,
+      totalDurationMs: 5000,
+      discardedSegmentId: segmentId,
+    });
+  });
+
+  it("should stop a paused session where the pause began", async () => {
+    now = 10000;
+    session.pause(DateTime.create(10000));
+    await sessionRepo.save(session);
+
+    now = 60000;
+
+    const result = await useCase.execute({ sessionId: session.id });
+
+    expect(result).toMatchObject({ stoppedAt: 10000, totalDurationMs: 6000 });
+  });
+
+  it("should throw when no segment would be kept", async () => {
+    const fresh = new Session({
+      categoryId: makeId(),
+      createdAt: DateTime.create(0),
+    });
+
+    await sessionRepo.save(fresh);
+    now = 100;
+
+    const promise = useCase.execute({ sessionId: fresh.id });
+
+    await expect(promise).rejects.toThrow(EmptySessionError);
+
+    // The repository holds the same object, it must be left running
+    const saved = await sessionRepo.findById(fresh.id);
+
+    expect(saved!.state).toBe("active");
+    expect(saved!.activeSegment!.startedAt.value).toBe(0);
+  });
+
+  it("should throw SessionNotFoundError for unknown session", async () => {
+    const promise = useCase.execute({ sessionId: makeId() });
+
+    await expect(promise).rejects.toThrow(SessionNotFoundError);
+  });
+});
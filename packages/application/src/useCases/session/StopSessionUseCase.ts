@@ -0,0 +1,71 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import { SegmentTooShortDomainEvent } from "@wimt/domain/events";
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+
+import type { StopSessionCommand, StopSessionResult } from "../../commands";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Stop an active or paused session
+ *
+ * Business Rules:
+ * - Session must exist and not be stopped yet
+ * - The running segment is closed at now
+ * - A last segment shorter than the minimum is discarded, the session then
+ *   ends where the previous segment ended and the result reports it
+ * - A session without any kept segment cannot be stopped, it is left
+ *   running (EmptySessionError)
+ *
+ * Domain Events Emitted:
+ * - SegmentTooShortDomainEvent (when the last segment is discarded)
+ * - SessionStoppedDomainEvent
+ */
+@injectable()
+export class StopSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: StopSessionCommand): Promise<StopSessionResult> {
+    // 1. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 2. Stop (domain logic)
+    session.stop(this.timeService.now());
+
+    // 3. Persist session
+    await this.sessionRepo.save(session);
+
+    // 4. Publish domain events
+    const events = session.pullDomainEvents();
+
+    await this.eventPublisher.publishAll(events);
+
+    // 5. Return result DTO
+    const discarded = events.find(
+      (event) => event instanceof SegmentTooShortDomainEvent,
+    );
+
+    return {
+      sessionId: session.id,
+      stoppedAt: session.stoppedAt!.value,
+      totalDurationMs: session.getDurationMs() ?? 0,
+      discardedSegmentId: discarded?.segmentId ?? null,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import "reflect-metadata";
+
+import { Container } from "inversify";
+
+import { Session } from "@wimt/domain/aggregates";
+import { ValidationDomainError } from "@wimt/domain/errors";
+import {
+  SessionTaggedDomainEvent,
+  SessionUntaggedDomainEvent,
+} from "@wimt/domain/events";
+import {
+  ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { TimeServiceSymbol } from "@wimt/domain/shared";
+import { DateTime, Tag, makeId } from "@wimt/domain/valueObjects";
+import { InMemorySessionRepository } from "@wimt/infrastructure/db/in-memory";
+import { TimeService } from "@wimt/infrastructure/services";
+
+import { DomainEventPublisher } from "../../services";
+import { TagSessionUseCase } from "./TagSessionUseCase";
+
+describe("TagSessionUseCase", () => {
+  let container: Container;
+  let useCase: TagSessionUseCase;
+  let sessionRepo: ISessionRepository;
+  let eventPublisher: DomainEventPublisher;
+  let session: Session;
+
+  beforeEach(async () => {
+    container = new Container();
+
+    container
+      .bind<ISessionRepository>(SessionRepositorySymbol)
+      .to(InMemorySessionRepository)
+      .inSingletonScope();
+    container.bind(DomainEventPublisher).toSelf().inSingletonScope();
+    container.bind(TimeServiceSymbol).to(TimeService).inSingletonScope();
+    container.bind(TagSessionUseCase).toSelf();
+
+    useCase = container.get(TagSessionUseCase);
+    sessionRepo = container.get<ISessionRepository>(SessionRepositorySymbol);
+    eventPublisher = container.get(DomainEventPublisher);
+
+    // Given: A stopped session tagged "billable"
+    session = Session._validTestInstance();
+    session.addTag(Tag.create("billable"), DateTime.create(0));
+    session.stop(DateTime.create(1000));
+    session.pullDomainEvents();
+    await sessionRepo.save(session);
+  });
+
+  afterEach(() => {
+    eventPublisher.clearHandlers();
+  });
+
+  it("should add and remove tags", async () => {
+    const result = await useCase.execute({
+      sessionId: session.id,
+      add: ["deep-work", "PROJ-123"],
+      remove: ["Billable"],
+    });
+
+    const saved = await sessionRepo.findById(session.id);
+
+    expect(result.tags).toEqual(["deep-work", "PROJ-123"]);
+    expect(saved!.hasTag(Tag.create("proj-123"))).toBe(true);
+    expect(saved!.hasTag(Tag.create("billable"))).toBe(false);
+  });
+
+  it("should publish an event per changed tag", async () => {
+    const tagged = jest.fn();
+    const untagged = jest.fn();
+
+    eventPublisher.subscribe(SessionTaggedDomainEvent, tagged);
+    eventPublisher.subscribe(SessionUntaggedDomainEvent, untagged);
+
+    await useCase.execute({
+      sessionId: session.id,
+      add: ["billable", "deep-work"],
+      remove: ["billable"],
+    });
+
+    expect(tagged).toHaveBeenCalledTimes(1);
+    expect(tagged).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: session.id, tag: "deep-work" }),
+    );
+    expect(untagged).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: session.id, tag: "billable" }),
+    );
+  });
+
+  describe("validation errors", () => {
+    it("should throw error if session does not exist", async () => {
+      const promise = useCase.execute({ sessionId: makeId(), add: ["x"] });
+
+      await expect(promise).rejects.toThrow("not found");
+    });
+
+    it("should reject invalid tags without changing the session", async () => {
+      const promise = useCase.execute({
+        sessionId: session.id,
+        add: ["deep-work", "   "],
+      });
+
+      await expect(promise).rejects.toThrow(ValidationDomainError);
+      expect((await sessionRepo.findById(session.id))!.tags).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import "reflect-metadata";
+
+import { inject, injectable } from "inversify";
+
+import {
+  type ISessionRepository,
+  SessionRepositorySymbol,
+} from "@wimt/domain/repositories";
+import { type ITimeService, TimeServiceSymbol } from "@wimt/domain/shared";
+import { Tag } from "@wimt/domain/valueObjects";
+
+import type { TagSessionCommand, TagSessionResult } from "../../commands";
+
+import { SessionNotFoundError } from "../../errors";
+import { DomainEventPublisher } from "../../services";
+
+/**
+ * Use Case: Add and remove tags on a session
+ *
+ * Business Rules:
+ * - Session must exist (active, paused or stopped)
+ * - Tags are compared case-insensitively, adding a present tag is a no-op
+ * - Removals are applied after additions
+ *
+ * Domain Events Emitted:
+ * - SessionTaggedDomainEvent (per added tag)
+ * - SessionUntaggedDomainEvent (per removed tag)
+ */
+@injectable()
+export class TagSessionUseCase {
+  constructor(
+    @inject(SessionRepositorySymbol) private sessionRepo: ISessionRepository,
+    @inject(DomainEventPublisher) private eventPublisher: DomainEventPublisher,
+    @inject(TimeServiceSymbol) private timeService: ITimeService,
+  ) {}
+
+  async execute(command: TagSessionCommand): Promise<TagSessionResult> {
+    // 1. Parse tags before touching the session
+    const added = (command.add ?? []).map((value) => Tag.create(value));
+    const removed = (command.remove ?? []).map((value) => Tag.create(value));
+
+    // 2. Load session
+    const session = await this.sessionRepo.findById(command.sessionId);
+
+    if (!session) {
+      throw new SessionNotFoundError(command.sessionId);
+    }
+
+    // 3. Apply tag changes (domain logic)
+    const now = this.timeService.now();
+
+    added.forEach((tag) => session.addTag(tag, now));
+    removed.forEach((tag) => session.removeTag(tag, now));
+
+    // 4. Persist session
+    await this.sessionRepo.save(session);
+
+    // 5. Publish domain events
+    await this.eventPublisher.publishAll(session.pullDomainEvents());
+
+    // 6. Return result DTO
+    return {
+      sessionId: session.id,
+      tags: session.tags.map((tag) => tag.value),
+    };
+  }
+}
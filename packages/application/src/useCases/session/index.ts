@@ -1 +1,33 @@
+export { AdjustSessionTimesUseCase } from "./AdjustSessionTimesUseCase";
+
+export { EditSessionNoteUseCase } from "./EditSessionNoteUseCase";
+
+export { GetActiveSessionUseCase } from "./GetActiveSessionUseCase";
+
+export { GetSessionUseCase } from "./GetSessionUseCase";
+
+export { GetSessionStatsUseCase } from "./GetSessionStatsUseCase";
+
+export { GetTagStatsUseCase } from "./GetTagStatsUseCase";
+
+export { ListSessionsUseCase } from "./ListSessionsUseCase";
+
+export { LogPastSessionUseCase } from "./LogPastSessionUseCase";
+
+export { MergeSessionsUseCase } from "./MergeSessionsUseCase";
+
+export { PauseSessionUseCase } from "./PauseSessionUseCase";
+
+export { RecategorizeSessionUseCase } from "./RecategorizeSessionUseCase";
+
+export { RecategorizeSessionsUseCase } from "./RecategorizeSessionsUseCase";
+
+export { ResumeSessionUseCase } from "./ResumeSessionUseCase";
+
+export { SplitSessionUseCase } from "./SplitSessionUseCase";
+
 export { StartSessionUseCase } from "./StartSessionUseCase";
+
+export { StopSessionUseCase } from "./StopSessionUseCase";
+
+export { TagSessionUseCase } from "./TagSessionUseCase";
@@ -0,0 +1,86 @@
+import { isNotNil, last } from "es-toolkit";
+
+import type { Category, Session } from "@wimt/domain/aggregates";
+import type { SessionSegment } from "@wimt/domain/entities";
+import type { DateTime } from "@wimt/domain/valueObjects";
+
+import type {
+  SessionDTO,
+  SessionListItemDTO,
+  SessionSegmentDTO,
+} from "../../queries";
+
+import { TrackedTime } from "../../readModels";
+
+/**
+ * Full session with its segments, notes included
+ */
+export function toSessionDTO(
+  session: Session,
+  category: Category,
+  now: DateTime,
+): SessionDTO {
+  const segments = [...session.history, session.activeSegment].filter(isNotNil);
+  const pausedSegment =
+    session.state === "paused" ? last(session.history) : undefined;
+
+  return {
+    sessionId: session.id,
+    categoryId: category.id,
+    categoryName: category.name.value,
+    categoryColor: category.color?.value ?? null,
+    state: session.state,
+    createdAt: session.createdAt.value,
+    startedAt: session.startedAt.value,
+    stoppedAt: session.stoppedAt?.value ?? null,
+    totalDurationMs: new TrackedTime(now).of(session).value,
+    segments: segments.map((segment) =>
+      toSessionSegmentDTO(segment, segment === pausedSegment, now),
+    ),
+    segmentCount: segments.length,
+    tags: session.tags.map((tag) => tag.value),
+    note: session.note?.value ?? null,
+  };
+}
+
+/**
+ * Durations count a running segment up to now
+ */
+export function toSessionListItemDTO(
+  session: Session,
+  category: Category,
+  now: DateTime,
+): SessionListItemDTO {
+  const duration = new TrackedTime(now).of(session);
+
+  return {
+    sessionId: session.id,
+    categoryId: category.id,
+    categoryName: category.name.value,
+    categoryColor: category.color?.value ?? null,
+    state: session.state,
+    startedAt: session.startedAt.value,
+    stoppedAt: session.stoppedAt?.value ?? null,
+    totalDurationMs: duration.value,
+    formattedDuration: duration.format(),
+    tags: session.tags.map((tag) => tag.value),
+  };
+}
+
+/**
+ * isPaused marks the segment the session was paused after
+ */
+function toSessionSegmentDTO(
+  segment: SessionSegment,
+  isPaused: boolean,
+  now: DateTime,
+): SessionSegmentDTO {
+  return {
+    segmentId: segment.id,
+    startTime: segment.startedAt.value,
+    endTime: segment.stoppedAt?.value ?? null,
+    durationMs: segment.getElapsedMs(now),
+    isPaused,
+    note: segment.note?.value ?? null,
+  };
+}
@@ -1,8 +1,19 @@
-import { isNil } from "es-toolkit";
+import { invariant, isNil, isNotNil } from "es-toolkit";
 
+import type { CategoryHierarchy } from "../services";
+
+import {
+  CategoryArchivedError,
+  CategoryCycleError,
+  ValidationDomainError,
+} from "../errors";
 import {
+  CategoriesMergedDomainEvent,
+  CategoryArchivedDomainEvent,
   CategoryCreatedDomainEvent,
+  CategoryDeletedDomainEvent,
   CategoryEditedDomainEvent,
+  CategoryUnarchivedDomainEvent,
 } from "../events";
 import { CategoryName, Color, DateTime, Icon, ULID } from "../valueObjects";
 import { AggregateRoot } from "./AggregateRoot";
@@ -13,6 +24,9 @@ type CategoryProps = {
   createdAt: DateTime;
   color?: Color;
   icon?: Icon;
+  archivedAt?: DateTime | null;
+  parentId?: ULID | null;
+  updatedAt?: DateTime;
 };
 
 export class Category extends AggregateRoot {
@@ -20,6 +34,9 @@ export class Category extends AggregateRoot {
   public readonly createdAt!: DateTime;
   public icon: Icon | null;
   public name: CategoryName;
+  private _archivedAt: DateTime | null;
+  private _parentId: ULID | null;
+  private _updatedAt: DateTime;
 
   constructor(props: CategoryProps) {
     super(props.id);
@@ -27,25 +44,114 @@ export class Category extends AggregateRoot {
     this.defineImmutable("createdAt", props.createdAt);
     this.color = props.color ?? null;
     this.icon = props.icon ?? null;
+    this._archivedAt = props.archivedAt ?? null;
+
+    invariant(props.parentId !== this.id, new CategoryCycleError(this.id));
+    this._parentId = props.parentId ?? null;
+    this._updatedAt = props.updatedAt ?? props.createdAt;
 
     if (isNil(props.id)) {
       this.addEvent(new CategoryCreatedDomainEvent(this.id, this.createdAt));
     }
   }
 
-  setColor(color: Color): void {
+  get archivedAt() {
+    return this._archivedAt;
+  }
+
+  /**
+   * Archived categories are hidden from pickers and cannot take new
+   * sessions, but their sessions stay in history and reports.
+   */
+  get isArchived(): boolean {
+    return isNotNil(this._archivedAt);
+  }
+
+  get parentId() {
+    return this._parentId;
+  }
+
+  /**
+   * Last edit, archiving included; equals createdAt for untouched categories
+   */
+  get updatedAt() {
+    return this._updatedAt;
+  }
+
+  archive(archivedAt: DateTime): void {
+    invariant(!this.isArchived, new CategoryArchivedError(this.id));
+
+    this._archivedAt = archivedAt.clone();
+    this.touch(archivedAt);
+    this.addEvent(new CategoryArchivedDomainEvent(this.id, archivedAt.clone()));
+  }
+
+  /**
+   * Record the deletion. Removing the row is up to the repository,
+   * what happens to the category's sessions is up to the caller.
+   */
+  delete(deletedAt: DateTime): void {
+    this.addEvent(new CategoryDeletedDomainEvent(this.id, deletedAt.clone()));
+  }
+
+  /**
+   * Record that the sessions of other categories were moved into this one.
+   * What happens to the source categories afterwards is up to the caller.
+   */
+  merge(sources: Category[], mergedAt: DateTime): void {
+    invariant(
+      sources.length > 0,
+      new ValidationDomainError("at least one category to merge is required"),
+    );
+    invariant(
+      sources.every((source) => source.id !== this.id),
+      new ValidationDomainError("category cannot be merged into itself"),
+    );
+    invariant(!this.isArchived, new CategoryArchivedError(this.id));
+
+    this.addEvent(
+      new CategoriesMergedDomainEvent(
+        this.id,
+        sources.map((source) => source.id),
+        mergedAt.clone(),
+      ),
+    );
+  }
+
+  /**
+   * Replace the color, null clears it
+   */
+  setColor(color: Color | null, editedAt: DateTime): void {
     this.color = color;
-    this.addEvent(new CategoryEditedDomainEvent(this.id, this.createdAt));
+    this.edited(editedAt);
   }
 
-  setIcon(icon: Icon): void {
+  /**
+   * Replace the icon, null clears it
+   */
+  setIcon(icon: Icon | null, editedAt: DateTime): void {
     this.icon = icon;
-    this.addEvent(new CategoryEditedDomainEvent(this.id, this.createdAt));
+    this.edited(editedAt);
   }
 
-  setName(name: CategoryName): void {
+  setName(name: CategoryName, editedAt: DateTime): void {
     this.name = name;
-    this.addEvent(new CategoryEditedDomainEvent(this.id, this.createdAt));
+    this.edited(editedAt);
+  }
+
+  /**
+   * Nest the category under another one, or make it a root with null.
+   * The hierarchy must contain all categories to detect cycles and depth.
+   */
+  setParent(
+    parentId: ULID | null,
+    hierarchy: CategoryHierarchy,
+    editedAt: DateTime,
+  ): void {
+    hierarchy.assertCanAttach(this, parentId);
+
+    this._parentId = parentId;
+    this.edited(editedAt);
   }
 
   toJSON() {
@@ -55,6 +161,31 @@ export class Category extends AggregateRoot {
       createdAt: this.createdAt,
       color: this.color,
       icon: this.icon,
+      archivedAt: this._archivedAt,
+      parentId: this._parentId,
+      updatedAt: this._updatedAt,
     };
   }
+
+  unarchive(unarchivedAt: DateTime): void {
+    invariant(
+      this.isArchived,
+      new ValidationDomainError("category is not archived"),
+    );
+
+    this._archivedAt = null;
+    this.touch(unarchivedAt);
+    this.addEvent(
+      new CategoryUnarchivedDomainEvent(this.id, unarchivedAt.clone()),
+    );
+  }
+
+  private edited(editedAt: DateTime) {
+    this.touch(editedAt);
+    this.addEvent(new CategoryEditedDomainEvent(this.id, editedAt.clone()));
+  }
+
+  private touch(at: DateTime) {
+    this._updatedAt = at.clone();
+  }
 }
@@ -1,7 +1,19 @@
 import {
+  CategoryArchivedError,
+  CategoryCycleError,
+  CategoryDepthExceededError,
+  ValidationDomainError,
+} from "../errors";
+import {
+  CategoriesMergedDomainEvent,
+  CategoryArchivedDomainEvent,
   CategoryCreatedDomainEvent,
+  CategoryDeletedDomainEvent,
   CategoryEditedDomainEvent,
+  CategoryUnarchivedDomainEvent,
 } from "../events";
+import { CategoryHierarchy, MAX_CATEGORY_DEPTH } from "../services";
+import { ArchivedCategorySpec } from "../specifications";
 import { CategoryName, Color, DateTime, Icon } from "../valueObjects";
 import { Category } from "./Category";
 
@@ -86,6 +98,39 @@ describe("Category", () => {
     });
   });
 
+  describe("updatedAt", () => {
+    it("should equal createdAt until the category is edited", () => {
+      const category = new Category({
+        name: CategoryName.create("Category"),
+        createdAt: now,
+      });
+
+      expect(category.updatedAt.value).toBe(now.value);
+
+      const editedAt = now.add(1000);
+
+      category.setName(CategoryName.create("New Category"), editedAt);
+
+      expect(category.updatedAt.value).toBe(editedAt.value);
+      expect(category.pullDomainEvents().at(-1)?.occurredAt.value).toBe(
+        editedAt.value,
+      );
+    });
+
+    it("should be touched by archiving and unarchiving", () => {
+      const category = new Category({
+        name: CategoryName.create("Category"),
+        createdAt: now,
+      });
+
+      category.archive(now.add(1000));
+      expect(category.updatedAt.value).toBe(now.add(1000).value);
+
+      category.unarchive(now.add(2000));
+      expect(category.updatedAt.value).toBe(now.add(2000).value);
+    });
+  });
+
   describe("change name", () => {
     it("should change name", () => {
       const category = new Category({
@@ -93,7 +138,7 @@ describe("Category", () => {
         createdAt: now,
       });
 
-      category.setName(CategoryName.create("New Category"));
+      category.setName(CategoryName.create("New Category"), now);
       expect(category.name.value).toBe("New Category");
     });
 
@@ -103,7 +148,7 @@ describe("Category", () => {
         createdAt: now,
       });
 
-      category.setName(CategoryName.create("New Category"));
+      category.setName(CategoryName.create("New Category"), now);
 
       const events = category.pullDomainEvents();
       const targetEvent = events.find(
@@ -121,7 +166,7 @@ describe("Category", () => {
         createdAt: now,
       });
 
-      category.setColor(Color.create("#000000"));
+      category.setColor(Color.create("#000000"), now);
       expect(category.color?.value).toBe("#000000");
     });
 
@@ -131,7 +176,7 @@ describe("Category", () => {
         createdAt: now,
       });
 
-      category.setColor(Color.create("#000000"));
+      category.setColor(Color.create("#000000"), now);
 
       const events = category.pullDomainEvents();
       const targetEvent = events.find(
@@ -143,13 +188,24 @@ describe("Category", () => {
   });
 
   describe("set icon", () => {
+    it("should clear the icon with null", () => {
+      const category = new Category({
+        name: CategoryName.create("Category"),
+        icon: Icon.create("icon"),
+        createdAt: now,
+      });
+
+      category.setIcon(null, now);
+      expect(category.icon).toBeNull();
+    });
+
     it("should set icon", () => {
       const category = new Category({
         name: CategoryName.create("Category"),
         createdAt: now,
       });
 
-      category.setIcon(Icon.create("icon"));
+      category.setIcon(Icon.create("icon"), now);
       expect(category.icon?.value).toBe("icon");
     });
 
@@ -159,7 +215,7 @@ describe("Category", () => {
         createdAt: now,
       });
 
-      category.setIcon(Icon.create("icon"));
+      category.setIcon(Icon.create("icon"), now);
 
       const events = category.pullDomainEvents();
       const targetEvent = events.find(
@@ -169,4 +225,232 @@ describe("Category", () => {
       expect(targetEvent).toBeDefined();
     });
   });
+
+  describe("archive", () => {
+    it("should archive category and emit CategoryArchived event", () => {
+      const category = new Category({
+        name: CategoryName.create("Old Project"),
+        createdAt: now,
+      });
+
+      category.pullDomainEvents();
+      category.archive(DateTime.create(1000));
+
+      expect(category.isArchived).toBe(true);
+      expect(category.archivedAt?.value).toBe(1000);
+      expect(category.pullDomainEvents()).toEqual([
+        expect.any(CategoryArchivedDomainEvent),
+      ]);
+    });
+
+    it("should throw when category is already archived", () => {
+      const category = new Category({
+        name: CategoryName.create("Old Project"),
+        createdAt: now,
+        archivedAt: DateTime.create(1000),
+      });
+
+      expect(() => category.archive(DateTime.create(2000))).toThrow(
+        CategoryArchivedError,
+      );
+    });
+
+    it("should be matched by ArchivedCategorySpec", () => {
+      const active = new Category({
+        name: CategoryName.create("Work"),
+        createdAt: now,
+      });
+      const archived = new Category({
+        name: CategoryName.create("Old Project"),
+        createdAt: now,
+        archivedAt: DateTime.create(1000),
+      });
+      const spec = new ArchivedCategorySpec();
+
+      expect(spec.isSatisfiedBy(archived)).toBe(true);
+      expect(spec.isSatisfiedBy(active)).toBe(false);
+      expect(spec.not().isSatisfiedBy(active)).toBe(true);
+    });
+  });
+
+  describe("unarchive", () => {
+    it("should restore category and emit CategoryUnarchived event", () => {
+      const category = new Category({
+        name: CategoryName.create("Old Project"),
+        createdAt: now,
+        archivedAt: DateTime.create(1000),
+      });
+
+      category.pullDomainEvents();
+      category.unarchive(DateTime.create(2000));
+
+      expect(category.isArchived).toBe(false);
+      expect(category.archivedAt).toBeNull();
+      expect(category.pullDomainEvents()).toEqual([
+        expect.any(CategoryUnarchivedDomainEvent),
+      ]);
+    });
+
+    it("should throw when category is not archived", () => {
+      const category = new Category({
+        name: CategoryName.create("Work"),
+        createdAt: now,
+      });
+
+      expect(() => category.unarchive(DateTime.create(2000))).toThrow(
+        ValidationDomainError,
+      );
+    });
+  });
+
+  describe("delete", () => {
+    it("should emit CategoryDeleted event", () => {
+      const category = new Category({
+        name: CategoryName.create("Work"),
+        createdAt: now,
+      });
+
+      category.pullDomainEvents();
+      category.delete(DateTime.create(1000));
+
+      const events = category.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(CategoryDeletedDomainEvent);
+      expect(events[0]!.occurredAt.value).toBe(1000);
+    });
+  });
+
+  describe("merge", () => {
+    const create = (name: string) =>
+      new Category({ name: CategoryName.create(name), createdAt: now });
+
+    it("should emit CategoriesMerged event with source ids", () => {
+      const target = create("Development");
+      const dev = create("Dev");
+      const coding = create("Coding");
+
+      target.pullDomainEvents();
+      target.merge([dev, coding], DateTime.create(1000));
+
+      const events = target.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(CategoriesMergedDomainEvent);
+      expect(
+        (events[0] as CategoriesMergedDomainEvent).sourceCategoryIds,
+      ).toEqual([dev.id, coding.id]);
+    });
+
+    it("should throw when merging into itself", () => {
+      const target = create("Development");
+
+      expect(() => target.merge([target], DateTime.create(1000))).toThrow(
+        ValidationDomainError,
+      );
+    });
+
+    it("should throw when target is archived", () => {
+      const target = create("Development");
+
+      target.archive(DateTime.create(500));
+
+      expect(() =>
+        target.merge([create("Dev")], DateTime.create(1000)),
+      ).toThrow(CategoryArchivedError);
+    });
+  });
+
+  describe("setParent", () => {
+    const create = (name: string) =>
+      new Category({ name: CategoryName.create(name), createdAt: now });
+
+    it("should nest category under a parent", () => {
+      const work = create("Work");
+      const clientA = create("Client A");
+      const meetings = create("Meetings");
+      const hierarchy = new CategoryHierarchy([work, clientA, meetings]);
+
+      clientA.setParent(work.id, hierarchy, now);
+      meetings.setParent(clientA.id, hierarchy, now);
+
+      expect(meetings.parentId).toBe(clientA.id);
+      expect(hierarchy.depthOf(meetings.id)).toBe(3);
+      expect(hierarchy.ancestorsOf(meetings.id)).toEqual([clientA, work]);
+      expect(hierarchy.descendantsOf(work.id)).toEqual([clientA, meetings]);
+      expect(hierarchy.childrenOf(null)).toEqual([work]);
+    });
+
+    it("should make category a root again", () => {
+      const work = create("Work");
+      const clientA = create("Client A");
+      const hierarchy = new CategoryHierarchy([work, clientA]);
+
+      clientA.setParent(work.id, hierarchy, now);
+      clientA.setParent(null, hierarchy, now);
+
+      expect(clientA.parentId).toBeNull();
+    });
+
+    it("should throw when nesting under itself or a descendant", () => {
+      const work = create("Work");
+      const clientA = create("Client A");
+      const hierarchy = new CategoryHierarchy([work, clientA]);
+
+      clientA.setParent(work.id, hierarchy, now);
+
+      expect(() => work.setParent(work.id, hierarchy, now)).toThrow(
+        CategoryCycleError,
+      );
+      expect(() => work.setParent(clientA.id, hierarchy, now)).toThrow(
+        CategoryCycleError,
+      );
+      expect(work.parentId).toBeNull();
+    });
+
+    it("should throw when nesting exceeds max depth", () => {
+      const chain = Array.from({ length: MAX_CATEGORY_DEPTH + 1 }, (_, i) =>
+        create(`Level ${i + 1}`),
+      );
+      const hierarchy = new CategoryHierarchy(chain);
+
+      for (let i = 1; i < MAX_CATEGORY_DEPTH; i++) {
+        chain[i]!.setParent(chain[i - 1]!.id, hierarchy, now);
+      }
+
+      const last = chain[MAX_CATEGORY_DEPTH]!;
+
+      expect(() =>
+        last.setParent(chain[MAX_CATEGORY_DEPTH - 1]!.id, hierarchy, now),
+      ).toThrow(CategoryDepthExceededError);
+    });
+
+    it("should count the moved subtree towards max depth", () => {
+      const chain = Array.from({ length: MAX_CATEGORY_DEPTH }, (_, i) =>
+        create(`Level ${i + 1}`),
+      );
+      const root = create("Root");
+      const hierarchy = new CategoryHierarchy([root, ...chain]);
+
+      for (let i = 1; i < MAX_CATEGORY_DEPTH; i++) {
+        chain[i]!.setParent(chain[i - 1]!.id, hierarchy, now);
+      }
+
+      expect(() => chain[0]!.setParent(root.id, hierarchy, now)).toThrow(
+        CategoryDepthExceededError,
+      );
+    });
+
+    it("should reject parentId equal to own id on reconstruction", () => {
+      expect(
+        () =>
+          new Category({
+            id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+            name: CategoryName.create("Work"),
+            createdAt: now,
+            parentId: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+          }),
+      ).toThrow(CategoryCycleError);
+    });
+  });
 });
@@ -1,28 +1,60 @@
-import { invariant, isNil, isNotNil, last } from "es-toolkit";
+import { invariant, isNil, isNotNil, last, sortBy, uniqBy } from "es-toolkit";
 
 import { SessionSegment } from "../entities";
 import {
   DomainError,
   EmptySessionError,
   NoActiveSegmentError,
+  SegmentNotFoundError,
   TooShortSegmentError,
   ValidationDomainError,
 } from "../errors";
 import {
+  SegmentAdjustedDomainEvent,
+  SegmentNoteEditedDomainEvent,
+  SessionLoggedDomainEvent,
+  SessionNoteEditedDomainEvent,
   SessionPausedDomainEvent,
   SegmentTooShortDomainEvent,
+  SessionRecategorizedDomainEvent,
   SessionResumedDomainEvent,
+  SessionSplitDomainEvent,
+  SessionsMergedDomainEvent,
   SessionStartedDomainEvent,
   SessionStoppedDomainEvent,
+  SessionTaggedDomainEvent,
+  SessionTrimmedDomainEvent,
+  SessionUntaggedDomainEvent,
 } from "../events";
 import { SegmentCollectionValidator } from "../services";
 import {
   StoppedSegmentSpec,
   ValidSegmentDurationSpec,
 } from "../specifications";
-import { DateTime, makeId, type ULID } from "../valueObjects";
+import {
+  DateTime,
+  Duration,
+  makeId,
+  Note,
+  Tag,
+  TimeRange,
+  type ULID,
+} from "../valueObjects";
 import { AggregateRoot } from "./AggregateRoot";
 
+export type SessionState = "active" | "paused" | "stopped";
+
+type CompletedSessionProps = {
+  categoryId: ULID;
+  segments: { startedAt: DateTime; stoppedAt: DateTime }[];
+  loggedAt: DateTime;
+};
+
+type SegmentBounds = {
+  startedAt?: DateTime;
+  stoppedAt?: DateTime;
+};
+
 type SessionProps = {
   id?: ULID;
   categoryId: ULID;
@@ -30,16 +62,18 @@ type SessionProps = {
   activeSegment?: SessionSegment | null;
   stoppedAt?: DateTime | null;
   history?: SessionSegment[];
+  note?: Note | null;
+  tags?: Tag[];
 };
 
-type SessionState = "active" | "paused" | "stopped";
-
 export class Session extends AggregateRoot {
-  public categoryId: ULID;
-  public readonly createdAt: DateTime;
   private _activeSegment: SessionSegment | null = null;
+  private _categoryId: ULID;
+  private _createdAt: DateTime;
   private _history: SessionSegment[] = [];
+  private _note: Note | null = null;
   private _stoppedAt: DateTime | null = null;
+  private _tags: Tag[] = [];
   private segmentCollectionValidator = new SegmentCollectionValidator();
 
   constructor(props: SessionProps) {
@@ -49,18 +83,20 @@ export class Session extends AggregateRoot {
       props.categoryId,
       new ValidationDomainError("categoryId props is required"),
     );
-    this.categoryId = props.categoryId;
+    this._categoryId = props.categoryId;
 
     invariant(
       props.createdAt,
       new ValidationDomainError("createdAt prop is required"),
     );
-    this.createdAt = props.createdAt;
+    this._createdAt = props.createdAt;
 
     this._stoppedAt = props.stoppedAt ?? null;
 
     this._activeSegment = props.activeSegment ?? null;
     this._history = props.history ?? [];
+    this._note = props.note ?? null;
+    this._tags = uniqBy(props.tags ?? [], (tag) => tag.key);
 
     const segmentValidation = this.segmentCollectionValidator.validate(
       [...this._history, this._activeSegment].filter(isNotNil),
@@ -81,10 +117,37 @@ export class Session extends AggregateRoot {
     return this._activeSegment;
   }
 
+  get categoryId(): ULID {
+    return this._categoryId;
+  }
+
+  /**
+   * Creation time, moved back with a start adjusted before it
+   */
+  get createdAt(): DateTime {
+    return this._createdAt;
+  }
+
   get history() {
     return this._history;
   }
 
+  /**
+   * Note on the whole session, segments carry their own
+   */
+  get note(): Note | null {
+    return this._note;
+  }
+
+  /**
+   * Start of the first tracked segment (may differ from createdAt after adjustments)
+   */
+  get startedAt(): DateTime {
+    const first = this._history[0] ?? this._activeSegment;
+
+    return first?.startedAt ?? this.createdAt;
+  }
+
   get state(): SessionState {
     if (isNotNil(this.stoppedAt)) return "stopped";
 
@@ -99,6 +162,10 @@ export class Session extends AggregateRoot {
     return this._stoppedAt;
   }
 
+  get tags(): readonly Tag[] {
+    return this._tags;
+  }
+
   static _validTestInstance(props: Partial<SessionProps> = {}) {
     const start = DateTime.create(0);
     const p = {
@@ -111,29 +178,462 @@ export class Session extends AggregateRoot {
     return new Session(p);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  addSegment(_segment: SessionSegment) {}
+  /**
+   * Create an already stopped session from explicit time ranges,
+   * e.g. "I worked on Work yesterday 14:00–16:00".
+   * Ranges may be passed in any order; gaps between them become pauses.
+   */
+  static createCompleted(props: CompletedSessionProps): Session {
+    invariant(props.segments.length > 0, new EmptySessionError());
+
+    const segments = sortBy(
+      props.segments.map(
+        (range) =>
+          new SessionSegment({
+            startedAt: range.startedAt.clone(),
+            stoppedAt: range.stoppedAt.clone(),
+          }),
+      ),
+      [(segment) => segment.startedAt.value],
+    );
+
+    // explicit id: a logged session must not be auto-started
+    const session = new Session({
+      id: makeId(),
+      categoryId: props.categoryId,
+      createdAt: segments[0]!.startedAt.clone(),
+      stoppedAt: last(segments)!.stoppedAt,
+    });
+
+    segments.forEach((segment) => session.addSegment(segment));
+
+    session.addEvent(
+      new SessionLoggedDomainEvent(
+        session.id,
+        session.categoryId,
+        session.getDurationMs() ?? 0,
+        props.loggedAt.clone(),
+      ),
+    );
+
+    return session;
+  }
+
+  /**
+   * Insert a completed segment into history, keeping it sorted.
+   */
+  addSegment(segment: SessionSegment) {
+    invariant(
+      segment.state === "stopped" &&
+        isNotNil(segment.stoppedAt) &&
+        segment.startedAt.isBefore(segment.stoppedAt),
+      new ValidationDomainError(
+        "only stopped segment with start before stop can be added",
+      ),
+    );
+    invariant(
+      new ValidSegmentDurationSpec().isSatisfiedBy(segment),
+      new TooShortSegmentError(),
+    );
+
+    const history = sortBy(
+      [...this._history, segment],
+      [(s) => s.startedAt.value],
+    );
+
+    const segmentValidation = this.segmentCollectionValidator.validate(
+      [...history, this._activeSegment].filter(isNotNil),
+    );
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  ajustStartTime(_newStartTime: DateTime) {
-    throw new Error("Method not implemented.");
+    invariant(
+      segmentValidation.isValid,
+      new ValidationDomainError(segmentValidation.errors.join(", ")),
+    );
+
+    this._history = history;
+
+    this.syncStoppedAt();
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  ajustStopTime(_newStopTime: DateTime) {
-    throw new Error("Method not implemented.");
+  /**
+   * Label the session. Adding a tag it already has is a no-op.
+   */
+  addTag(tag: Tag, taggedAt: DateTime) {
+    if (this.hasTag(tag)) return;
+
+    this._tags = [...this._tags, tag];
+    this.addEvent(
+      new SessionTaggedDomainEvent(this.id, tag.value, taggedAt.clone()),
+    );
   }
 
-  getDurationMs() {
+  /**
+   * Correct the bounds of any segment (history or active) by id.
+   * The edit is validated as a whole before it is applied, so a rejected
+   * adjustment leaves the session untouched.
+   */
+  adjustSegment(segmentId: ULID, bounds: SegmentBounds, adjustedAt: DateTime) {
+    const segment = this.findSegment(segmentId);
+
+    invariant(isNotNil(segment), new SegmentNotFoundError(segmentId));
+
+    invariant(
+      isNil(bounds.stoppedAt) || segment.state === "stopped",
+      new ValidationDomainError(
+        "stop time of the active segment cannot be adjusted",
+      ),
+    );
+
+    const startedAt = bounds.startedAt ?? segment.startedAt;
+    const stoppedAt = bounds.stoppedAt ?? segment.stoppedAt;
+
+    invariant(
+      isNil(stoppedAt) || startedAt.isBefore(stoppedAt),
+      new ValidationDomainError("start time must be before stop time"),
+    );
+
+    const adjusted = new SessionSegment({
+      id: segment.id,
+      startedAt: startedAt.clone(),
+      stoppedAt: stoppedAt?.clone() ?? null,
+      note: segment.note,
+    });
+
+    invariant(
+      adjusted.state === "active" ||
+        new ValidSegmentDurationSpec().isSatisfiedBy(adjusted),
+      new TooShortSegmentError(),
+    );
+
+    const segmentValidation = this.segmentCollectionValidator.validate(
+      [...this._history, this._activeSegment]
+        .filter(isNotNil)
+        .map((s) => (s.id === adjusted.id ? adjusted : s)),
+    );
+
+    invariant(
+      segmentValidation.isValid,
+      new ValidationDomainError(segmentValidation.errors.join(", ")),
+    );
+
+    if (this._activeSegment?.id === adjusted.id) {
+      this._activeSegment = adjusted;
+    } else {
+      this._history = this._history.map((s) =>
+        s.id === adjusted.id ? adjusted : s,
+      );
+    }
+
+    this.syncCreatedAt();
+    this.syncStoppedAt();
+
+    this.addEvent(
+      new SegmentAdjustedDomainEvent(
+        this.id,
+        adjusted.id,
+        segment.startedAt.clone(),
+        segment.stoppedAt?.clone() ?? null,
+        adjusted.startedAt.clone(),
+        adjusted.stoppedAt?.clone() ?? null,
+        adjustedAt.clone(),
+      ),
+    );
+  }
+
+  /**
+   * Move the start of the session, i.e. the start of its first segment.
+   */
+  ajustStartTime(newStartTime: DateTime, adjustedAt: DateTime) {
+    const first = this._history[0] ?? this._activeSegment;
+
+    invariant(isNotNil(first), new EmptySessionError());
+
+    this.adjustSegment(first.id, { startedAt: newStartTime }, adjustedAt);
+  }
+
+  /**
+   * Move the stop of a stopped session, i.e. the stop of its last segment.
+   */
+  ajustStopTime(newStopTime: DateTime, adjustedAt: DateTime) {
+    invariant(
+      this.state === "stopped",
+      new ValidationDomainError(
+        "Only stopped session stop time can be adjusted. Current state: " +
+          this.state +
+          ".",
+      ),
+    );
+
+    const target = last(this._history);
+
+    invariant(isNotNil(target), new EmptySessionError());
+
+    this.adjustSegment(target.id, { stoppedAt: newStopTime }, adjustedAt);
+  }
+
+  /**
+   * Move the session to another category. Allowed in any state.
+   */
+  changeCategory(categoryId: ULID, changedAt: DateTime) {
+    invariant(categoryId, new ValidationDomainError("categoryId is required"));
+
+    if (categoryId === this._categoryId) return;
+
+    const previousCategoryId = this._categoryId;
+
+    this._categoryId = categoryId;
+
+    this.addEvent(
+      new SessionRecategorizedDomainEvent(
+        this.id,
+        previousCategoryId,
+        categoryId,
+        changedAt.clone(),
+      ),
+    );
+  }
+
+  /**
+   * Replace the note of the session, null clears it.
+   * Setting the same note is a no-op.
+   */
+  editNote(note: Note | null, editedAt: DateTime) {
+    if (this.isSameNote(this._note, note)) return;
+
+    this._note = note;
+    this.addEvent(
+      new SessionNoteEditedDomainEvent(
+        this.id,
+        note?.value ?? null,
+        editedAt.clone(),
+      ),
+    );
+  }
+
+  /**
+   * Replace the note of any segment (history or active) by id, null clears it.
+   * Setting the same note is a no-op.
+   */
+  editSegmentNote(segmentId: ULID, note: Note | null, editedAt: DateTime) {
+    const segment = this.findSegment(segmentId);
+
+    invariant(isNotNil(segment), new SegmentNotFoundError(segmentId));
+
+    if (this.isSameNote(segment.note, note)) return;
+
+    segment.editNote(note);
+    this.addEvent(
+      new SegmentNoteEditedDomainEvent(
+        this.id,
+        segment.id,
+        note?.value ?? null,
+        editedAt.clone(),
+      ),
+    );
+  }
+
+  /**
+   * Cut the [from, to) interval out of the session: covered segments are
+   * dropped, partially covered ones are shortened or split in two.
+   * Leftovers shorter than 300ms are dropped as well.
+   */
+  excludeRange(from: DateTime, to: DateTime, excludedAt: DateTime) {
+    invariant(
+      from.isBefore(to),
+      new ValidationDomainError("range start must be before range end"),
+    );
+
+    const validDurationSpec = new ValidSegmentDurationSpec();
+    const overlaps = (segment: SessionSegment) =>
+      segment.startedAt.isBefore(to) &&
+      (isNil(segment.stoppedAt) || segment.stoppedAt.isAfter(from));
+
+    const segments = [...this._history, this._activeSegment].filter(isNotNil);
+
+    if (!segments.some(overlaps)) return;
+
+    const history = this._history
+      .flatMap((segment) =>
+        overlaps(segment) ? this.cutSegment(segment, from, to) : [segment],
+      )
+      .filter((segment) => validDurationSpec.isSatisfiedBy(segment));
+
+    let activeSegment = this._activeSegment;
+
+    if (isNotNil(activeSegment) && overlaps(activeSegment)) {
+      // A segment started inside the range has no part before it
+      if (activeSegment.startedAt.isBefore(from)) {
+        const head = new SessionSegment({
+          id: activeSegment.id,
+          startedAt: activeSegment.startedAt.clone(),
+          stoppedAt: from.clone(),
+          note: activeSegment.note,
+        });
+
+        if (validDurationSpec.isSatisfiedBy(head)) {
+          history.push(head);
+        }
+      }
+
+      activeSegment = new SessionSegment({
+        startedAt: to.clone(),
+        note: activeSegment.note,
+      });
+    }
+
+    invariant(
+      history.length > 0 || isNotNil(activeSegment),
+      new EmptySessionError(),
+    );
+
+    const segmentValidation = this.segmentCollectionValidator.validate(
+      [...history, activeSegment].filter(isNotNil),
+    );
+
+    invariant(
+      segmentValidation.isValid,
+      new ValidationDomainError(segmentValidation.errors.join(", ")),
+    );
+
+    this._history = history;
+    this._activeSegment = activeSegment;
+
+    this.syncStoppedAt();
+
+    this.addEvent(
+      new SessionTrimmedDomainEvent(
+        this.id,
+        from.clone(),
+        to.clone(),
+        excludedAt.clone(),
+      ),
+    );
+  }
+
+  /**
+   * Total time of a stopped session, pauses excluded; null until stopped
+   */
+  getDuration(): Duration | null {
     if (this.state !== "stopped") return null;
 
     const stoppedSegmentSpec = new StoppedSegmentSpec();
 
-    return this.history
-      .filter((segment) => stoppedSegmentSpec.isSatisfiedBy(segment))
-      .reduce((acc, segment) => acc + (segment.durationMs ?? 0), 0);
+    return Duration.sum(
+      this.history
+        .filter((segment) => stoppedSegmentSpec.isSatisfiedBy(segment))
+        .map((segment) => segment.duration)
+        .filter(isNotNil),
+    );
+  }
+
+  getDurationMs() {
+    return this.getDuration()?.value ?? null;
+  }
+
+  /**
+   * Time tracked as of now: history plus the running segment up to now.
+   * Unlike getDuration it is defined for active and paused sessions too.
+   */
+  getElapsed(now: DateTime): Duration {
+    return Duration.sum(
+      [...this._history, this._activeSegment]
+        .filter(isNotNil)
+        .map((segment) => segment.getElapsed(now)),
+    );
+  }
+
+  getElapsedMs(now: DateTime) {
+    return this.getElapsed(now).value;
+  }
+
+  /**
+   * Time covered by the segments; the running segment ends at now
+   */
+  getTrackedRanges(now: DateTime): TimeRange[] {
+    return [...this._history, this._activeSegment]
+      .filter(isNotNil)
+      .map((segment) => ({
+        start: segment.startedAt,
+        end: segment.stoppedAt ?? now,
+      }))
+      .filter(({ start, end }) => start.isBefore(end))
+      .map(({ start, end }) => TimeRange.create(start, end));
+  }
+
+  hasTag(tag: Tag): boolean {
+    return this._tags.some((existing) => existing.equals(tag));
+  }
+
+  /**
+   * Fold the history of other stopped sessions of the same category into this one.
+   * Gaps between sessions become pauses. This session must be the earliest created,
+   * so the merged session keeps the earliest createdAt.
+   * Segment notes move with their segments; the session keeps its own note,
+   * or takes the first note of the others when it has none.
+   */
+  merge(others: Session[], mergedAt: DateTime) {
+    invariant(
+      others.length > 0,
+      new ValidationDomainError("at least one session to merge is required"),
+    );
+    invariant(
+      [this, ...others].every((session) => session.state === "stopped"),
+      new ValidationDomainError("only stopped sessions can be merged"),
+    );
+    invariant(
+      others.every(
+        (session) =>
+          session.id !== this.id && session.categoryId === this.categoryId,
+      ),
+      new ValidationDomainError(
+        "only distinct sessions of the same category can be merged",
+      ),
+    );
+    invariant(
+      others.every((session) =>
+        this.createdAt.isSameOrBefore(session.createdAt),
+      ),
+      new ValidationDomainError("merge target must be the earliest session"),
+    );
+
+    const history = sortBy(
+      [...this._history, ...others.flatMap((session) => session.history)],
+      [(segment) => segment.startedAt.value],
+    );
+
+    const segmentValidation = this.segmentCollectionValidator.validate(history);
+
+    invariant(
+      segmentValidation.isValid,
+      new ValidationDomainError(segmentValidation.errors.join(", ")),
+    );
+
+    this._history = history;
+    this._note =
+      this._note ??
+      others.find((session) => isNotNil(session.note))?.note ??
+      null;
+    this._tags = uniqBy(
+      [...this._tags, ...others.flatMap((session) => session.tags)],
+      (tag) => tag.key,
+    );
+    this.syncStoppedAt();
+
+    this.addEvent(
+      new SessionsMergedDomainEvent(
+        this.id,
+        others.map((session) => session.id),
+        mergedAt.clone(),
+      ),
+    );
   }
 
+  /**
+   * Pause the running segment. A segment shorter than the minimum is
+   * discarded: the session is paused but only SegmentTooShort is emitted.
+   * The only segment of a session is never discarded, pausing is refused
+   * instead: a paused session without segments could not be stopped.
+   */
   pause(pausedAt: DateTime) {
     invariant(
       this.state === "active",
@@ -142,6 +642,11 @@ export class Session extends AggregateRoot {
       ),
     );
 
+    invariant(
+      this.keepsSegmentWhenClosedAt(pausedAt),
+      new TooShortSegmentError(),
+    );
+
     try {
       this.stopActiveSegment(pausedAt);
     } catch (error) {
@@ -161,6 +666,24 @@ export class Session extends AggregateRoot {
     );
   }
 
+  /**
+   * Remove a label from the session. Removing a missing tag is a no-op.
+   */
+  removeTag(tag: Tag, untaggedAt: DateTime) {
+    const existing = this._tags.find((candidate) => candidate.equals(tag));
+
+    if (isNil(existing)) return;
+
+    this._tags = this._tags.filter((candidate) => candidate !== existing);
+    this.addEvent(
+      new SessionUntaggedDomainEvent(
+        this.id,
+        existing.value,
+        untaggedAt.clone(),
+      ),
+    );
+  }
+
   resume(resumedAt: DateTime) {
     invariant(
       this.state === "paused",
@@ -180,6 +703,94 @@ export class Session extends AggregateRoot {
     );
   }
 
+  /**
+   * Cut the session at the given instant. Segments after it (and the later part
+   * of a segment spanning it) move to a new session, which inherits the state
+   * of this one; this session stops at the cut.
+   *
+   * @param categoryId - category of the new session, defaults to the same category
+   */
+  splitAt(at: DateTime, performedAt: DateTime, categoryId?: ULID): Session {
+    const segments = [...this._history, this._activeSegment].filter(isNotNil);
+
+    invariant(segments.length > 0, new EmptySessionError());
+
+    const end = isNil(this._activeSegment)
+      ? last(this._history)?.stoppedAt
+      : null;
+
+    invariant(
+      this.startedAt.isBefore(at) && (isNil(end) || at.isBefore(end)),
+      new ValidationDomainError("split point must be inside the session"),
+    );
+
+    const earlier: SessionSegment[] = [];
+    const later: SessionSegment[] = [];
+
+    for (const segment of segments) {
+      if (isNotNil(segment.stoppedAt) && !segment.stoppedAt.isAfter(at)) {
+        earlier.push(segment);
+      } else if (!segment.startedAt.isBefore(at)) {
+        later.push(segment);
+      } else {
+        earlier.push(
+          new SessionSegment({
+            id: segment.id,
+            startedAt: segment.startedAt.clone(),
+            stoppedAt: at.clone(),
+            note: segment.note,
+          }),
+        );
+        later.push(
+          new SessionSegment({
+            startedAt: at.clone(),
+            stoppedAt: segment.stoppedAt?.clone() ?? null,
+            note: segment.note,
+          }),
+        );
+      }
+    }
+
+    const validDurationSpec = new ValidSegmentDurationSpec();
+
+    invariant(
+      [...earlier, ...later].every(
+        (segment) =>
+          segment.state === "active" ||
+          validDurationSpec.isSatisfiedBy(segment),
+      ),
+      new TooShortSegmentError(),
+    );
+
+    // explicit id: the later part must not be auto-started
+    const part = new Session({
+      id: makeId(),
+      categoryId: categoryId ?? this.categoryId,
+      createdAt: later[0]!.startedAt.clone(),
+      stoppedAt: this._stoppedAt?.clone() ?? null,
+      activeSegment: later.find((segment) => segment.state === "active"),
+      history: later.filter((segment) => segment.state === "stopped"),
+      note: this._note,
+      tags: this._tags,
+    });
+
+    this._history = earlier;
+    this._activeSegment = null;
+    this._stoppedAt = last(earlier)!.stoppedAt!.clone();
+
+    this.addEvent(
+      new SessionSplitDomainEvent(
+        this.id,
+        part.id,
+        part.categoryId,
+        at.clone(),
+        performedAt.clone(),
+      ),
+    );
+
+    return part;
+  }
+
   stop(stoppedAt: DateTime) {
     const eventOcurredAt = stoppedAt.clone();
 
@@ -187,6 +798,10 @@ export class Session extends AggregateRoot {
       this.state !== "stopped",
       new ValidationDomainError("session is already stopped"),
     );
+    invariant(
+      this.keepsSegmentWhenClosedAt(stoppedAt),
+      new EmptySessionError(),
+    );
 
     try {
       this.stopActiveSegment(stoppedAt);
@@ -230,6 +845,8 @@ export class Session extends AggregateRoot {
       createdAt: this.createdAt,
       stoppedAt: this.stoppedAt,
       history: this.history,
+      note: this._note,
+      tags: this._tags,
     };
   }
 
@@ -237,6 +854,69 @@ export class Session extends AggregateRoot {
     return new SessionSegment({ startedAt: startedAt.clone() });
   }
 
+  private cutSegment(segment: SessionSegment, from: DateTime, to: DateTime) {
+    const pieces: SessionSegment[] = [];
+
+    invariant(
+      segment.stoppedAt,
+      new DomainError("history segment must be stopped"),
+    );
+
+    if (segment.startedAt.isBefore(from)) {
+      pieces.push(
+        new SessionSegment({
+          id: segment.id,
+          startedAt: segment.startedAt.clone(),
+          stoppedAt: from.clone(),
+          note: segment.note,
+        }),
+      );
+    }
+
+    if (to.isBefore(segment.stoppedAt)) {
+      pieces.push(
+        new SessionSegment({
+          // keep the original id on the first remaining piece
+          id: pieces.length === 0 ? segment.id : undefined,
+          startedAt: to.clone(),
+          stoppedAt: segment.stoppedAt.clone(),
+          note: segment.note,
+        }),
+      );
+    }
+
+    return pieces;
+  }
+
+  private findSegment(segmentId: ULID) {
+    if (this._activeSegment?.id === segmentId) return this._activeSegment;
+
+    return this._history.find((segment) => segment.id === segmentId) ?? null;
+  }
+
+  private isSameNote(current: Note | null, next: Note | null) {
+    return isNil(current) || isNil(next)
+      ? current === next
+      : current.equals(next);
+  }
+
+  /**
+   * Whether a segment is left once the running one is closed at closedAt,
+   * checked before closing since a too short one is discarded
+   */
+  private keepsSegmentWhenClosedAt(closedAt: DateTime): boolean {
+    if (this._history.length > 0) return true;
+
+    if (isNil(this._activeSegment)) return false;
+
+    return new ValidSegmentDurationSpec().isSatisfiedBy(
+      new SessionSegment({
+        startedAt: this._activeSegment.startedAt.clone(),
+        stoppedAt: closedAt.clone(),
+      }),
+    );
+  }
+
   private start() {
     this._activeSegment = this.createSegment(this.createdAt);
     this.addEvent(
@@ -254,6 +934,8 @@ export class Session extends AggregateRoot {
     const isValid = new ValidSegmentDurationSpec().isSatisfiedBy(segment);
 
     if (!isValid) {
+      // too short to keep: the segment is discarded, not recorded in history
+      this._activeSegment = null;
       this.addEvent(new SegmentTooShortDomainEvent(segment.id, stoppedAt));
 
       throw new TooShortSegmentError();
@@ -262,4 +944,25 @@ export class Session extends AggregateRoot {
     this._activeSegment = null;
     this._history.push(segment);
   }
+
+  /**
+   * Keep createdAt at or before the first segment, sorting and filtering
+   * by creation time would miss time tracked before it otherwise
+   */
+  private syncCreatedAt() {
+    if (this.startedAt.isBefore(this._createdAt)) {
+      this._createdAt = this.startedAt.clone();
+    }
+  }
+
+  /**
+   * Stopped session ends where its last segment ends
+   */
+  private syncStoppedAt() {
+    const lastStoppedAt = last(this._history)?.stoppedAt;
+
+    if (this.state === "stopped" && isNotNil(lastStoppedAt)) {
+      this._stoppedAt = lastStoppedAt.clone();
+    }
+  }
 }
@@ -1,12 +1,44 @@
 import { SessionSegment } from "../entities";
 import {
+  EmptySessionError,
+  SegmentNotFoundError,
+  TooShortSegmentError,
+  ValidationDomainError,
+} from "../errors";
+import {
+  SegmentAdjustedDomainEvent,
+  SegmentNoteEditedDomainEvent,
   SegmentTooShortDomainEvent,
+  SessionLoggedDomainEvent,
+  SessionNoteEditedDomainEvent,
   SessionPausedDomainEvent,
+  SessionRecategorizedDomainEvent,
   SessionResumedDomainEvent,
+  SessionSplitDomainEvent,
+  SessionsMergedDomainEvent,
   SessionStartedDomainEvent,
   SessionStoppedDomainEvent,
+  SessionTaggedDomainEvent,
+  SessionTrimmedDomainEvent,
+  SessionUntaggedDomainEvent,
 } from "../events";
-import { DateTime, makeId, type ULID } from "../valueObjects";
+import {
+  SessionCreatedInRangeSpec,
+  SessionForCategorySpec,
+  SessionHasTagSpec,
+  SessionNoteMatchesSpec,
+  SessionOverlapsRangeSpec,
+  SessionStoppedInRangeSpec,
+  StoppedSessionSpec,
+} from "../specifications";
+import {
+  DateTime,
+  makeId,
+  Note,
+  Tag,
+  TimeRange,
+  type ULID,
+} from "../valueObjects";
 import { Session } from "./Session";
 
 describe("Session", () => {
@@ -153,11 +185,17 @@ describe("Session", () => {
       const session = Session._validTestInstance();
       const startTime = session.activeSegment!.startedAt;
 
+      session.pause(startTime.add(1000));
+      session.resume(startTime.add(2000));
+      session.pullDomainEvents();
+
       // Pause after only 200ms
-      session.pause(startTime.add(200));
+      session.pause(startTime.add(2200));
 
       // Segment should be discarded
-      expect(session.history.length).toBe(0); // Or appropriate count
+      expect(session.history.length).toBe(1);
+      expect(session.activeSegment).toBeNull();
+      expect(session.state).toBe("paused");
 
       // Should emit SegmentTooShort event
       const events = session.pullDomainEvents();
@@ -167,6 +205,17 @@ describe("Session", () => {
 
       expect(tooShortEvent).toBeDefined();
     });
+    it("should refuse to pause when the only segment is < 300ms", () => {
+      const session = Session._validTestInstance();
+      const active = session.activeSegment!;
+
+      expect(() => session.pause(active.startedAt.add(200))).toThrow(
+        TooShortSegmentError,
+      );
+      expect(session.state).toBe("active");
+      expect(session.activeSegment).toBe(active);
+      expect(active.stoppedAt).toBeNull();
+    });
   });
 
   describe("resume", () => {
@@ -263,6 +312,7 @@ describe("Session", () => {
 
       // Last segment should be removed only ONE( first) left
       expect(session.history.length).toBe(1);
+      expect(session.activeSegment).toBeNull();
 
       // Should emit both SegmentTooShort and SessionStopped
       const events = session.pullDomainEvents();
@@ -281,7 +331,11 @@ describe("Session", () => {
       const session = Session._validTestInstance();
       const startTime = session.activeSegment!.startedAt;
 
-      expect(() => session.stop(startTime.add(100))).toThrow();
+      expect(() => session.stop(startTime.add(100))).toThrow(EmptySessionError);
+      // Nothing changed, the session keeps running
+      expect(session.state).toBe("active");
+      expect(session.activeSegment!.startedAt.value).toBe(startTime.value);
+      expect(session.stoppedAt).toBeNull();
     });
   });
 
@@ -304,12 +358,44 @@ describe("Session", () => {
       });
 
       expect(session.getDurationMs()).toBe(1999);
+      expect(session.getDuration()?.format("clock")).toBe("00:00:01");
     });
 
     it("should return null when session is not stopped", () => {
       const session = Session._validTestInstance();
 
       expect(session.getDurationMs()).toBeNull();
+      expect(session.getDuration()).toBeNull();
+    });
+  });
+
+  describe("getElapsed", () => {
+    it("should count history and the running segment up to now", () => {
+      const session = new Session({ categoryId, createdAt });
+
+      session.pause(DateTime.create(1000));
+      session.resume(DateTime.create(3000));
+
+      expect(session.getElapsedMs(DateTime.create(4500))).toBe(2500);
+    });
+
+    it("should not grow while paused", () => {
+      const session = new Session({ categoryId, createdAt });
+
+      session.pause(DateTime.create(1000));
+
+      expect(session.getElapsedMs(DateTime.create(1000))).toBe(1000);
+      expect(session.getElapsedMs(DateTime.create(9000))).toBe(1000);
+    });
+
+    it("should equal the duration once stopped", () => {
+      const session = new Session({ categoryId, createdAt });
+
+      session.stop(DateTime.create(2000));
+
+      expect(session.getElapsed(DateTime.create(9000))).toEqual(
+        session.getDuration(),
+      );
     });
   });
 
@@ -331,16 +417,997 @@ describe("Session", () => {
   });
 
   describe("ajustStartTime", () => {
-    it("not implemented yet", () => {
+    it("should move the start of the first segment", () => {
+      const session = Session._validTestInstance();
+
+      session.pause(DateTime.create(1000));
+      session.ajustStartTime(DateTime.create(-5000), DateTime.create(2000));
+
+      expect(session.history[0]!.startedAt.value).toBe(-5000);
+      expect(session.history[0]!.durationMs).toBe(6000);
+    });
+
+    it("should move the start of the active segment", () => {
+      const session = Session._validTestInstance();
+
+      session.ajustStartTime(DateTime.create(-1000), DateTime.create(2000));
+
+      expect(session.activeSegment!.startedAt.value).toBe(-1000);
+      expect(session.state).toBe("active");
+    });
+
+    it("should move createdAt back with an earlier start only", () => {
+      const session = Session._validTestInstance();
+
+      session.pause(DateTime.create(1000));
+      session.ajustStartTime(DateTime.create(500), DateTime.create(2000));
+      expect(session.createdAt.value).toBe(0);
+
+      session.ajustStartTime(DateTime.create(-5000), DateTime.create(2000));
+      expect(session.createdAt.value).toBe(-5000);
+    });
+
+    it("should emit SegmentAdjusted event with previous and new bounds", () => {
+      const session = Session._validTestInstance();
+
+      session.pause(DateTime.create(1000));
+      session.pullDomainEvents();
+      session.ajustStartTime(DateTime.create(500), DateTime.create(2000));
+
+      const event = session
+        .pullDomainEvents()
+        .find((e) => e instanceof SegmentAdjustedDomainEvent);
+
+      expect(event).toBeDefined();
+      expect(event!.sessionId).toBe(session.id);
+      expect(event!.previousStartedAt.value).toBe(0);
+      expect(event!.startedAt.value).toBe(500);
+      expect(event!.stoppedAt!.value).toBe(1000);
+      expect(event!.occurredAt.value).toBe(2000);
+    });
+
+    it("should throw and keep the segment when result is shorter than 300ms", () => {
       const session = Session._validTestInstance();
 
-      expect(() => session.ajustStartTime(DateTime.create(1000))).toThrow();
+      session.pause(DateTime.create(1000));
+
+      expect(() =>
+        session.ajustStartTime(DateTime.create(800), DateTime.create(2000)),
+      ).toThrow(TooShortSegmentError);
+      expect(session.history[0]!.startedAt.value).toBe(0);
+    });
+
+    it("should throw when new start is after the stop time", () => {
+      const session = Session._validTestInstance();
+
+      session.pause(DateTime.create(1000));
+
+      expect(() =>
+        session.ajustStartTime(DateTime.create(1500), DateTime.create(2000)),
+      ).toThrow(ValidationDomainError);
     });
   });
 
   describe("ajustStopTime", () => {
-    const session = Session._validTestInstance();
+    it("should move the stop of the last segment and the session", () => {
+      const session = Session._validTestInstance();
+
+      session.stop(DateTime.create(1000));
+      session.ajustStopTime(DateTime.create(3000), DateTime.create(4000));
+
+      expect(session.stoppedAt!.value).toBe(3000);
+      expect(session.getDurationMs()).toBe(3000);
+    });
+
+    it("should throw when session is not stopped", () => {
+      const session = Session._validTestInstance();
+
+      expect(() =>
+        session.ajustStopTime(DateTime.create(1000), DateTime.create(2000)),
+      ).toThrow(ValidationDomainError);
+
+      session.pause(DateTime.create(1000));
+
+      expect(() =>
+        session.ajustStopTime(DateTime.create(1500), DateTime.create(2000)),
+      ).toThrow(ValidationDomainError);
+    });
+
+    it("should throw when result is shorter than 300ms", () => {
+      const session = Session._validTestInstance();
+
+      session.stop(DateTime.create(1000));
+
+      expect(() =>
+        session.ajustStopTime(DateTime.create(100), DateTime.create(2000)),
+      ).toThrow(TooShortSegmentError);
+      expect(session.stoppedAt!.value).toBe(1000);
+    });
+  });
+
+  describe("adjustSegment", () => {
+    let session: Session;
+
+    beforeEach(() => {
+      session = new Session({ categoryId, createdAt });
+      session.pause(DateTime.create(1000));
+      session.resume(DateTime.create(2000));
+      session.pause(DateTime.create(3000));
+      session.resume(DateTime.create(4000));
+    });
+
+    it("should adjust both bounds of a history segment by id", () => {
+      const target = session.history[1]!;
+
+      session.adjustSegment(
+        target.id,
+        { startedAt: DateTime.create(1500), stoppedAt: DateTime.create(3500) },
+        DateTime.create(5000),
+      );
+
+      expect(session.history[1]!.id).toBe(target.id);
+      expect(session.history[1]!.startedAt.value).toBe(1500);
+      expect(session.history[1]!.stoppedAt!.value).toBe(3500);
+    });
+
+    it("should throw when adjusted segment overlaps its neighbour", () => {
+      const target = session.history[1]!;
+
+      expect(() =>
+        session.adjustSegment(
+          target.id,
+          { startedAt: DateTime.create(900) },
+          DateTime.create(5000),
+        ),
+      ).toThrow(ValidationDomainError);
+      expect(session.history[1]!.startedAt.value).toBe(2000);
+    });
+
+    it("should throw when active segment is moved before the previous one ends", () => {
+      expect(() =>
+        session.adjustSegment(
+          session.activeSegment!.id,
+          { startedAt: DateTime.create(2500) },
+          DateTime.create(5000),
+        ),
+      ).toThrow(ValidationDomainError);
+    });
+
+    it("should throw when adjusting stop time of the active segment", () => {
+      expect(() =>
+        session.adjustSegment(
+          session.activeSegment!.id,
+          { stoppedAt: DateTime.create(4500) },
+          DateTime.create(5000),
+        ),
+      ).toThrow(ValidationDomainError);
+    });
+
+    it("should throw when segment does not belong to the session", () => {
+      expect(() =>
+        session.adjustSegment(
+          makeId(),
+          { startedAt: DateTime.create(0) },
+          DateTime.create(5000),
+        ),
+      ).toThrow(SegmentNotFoundError);
+    });
+  });
+
+  describe("changeCategory", () => {
+    it.each(["active", "paused", "stopped"] as const)(
+      "should move a %s session to another category",
+      (state) => {
+        const session = Session._validTestInstance({ categoryId });
+        const newCategoryId = makeId();
+
+        if (state === "paused") session.pause(DateTime.create(1000));
+
+        if (state === "stopped") session.stop(DateTime.create(1000));
+
+        session.pullDomainEvents();
+
+        session.changeCategory(newCategoryId, DateTime.create(2000));
+
+        expect(session.categoryId).toBe(newCategoryId);
+        expect(session.state).toBe(state);
+
+        const events = session.pullDomainEvents();
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toBeInstanceOf(SessionRecategorizedDomainEvent);
+        expect(events[0]).toMatchObject({
+          sessionId: session.id,
+          previousCategoryId: categoryId,
+          categoryId: newCategoryId,
+        });
+      },
+    );
+
+    it("should not emit an event when category is unchanged", () => {
+      const session = Session._validTestInstance({ categoryId });
+
+      session.pullDomainEvents();
+      session.changeCategory(categoryId, DateTime.create(2000));
+
+      expect(session.pullDomainEvents()).toHaveLength(0);
+    });
+  });
+
+  describe("createCompleted", () => {
+    const range = (startedAt: number, stoppedAt: number) => ({
+      startedAt: DateTime.create(startedAt),
+      stoppedAt: DateTime.create(stoppedAt),
+    });
+
+    it("should create stopped session from time ranges in any order", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(5000, 8000), range(0, 2000)],
+        loggedAt: DateTime.create(10000),
+      });
+
+      expect(session.state).toBe("stopped");
+      expect(session.createdAt.value).toBe(0);
+      expect(session.stoppedAt!.value).toBe(8000);
+      expect(session.history.map((s) => s.startedAt.value)).toEqual([0, 5000]);
+      expect(session.getDurationMs()).toBe(5000);
+    });
+
+    it("should emit SessionLogged event instead of SessionStarted", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 2000)],
+        loggedAt: DateTime.create(10000),
+      });
+
+      const events = session.pullDomainEvents();
+      const loggedEvent = events.find(
+        (e) => e instanceof SessionLoggedDomainEvent,
+      );
+
+      expect(loggedEvent).toBeDefined();
+      expect(loggedEvent!.totalDurationMs).toBe(2000);
+      expect(loggedEvent!.categoryId).toBe(categoryId);
+      expect(
+        events.find((e) => e instanceof SessionStartedDomainEvent),
+      ).toBeUndefined();
+    });
+
+    it("should throw when no ranges are given", () => {
+      expect(() =>
+        Session.createCompleted({
+          categoryId,
+          segments: [],
+          loggedAt: DateTime.create(10000),
+        }),
+      ).toThrow(EmptySessionError);
+    });
+
+    it("should throw when ranges overlap", () => {
+      expect(() =>
+        Session.createCompleted({
+          categoryId,
+          segments: [range(0, 2000), range(1500, 3000)],
+          loggedAt: DateTime.create(10000),
+        }),
+      ).toThrow(ValidationDomainError);
+    });
+
+    it("should throw when a range is shorter than 300ms or reversed", () => {
+      expect(() =>
+        Session.createCompleted({
+          categoryId,
+          segments: [range(0, 100)],
+          loggedAt: DateTime.create(10000),
+        }),
+      ).toThrow(TooShortSegmentError);
+
+      expect(() =>
+        Session.createCompleted({
+          categoryId,
+          segments: [range(2000, 0)],
+          loggedAt: DateTime.create(10000),
+        }),
+      ).toThrow(ValidationDomainError);
+    });
+  });
+
+  describe("addSegment", () => {
+    it("should insert segment into paused session history in order", () => {
+      const session = Session._validTestInstance();
+
+      session.pause(DateTime.create(1000));
+      session.addSegment(
+        new SessionSegment({
+          startedAt: DateTime.create(-3000),
+          stoppedAt: DateTime.create(-1000),
+        }),
+      );
+
+      expect(session.history.map((s) => s.startedAt.value)).toEqual([-3000, 0]);
+    });
+
+    it("should throw when segment is still active", () => {
+      const session = Session._validTestInstance();
+
+      session.pause(DateTime.create(1000));
+
+      expect(() =>
+        session.addSegment(
+          new SessionSegment({ startedAt: DateTime.create(2000) }),
+        ),
+      ).toThrow(ValidationDomainError);
+    });
+
+    it("should throw when segment starts after the active segment", () => {
+      const session = Session._validTestInstance();
+
+      expect(() =>
+        session.addSegment(
+          new SessionSegment({
+            startedAt: DateTime.create(2000),
+            stoppedAt: DateTime.create(3000),
+          }),
+        ),
+      ).toThrow(ValidationDomainError);
+    });
+  });
+
+  describe("excludeRange", () => {
+    const range = (startedAt: number, stoppedAt: number) => ({
+      startedAt: DateTime.create(startedAt),
+      stoppedAt: DateTime.create(stoppedAt),
+    });
+    const bounds = (session: Session) =>
+      session.history.map((s) => [s.startedAt.value, s.stoppedAt!.value]);
+
+    it("should split a segment spanning the range", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 10000)],
+        loggedAt: DateTime.create(20000),
+      });
+
+      session.excludeRange(
+        DateTime.create(4000),
+        DateTime.create(6000),
+        DateTime.create(20000),
+      );
+
+      expect(bounds(session)).toEqual([
+        [0, 4000],
+        [6000, 10000],
+      ]);
+      expect(session.getDurationMs()).toBe(8000);
+    });
+
+    it("should shorten partially covered segments and drop covered ones", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 2000), range(3000, 4000), range(5000, 8000)],
+        loggedAt: DateTime.create(20000),
+      });
+
+      session.excludeRange(
+        DateTime.create(1000),
+        DateTime.create(6000),
+        DateTime.create(20000),
+      );
+
+      expect(bounds(session)).toEqual([
+        [0, 1000],
+        [6000, 8000],
+      ]);
+      expect(session.stoppedAt!.value).toBe(8000);
+    });
 
-    expect(() => session.ajustStopTime(DateTime.create(1000))).toThrow();
+    it("should move the stop of a stopped session when its tail is cut", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 10000)],
+        loggedAt: DateTime.create(20000),
+      });
+
+      session.excludeRange(
+        DateTime.create(6000),
+        DateTime.create(12000),
+        DateTime.create(20000),
+      );
+
+      expect(session.stoppedAt!.value).toBe(6000);
+    });
+
+    it("should restart the active segment after the range", () => {
+      const session = Session._validTestInstance();
+
+      session.excludeRange(
+        DateTime.create(1000),
+        DateTime.create(2000),
+        DateTime.create(3000),
+      );
+
+      expect(bounds(session)).toEqual([[0, 1000]]);
+      expect(session.activeSegment!.startedAt.value).toBe(2000);
+      expect(session.state).toBe("active");
+    });
+
+    it("should restart an active segment started inside the range", () => {
+      const session = new Session({
+        categoryId,
+        createdAt: DateTime.create(1000),
+      });
+
+      session.excludeRange(
+        DateTime.create(500),
+        DateTime.create(2000),
+        DateTime.create(3000),
+      );
+
+      expect(session.history).toEqual([]);
+      expect(session.activeSegment!.startedAt.value).toBe(2000);
+      expect(session.state).toBe("active");
+    });
+
+    it("should emit SessionTrimmed event only when something was cut", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 10000)],
+        loggedAt: DateTime.create(20000),
+      });
+
+      session.pullDomainEvents();
+      session.excludeRange(
+        DateTime.create(20000),
+        DateTime.create(30000),
+        DateTime.create(40000),
+      );
+      expect(session.pullDomainEvents()).toHaveLength(0);
+
+      session.excludeRange(
+        DateTime.create(0),
+        DateTime.create(1000),
+        DateTime.create(40000),
+      );
+      expect(
+        session
+          .pullDomainEvents()
+          .find((e) => e instanceof SessionTrimmedDomainEvent),
+      ).toBeDefined();
+    });
+
+    it("should throw and keep segments when whole session is covered", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(1000, 2000)],
+        loggedAt: DateTime.create(20000),
+      });
+
+      expect(() =>
+        session.excludeRange(
+          DateTime.create(0),
+          DateTime.create(5000),
+          DateTime.create(20000),
+        ),
+      ).toThrow(EmptySessionError);
+      expect(bounds(session)).toEqual([[1000, 2000]]);
+    });
+  });
+
+  describe("splitAt", () => {
+    const range = (startedAt: number, stoppedAt: number) => ({
+      startedAt: DateTime.create(startedAt),
+      stoppedAt: DateTime.create(stoppedAt),
+    });
+    const bounds = (session: Session) =>
+      session.history.map((s) => [s.startedAt.value, s.stoppedAt!.value]);
+
+    it("should cut the segment spanning the instant", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 4000), range(5000, 8000)],
+        loggedAt: DateTime.create(10000),
+      });
+
+      const part = session.splitAt(
+        DateTime.create(2000),
+        DateTime.create(10000),
+      );
+
+      expect(bounds(session)).toEqual([[0, 2000]]);
+      expect(session.stoppedAt!.value).toBe(2000);
+      expect(bounds(part)).toEqual([
+        [2000, 4000],
+        [5000, 8000],
+      ]);
+      expect(part.state).toBe("stopped");
+      expect(part.stoppedAt!.value).toBe(8000);
+      expect(part.categoryId).toBe(categoryId);
+    });
+
+    it("should move whole segments when instant is inside a pause", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 4000), range(5000, 8000)],
+        loggedAt: DateTime.create(10000),
+      });
+
+      const part = session.splitAt(
+        DateTime.create(4500),
+        DateTime.create(10000),
+      );
+
+      expect(bounds(session)).toEqual([[0, 4000]]);
+      expect(bounds(part)).toEqual([[5000, 8000]]);
+    });
+
+    it("should hand the active segment over to the new session", () => {
+      const session = Session._validTestInstance();
+
+      const part = session.splitAt(
+        DateTime.create(1000),
+        DateTime.create(2000),
+      );
+
+      expect(session.state).toBe("stopped");
+      expect(bounds(session)).toEqual([[0, 1000]]);
+      expect(part.state).toBe("active");
+      expect(part.activeSegment!.startedAt.value).toBe(1000);
+    });
+
+    it("should assign new session to another category", () => {
+      const otherCategoryId = makeId();
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 4000)],
+        loggedAt: DateTime.create(10000),
+      });
+
+      const part = session.splitAt(
+        DateTime.create(2000),
+        DateTime.create(10000),
+        otherCategoryId,
+      );
+
+      expect(part.categoryId).toBe(otherCategoryId);
+
+      const event = session
+        .pullDomainEvents()
+        .find((e) => e instanceof SessionSplitDomainEvent);
+
+      expect(event).toBeDefined();
+      expect(event!.newSessionId).toBe(part.id);
+      expect(event!.newCategoryId).toBe(otherCategoryId);
+      expect(event!.splitAt.value).toBe(2000);
+    });
+
+    it("should throw when instant is outside the session", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 4000)],
+        loggedAt: DateTime.create(10000),
+      });
+
+      expect(() =>
+        session.splitAt(DateTime.create(0), DateTime.create(10000)),
+      ).toThrow(ValidationDomainError);
+      expect(() =>
+        session.splitAt(DateTime.create(4000), DateTime.create(10000)),
+      ).toThrow(ValidationDomainError);
+    });
+
+    it("should throw when a part would be shorter than 300ms", () => {
+      const session = Session.createCompleted({
+        categoryId,
+        segments: [range(0, 4000)],
+        loggedAt: DateTime.create(10000),
+      });
+
+      expect(() =>
+        session.splitAt(DateTime.create(100), DateTime.create(10000)),
+      ).toThrow(TooShortSegmentError);
+      expect(bounds(session)).toEqual([[0, 4000]]);
+    });
+  });
+
+  describe("merge", () => {
+    const completed = (...ranges: [number, number][]) =>
+      Session.createCompleted({
+        categoryId,
+        segments: ranges.map(([startedAt, stoppedAt]) => ({
+          startedAt: DateTime.create(startedAt),
+          stoppedAt: DateTime.create(stoppedAt),
+        })),
+        loggedAt: DateTime.create(100000),
+      });
+    const bounds = (session: Session) =>
+      session.history.map((s) => [s.startedAt.value, s.stoppedAt!.value]);
+
+    it("should fold histories and turn gaps into pauses", () => {
+      const first = completed([0, 2000]);
+      const second = completed([3000, 5000], [6000, 8000]);
+
+      first.merge([second], DateTime.create(10000));
+
+      expect(bounds(first)).toEqual([
+        [0, 2000],
+        [3000, 5000],
+        [6000, 8000],
+      ]);
+      expect(first.createdAt.value).toBe(0);
+      expect(first.stoppedAt!.value).toBe(8000);
+      expect(first.getDurationMs()).toBe(6000);
+    });
+
+    it("should emit SessionsMergedDomainEvent", () => {
+      const first = completed([0, 2000]);
+      const second = completed([3000, 5000]);
+      const third = completed([6000, 8000]);
+
+      first.pullDomainEvents();
+      first.merge([third, second], DateTime.create(10000));
+
+      const events = first.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(SessionsMergedDomainEvent);
+      expect(
+        (events[0] as SessionsMergedDomainEvent).absorbedSessionIds,
+      ).toEqual([third.id, second.id]);
+    });
+
+    it("should throw when a session is not stopped", () => {
+      const first = completed([0, 2000]);
+      const active = Session._validTestInstance();
+
+      expect(() => first.merge([active], DateTime.create(10000))).toThrow(
+        ValidationDomainError,
+      );
+    });
+
+    it("should throw when categories differ", () => {
+      const first = completed([0, 2000]);
+      const other = Session.createCompleted({
+        categoryId: makeId(),
+        segments: [
+          {
+            startedAt: DateTime.create(3000),
+            stoppedAt: DateTime.create(5000),
+          },
+        ],
+        loggedAt: DateTime.create(10000),
+      });
+
+      expect(() => first.merge([other], DateTime.create(10000))).toThrow(
+        ValidationDomainError,
+      );
+    });
+
+    it("should throw when target is not the earliest session", () => {
+      const first = completed([0, 2000]);
+      const second = completed([3000, 5000]);
+
+      expect(() => second.merge([first], DateTime.create(10000))).toThrow(
+        ValidationDomainError,
+      );
+    });
+
+    it("should throw and keep history when segments overlap", () => {
+      const first = completed([0, 4000]);
+      const second = completed([3000, 5000]);
+
+      expect(() => first.merge([second], DateTime.create(10000))).toThrow(
+        ValidationDomainError,
+      );
+      expect(bounds(first)).toEqual([[0, 4000]]);
+    });
+  });
+
+  describe("tags", () => {
+    it("should add a tag and emit SessionTaggedDomainEvent", () => {
+      const session = Session._validTestInstance();
+
+      session.pullDomainEvents();
+      session.addTag(Tag.create("billable"), DateTime.create(1000));
+
+      expect(session.tags.map((tag) => tag.value)).toEqual(["billable"]);
+
+      const events = session.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(SessionTaggedDomainEvent);
+      expect(events[0]).toMatchObject({ tag: "billable" });
+    });
+
+    it("should ignore a tag the session already has", () => {
+      const session = Session._validTestInstance({
+        tags: [Tag.create("PROJ-123")],
+      });
+
+      session.pullDomainEvents();
+      session.addTag(Tag.create("proj-123"), DateTime.create(1000));
+
+      expect(session.tags).toHaveLength(1);
+      expect(session.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it("should remove a tag and emit SessionUntaggedDomainEvent", () => {
+      const session = Session._validTestInstance({
+        tags: [Tag.create("billable"), Tag.create("deep-work")],
+      });
+
+      session.pullDomainEvents();
+      session.removeTag(Tag.create("Billable"), DateTime.create(1000));
+      session.removeTag(Tag.create("missing"), DateTime.create(1000));
+
+      expect(session.tags.map((tag) => tag.value)).toEqual(["deep-work"]);
+
+      const events = session.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(SessionUntaggedDomainEvent);
+      expect(events[0]).toMatchObject({ tag: "billable" });
+    });
+
+    it("should be matched by SessionHasTagSpec combined with other specs", () => {
+      const billable = Session._validTestInstance({
+        tags: [Tag.create("billable")],
+      });
+      const other = Session._validTestInstance();
+
+      billable.stop(DateTime.create(1000));
+      other.stop(DateTime.create(1000));
+
+      const spec = new SessionHasTagSpec(Tag.create("BILLABLE")).and(
+        new StoppedSessionSpec(),
+      );
+
+      expect(spec.isSatisfiedBy(billable)).toBe(true);
+      expect(spec.isSatisfiedBy(other)).toBe(false);
+    });
+
+    it("should keep tags on split and merge", () => {
+      const completed = (from: number, to: number, tag: string) => {
+        const session = Session.createCompleted({
+          categoryId,
+          segments: [
+            {
+              startedAt: DateTime.create(from),
+              stoppedAt: DateTime.create(to),
+            },
+          ],
+          loggedAt: DateTime.create(10000),
+        });
+
+        session.addTag(Tag.create(tag), DateTime.create(10000));
+
+        return session;
+      };
+      const session = completed(0, 4000, "billable");
+      const part = session.splitAt(
+        DateTime.create(2000),
+        DateTime.create(10000),
+      );
+
+      expect(part.hasTag(Tag.create("billable"))).toBe(true);
+
+      session.merge(
+        [completed(5000, 8000, "deep-work")],
+        DateTime.create(10000),
+      );
+
+      expect(session.tags.map((tag) => tag.value)).toEqual([
+        "billable",
+        "deep-work",
+      ]);
+    });
+  });
+
+  describe("notes", () => {
+    const completed = (from: number, to: number) =>
+      Session.createCompleted({
+        categoryId,
+        segments: [
+          { startedAt: DateTime.create(from), stoppedAt: DateTime.create(to) },
+        ],
+        loggedAt: DateTime.create(10000),
+      });
+
+    it("should edit the session note and emit SessionNoteEditedDomainEvent", () => {
+      const session = Session._validTestInstance();
+
+      session.pullDomainEvents();
+      session.editNote(Note.create("Sprint planning"), DateTime.create(1000));
+      session.editNote(Note.create("Sprint planning"), DateTime.create(2000));
+      session.editNote(null, DateTime.create(3000));
+
+      expect(session.note).toBeNull();
+
+      const events = session.pullDomainEvents();
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toBeInstanceOf(SessionNoteEditedDomainEvent);
+      expect(events[0]).toMatchObject({ note: "Sprint planning" });
+      expect(events[1]).toMatchObject({ note: null });
+    });
+
+    it("should edit a segment note and emit SegmentNoteEditedDomainEvent", () => {
+      const session = completed(0, 4000);
+      const segment = session.history[0]!;
+
+      session.pullDomainEvents();
+      session.editSegmentNote(
+        segment.id,
+        Note.create("Fixed login bug"),
+        DateTime.create(5000),
+      );
+
+      expect(session.history[0]!.note?.value).toBe("Fixed login bug");
+
+      const events = session.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(SegmentNoteEditedDomainEvent);
+      expect(events[0]).toMatchObject({
+        segmentId: segment.id,
+        note: "Fixed login bug",
+      });
+    });
+
+    it("should throw when editing the note of an unknown segment", () => {
+      const session = completed(0, 4000);
+
+      expect(() =>
+        session.editSegmentNote(makeId(), null, DateTime.create(5000)),
+      ).toThrow(SegmentNotFoundError);
+    });
+
+    it("should keep segment notes when the segment is adjusted or split", () => {
+      const session = completed(0, 4000);
+      const segmentId = session.history[0]!.id;
+
+      session.editNote(Note.create("Refactoring"), DateTime.create(5000));
+      session.editSegmentNote(
+        segmentId,
+        Note.create("Parser"),
+        DateTime.create(5000),
+      );
+      session.adjustSegment(
+        segmentId,
+        { stoppedAt: DateTime.create(5000) },
+        DateTime.create(6000),
+      );
+
+      const part = session.splitAt(
+        DateTime.create(2000),
+        DateTime.create(6000),
+      );
+
+      expect(session.history[0]!.note?.value).toBe("Parser");
+      expect(part.history[0]!.note?.value).toBe("Parser");
+      expect(part.note?.value).toBe("Refactoring");
+    });
+
+    it("should take the note of a merged session when it has none", () => {
+      const session = completed(0, 2000);
+      const other = completed(5000, 8000);
+
+      other.editNote(Note.create("Code review"), DateTime.create(10000));
+      session.merge([other], DateTime.create(10000));
+
+      expect(session.note?.value).toBe("Code review");
+    });
+
+    it("should include notes in toJSON", () => {
+      const session = completed(0, 2000);
+
+      session.editNote(Note.create("Code review"), DateTime.create(10000));
+      session.editSegmentNote(
+        session.history[0]!.id,
+        Note.create("PR #42"),
+        DateTime.create(10000),
+      );
+
+      expect(JSON.parse(JSON.stringify(session))).toMatchObject({
+        note: "Code review",
+        history: [{ note: "PR #42" }],
+      });
+    });
+
+    it("should be matched by SessionNoteMatchesSpec on session or segment notes", () => {
+      const bySession = completed(0, 2000);
+      const bySegment = completed(3000, 5000);
+      const other = completed(6000, 8000);
+
+      bySession.editNote(Note.create("Login BUG triage"), DateTime.create(0));
+      bySegment.editSegmentNote(
+        bySegment.history[0]!.id,
+        Note.create("fixed the login bug"),
+        DateTime.create(0),
+      );
+      other.editNote(Note.create("Lunch"), DateTime.create(0));
+
+      const spec = new SessionNoteMatchesSpec("login bug").and(
+        new SessionForCategorySpec(categoryId),
+      );
+
+      expect(spec.isSatisfiedBy(bySession)).toBe(true);
+      expect(spec.isSatisfiedBy(bySegment)).toBe(true);
+      expect(spec.isSatisfiedBy(other)).toBe(false);
+      expect(() => new SessionNoteMatchesSpec("  ")).toThrow(
+        ValidationDomainError,
+      );
+    });
+  });
+
+  describe("time ranges", () => {
+    const range = (start: number, end: number) =>
+      TimeRange.create(DateTime.create(start), DateTime.create(end));
+    const completed = (...segments: [number, number][]) =>
+      Session.createCompleted({
+        categoryId,
+        segments: segments.map(([from, to]) => ({
+          startedAt: DateTime.create(from),
+          stoppedAt: DateTime.create(to),
+        })),
+        loggedAt: DateTime.create(100000),
+      });
+
+    it("should return tracked ranges with the running segment ending now", () => {
+      const session = new Session({ categoryId, createdAt });
+
+      session.pause(DateTime.create(1000));
+      session.resume(DateTime.create(3000));
+
+      const ranges = session.getTrackedRanges(DateTime.create(5000));
+
+      expect(ranges.map((r) => [r.start.value, r.end.value])).toEqual([
+        [0, 1000],
+        [3000, 5000],
+      ]);
+    });
+
+    it("should find a session spanning the boundary of a period", () => {
+      // period [10s, 20s), session tracked 5s-12s and 18s-25s
+      const period = range(10000, 20000);
+      const spanning = completed([5000, 12000], [18000, 25000]);
+      const inGap = completed([12500, 17500]);
+      const before = completed([1000, 10000]);
+      const spec = new SessionOverlapsRangeSpec(period);
+
+      expect(spec.isSatisfiedBy(spanning)).toBe(true);
+      expect(spec.isSatisfiedBy(inGap)).toBe(true);
+      expect(spec.isSatisfiedBy(before)).toBe(false);
+
+      const inRange = period.clip(
+        spanning.getTrackedRanges(DateTime.create(100000)),
+      );
+
+      expect(inRange.map((r) => r.duration.value)).toEqual([2000, 2000]);
+    });
+
+    it("should treat an active segment as open-ended", () => {
+      const running = new Session({ categoryId, createdAt });
+
+      expect(
+        new SessionOverlapsRangeSpec(range(50000, 60000)).isSatisfiedBy(
+          running,
+        ),
+      ).toBe(true);
+    });
+
+    it("should match created and stopped instants with half-open ranges", () => {
+      const session = completed([1000, 5000]);
+
+      expect(
+        new SessionCreatedInRangeSpec(range(1000, 2000)).isSatisfiedBy(session),
+      ).toBe(true);
+      expect(
+        new SessionStoppedInRangeSpec(range(1000, 5000)).isSatisfiedBy(session),
+      ).toBe(false);
+      expect(
+        new SessionStoppedInRangeSpec(range(5000, 6000)).isSatisfiedBy(session),
+      ).toBe(true);
+    });
   });
 });
@@ -1,16 +1,18 @@
-import { invariant } from "es-toolkit";
+import { invariant, isNil, isNotNil } from "es-toolkit";
 
 import { SegmentAlreadyStoppedError, ValidationDomainError } from "../errors";
-import { DateTime, type ULID } from "../valueObjects";
+import { DateTime, Duration, type Note, type ULID } from "../valueObjects";
 import { EntityBase } from "./Entity.base";
 
 type SessionSegmentProps = {
   id?: ULID;
   startedAt: DateTime;
   stoppedAt?: DateTime | null;
+  note?: Note | null;
 };
 
 export class SessionSegment extends EntityBase {
+  private _note: Note | null;
   private _startedAt: DateTime;
   private _state: "active" | "stopped";
   private _stoppedAt: DateTime | null;
@@ -19,17 +21,26 @@ export class SessionSegment extends EntityBase {
     super(props.id);
     this._startedAt = props.startedAt;
     this._stoppedAt = props.stoppedAt ?? null;
+    this._note = props.note ?? null;
     this._state = props.stoppedAt ? "stopped" : "active";
   }
 
-  get durationMs() {
+  get duration(): Duration | null {
     if (this.state === "active") {
       return null;
     }
 
     invariant(this.stoppedAt, "stoppedAt is required when segment is stopped");
 
-    return this.stoppedAt.value - this.startedAt.value;
+    return Duration.between(this.startedAt, this.stoppedAt);
+  }
+
+  get durationMs() {
+    return this.duration?.value ?? null;
+  }
+
+  get note() {
+    return this._note;
   }
 
   get startedAt() {
@@ -46,13 +57,27 @@ export class SessionSegment extends EntityBase {
 
   adjustStartTime(newStartTime: DateTime) {
     invariant(
-      newStartTime.value < this.stoppedAt!.value,
+      newStartTime instanceof DateTime,
+      new ValidationDomainError("new start time must be a DateTime"),
+    );
+    invariant(
+      isNil(this.stoppedAt) || newStartTime.value < this.stoppedAt.value,
       new ValidationDomainError("new start time must be before stop time"),
     );
     this._startedAt = newStartTime;
   }
 
   adjustStopTime(newStopTime: DateTime) {
+    invariant(
+      newStopTime instanceof DateTime,
+      new ValidationDomainError("new stop time must be a DateTime"),
+    );
+    invariant(
+      this.state === "stopped",
+      new ValidationDomainError(
+        "only stopped segment stop time can be adjusted",
+      ),
+    );
     invariant(
       newStopTime.value > this.startedAt.value,
       new ValidationDomainError("new stop time must be after start time"),
@@ -60,6 +85,28 @@ export class SessionSegment extends EntityBase {
     this._stoppedAt = newStopTime;
   }
 
+  /**
+   * Replace the note, null clears it
+   */
+  editNote(note: Note | null) {
+    this._note = note;
+  }
+
+  /**
+   * Time tracked as of now; a running segment counts up to now
+   */
+  getElapsed(now: DateTime): Duration {
+    if (isNotNil(this.duration)) return this.duration;
+
+    return now.isAfter(this.startedAt)
+      ? Duration.between(this.startedAt, now)
+      : Duration.zero();
+  }
+
+  getElapsedMs(now: DateTime) {
+    return this.getElapsed(now).value;
+  }
+
   stop(stopedAt: DateTime) {
     invariant(this.state === "active", new SegmentAlreadyStoppedError());
     invariant(
@@ -75,6 +122,7 @@ export class SessionSegment extends EntityBase {
       id: this.id,
       startedAt: this.startedAt,
       stoppedAt: this.stoppedAt,
+      note: this.note,
     };
   }
 }
@@ -1,5 +1,5 @@
 import { SegmentAlreadyStoppedError } from "../errors";
-import { DateTime } from "../valueObjects";
+import { DateTime, Duration, Note } from "../valueObjects";
 import { SessionSegment } from "./SessionSegment";
 
 describe("SessionSegment", () => {
@@ -105,6 +105,14 @@ describe("SessionSegment", () => {
         segment.adjustStartTime(segment.startedAt.add(1000));
       }).toThrow();
     });
+    it("should adjust startedAt of the active segment", () => {
+      segment.adjustStartTime(segment.startedAt.subtract(1000));
+
+      expect(segment.startedAt.isSame(DateTime.create(timestamp - 1000))).toBe(
+        true,
+      );
+      expect(segment.state).toBe("active");
+    });
     it("should adjust startedAt when newStartTime is before stoppedAt", () => {
       segment.stop(segment.startedAt.add(1000));
 
@@ -145,6 +153,11 @@ describe("SessionSegment", () => {
         segment.adjustStopTime(segment.startedAt);
       }).toThrow();
     });
+    it("should throw when segment is still active", () => {
+      expect(() => {
+        segment.adjustStopTime(segment.startedAt.add(1000));
+      }).toThrow();
+    });
     it("should adjust stoppedAt when newStopTime is after startedAt", () => {
       segment.stop(segment.startedAt.add(1000));
       segment.adjustStopTime(segment.startedAt.add(2000));
@@ -158,9 +171,41 @@ describe("SessionSegment", () => {
       segment.stop(segment.startedAt.add(1000));
 
       expect(segment.durationMs).toBe(1000);
+      expect(segment.duration?.equals(Duration.of(1, "second"))).toBe(true);
     });
     it("should return duration of the active segment corectrly", () => {
       expect(segment.durationMs).toBeNull();
+      expect(segment.duration).toBeNull();
+    });
+  });
+
+  describe("getElapsed", () => {
+    it("should count the running segment up to now", () => {
+      expect(segment.getElapsedMs(segment.startedAt.add(1500))).toBe(1500);
+    });
+
+    it("should not count before the segment started", () => {
+      expect(segment.getElapsedMs(segment.startedAt.subtract(1000))).toBe(0);
+    });
+
+    it("should return the duration of the stopped segment", () => {
+      segment.stop(segment.startedAt.add(1000));
+
+      expect(segment.getElapsedMs(segment.startedAt.add(5000))).toBe(1000);
+    });
+  });
+
+  describe("editNote", () => {
+    it("should have no note by default", () => {
+      expect(segment.note).toBeNull();
+    });
+
+    it("should set and clear the note", () => {
+      segment.editNote(Note.create("Wrote tests"));
+      expect(segment.note?.value).toBe("Wrote tests");
+
+      segment.editNote(null);
+      expect(segment.note).toBeNull();
     });
   });
 
@@ -0,0 +1,8 @@
+import { DomainError } from "./DomainError";
+
+export class CategoryArchivedError extends DomainError {
+  constructor(categoryId: string) {
+    super(`category ${categoryId} is archived`);
+    this.name = "CategoryArchivedError";
+  }
+}
@@ -0,0 +1,10 @@
+import { DomainError } from "./DomainError";
+
+export class CategoryCycleError extends DomainError {
+  constructor(categoryId: string) {
+    super(
+      `category ${categoryId} cannot be nested under itself or its descendants`,
+    );
+    this.name = "CategoryCycleError";
+  }
+}
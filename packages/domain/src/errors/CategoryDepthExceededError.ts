@@ -0,0 +1,8 @@
+import { DomainError } from "./DomainError";
+
+export class CategoryDepthExceededError extends DomainError {
+  constructor(maxDepth: number) {
+    super(`categories cannot be nested deeper than ${maxDepth} levels`);
+    this.name = "CategoryDepthExceededError";
+  }
+}
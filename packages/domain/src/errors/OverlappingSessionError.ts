@@ -0,0 +1,8 @@
+import { DomainError } from "./DomainError";
+
+export class OverlappingSessionError extends DomainError {
+  constructor(public readonly sessionIds: string[]) {
+    super(`session overlaps with other sessions: ${sessionIds.join(", ")}`);
+    this.name = "OverlappingSessionError";
+  }
+}
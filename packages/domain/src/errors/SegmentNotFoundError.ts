@@ -0,0 +1,8 @@
+import { DomainError } from "./DomainError";
+
+export class SegmentNotFoundError extends DomainError {
+  constructor(segmentId: string) {
+    super(`segment ${segmentId} not found in session`);
+    this.name = "SegmentNotFoundError";
+  }
+}
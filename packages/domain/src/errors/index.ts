@@ -1,13 +1,23 @@
 export { DomainError } from "./DomainError";
 
+export { CategoryArchivedError } from "./CategoryArchivedError";
+
+export { CategoryCycleError } from "./CategoryCycleError";
+
+export { CategoryDepthExceededError } from "./CategoryDepthExceededError";
+
 export { NoActiveSegmentError } from "./NoActiveSegmentError";
 
 export { EmptySessionError } from "./EmptySessionError";
 
 export { OverlappingSegmentError } from "./OverlappingSegmentError";
 
+export { OverlappingSessionError } from "./OverlappingSessionError";
+
 export { SegmentAlreadyStoppedError } from "./SegmentAlreadyStoppedError";
 
+export { SegmentNotFoundError } from "./SegmentNotFoundError";
+
 export { SessionAlreadyStoppedError } from "./SessionAlreadyStoppedError";
 
 export { TooShortSegmentError } from "./TooShortSegmentError";
@@ -0,0 +1,18 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when the sessions of source categories are moved into a target category.
+ * Statistics per category should be recomputed for all listed categories.
+ */
+export class CategoriesMergedDomainEvent extends DomainEvent {
+  readonly type = "CategoriesMergedDomainEvent";
+
+  constructor(
+    public readonly categoryId: ULID,
+    public readonly sourceCategoryIds: ULID[],
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
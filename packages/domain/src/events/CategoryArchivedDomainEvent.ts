@@ -0,0 +1,13 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+export class CategoryArchivedDomainEvent extends DomainEvent {
+  readonly type = "CategoryArchivedDomainEvent";
+
+  constructor(
+    public readonly categoryId: ULID,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
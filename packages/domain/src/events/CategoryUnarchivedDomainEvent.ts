@@ -0,0 +1,13 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+export class CategoryUnarchivedDomainEvent extends DomainEvent {
+  readonly type = "CategoryUnarchivedDomainEvent";
+
+  constructor(
+    public readonly categoryId: ULID,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
@@ -0,0 +1,18 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+export class SegmentAdjustedDomainEvent extends DomainEvent {
+  readonly type = "SegmentAdjustedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly segmentId: ULID,
+    public readonly previousStartedAt: DateTime,
+    public readonly previousStoppedAt: DateTime | null,
+    public readonly startedAt: DateTime,
+    public readonly stoppedAt: DateTime | null,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
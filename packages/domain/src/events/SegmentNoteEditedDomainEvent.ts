@@ -0,0 +1,18 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when the note of a session segment is set, changed or cleared.
+ */
+export class SegmentNoteEditedDomainEvent extends DomainEvent {
+  readonly type = "SegmentNoteEditedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly segmentId: ULID,
+    public readonly note: string | null,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
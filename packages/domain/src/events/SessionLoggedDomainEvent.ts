@@ -0,0 +1,19 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when a completed session is recorded after the fact (manual backfill)
+ * instead of being tracked live with start/pause/resume/stop.
+ */
+export class SessionLoggedDomainEvent extends DomainEvent {
+  readonly type = "SessionLoggedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly categoryId: ULID,
+    public readonly totalDurationMs: number,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
@@ -0,0 +1,17 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when the note of a session is set, changed or cleared.
+ */
+export class SessionNoteEditedDomainEvent extends DomainEvent {
+  readonly type = "SessionNoteEditedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly note: string | null,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
@@ -0,0 +1,18 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when a session is moved from one category to another.
+ */
+export class SessionRecategorizedDomainEvent extends DomainEvent {
+  readonly type = "SessionRecategorizedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly previousCategoryId: ULID,
+    public readonly categoryId: ULID,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
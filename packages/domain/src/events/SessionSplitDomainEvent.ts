@@ -0,0 +1,20 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when a session is cut in two: the time after `splitAt`
+ * now belongs to a new session, possibly of another category.
+ */
+export class SessionSplitDomainEvent extends DomainEvent {
+  readonly type = "SessionSplitDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly newSessionId: ULID,
+    public readonly newCategoryId: ULID,
+    public readonly splitAt: DateTime,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
@@ -0,0 +1,17 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when a tag is added to a session.
+ */
+export class SessionTaggedDomainEvent extends DomainEvent {
+  readonly type = "SessionTaggedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly tag: string,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
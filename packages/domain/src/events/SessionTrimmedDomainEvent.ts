@@ -0,0 +1,19 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when a time range is cut out of a session's segments,
+ * e.g. to resolve an overlap with another session.
+ */
+export class SessionTrimmedDomainEvent extends DomainEvent {
+  readonly type = "SessionTrimmedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly from: DateTime,
+    public readonly to: DateTime,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
@@ -0,0 +1,17 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when a tag is removed from a session.
+ */
+export class SessionUntaggedDomainEvent extends DomainEvent {
+  readonly type = "SessionUntaggedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly tag: string,
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
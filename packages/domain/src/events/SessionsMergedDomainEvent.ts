@@ -0,0 +1,18 @@
+import { DateTime, type ULID } from "../valueObjects";
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Emitted when stopped sessions of one category are folded into a single session.
+ * Absorbed sessions no longer exist after this event.
+ */
+export class SessionsMergedDomainEvent extends DomainEvent {
+  readonly type = "SessionsMergedDomainEvent";
+
+  constructor(
+    public readonly sessionId: ULID,
+    public readonly absorbedSessionIds: ULID[],
+    occurredAt: DateTime,
+  ) {
+    super(occurredAt);
+  }
+}
@@ -1,15 +1,43 @@
+export { CategoriesMergedDomainEvent } from "./CategoriesMergedDomainEvent";
+
+export { CategoryArchivedDomainEvent } from "./CategoryArchivedDomainEvent";
+
 export { CategoryCreatedDomainEvent } from "./CategoryCreatedDomainEvent";
 
+export { CategoryDeletedDomainEvent } from "./CategoryDeletedDomainEvent";
+
 export { CategoryEditedDomainEvent } from "./CategoryEditedDomainEvent";
 
+export { CategoryUnarchivedDomainEvent } from "./CategoryUnarchivedDomainEvent";
+
+export { SegmentAdjustedDomainEvent } from "./SegmentAdjustedDomainEvent";
+
+export { SegmentNoteEditedDomainEvent } from "./SegmentNoteEditedDomainEvent";
+
 export { SegmentTooShortDomainEvent } from "./SegmentTooShortDomainEvent";
 
 export { SessionExportedDomainEvent } from "./SessionExportedDomainEvent";
 
+export { SessionLoggedDomainEvent } from "./SessionLoggedDomainEvent";
+
+export { SessionNoteEditedDomainEvent } from "./SessionNoteEditedDomainEvent";
+
+export { SessionRecategorizedDomainEvent } from "./SessionRecategorizedDomainEvent";
+
+export { SessionSplitDomainEvent } from "./SessionSplitDomainEvent";
+
 export { SessionStartedDomainEvent } from "./SessionStartedDomainEvent";
 
 export { SessionStoppedDomainEvent } from "./SessionStoppedDomainEvent";
 
+export { SessionTaggedDomainEvent } from "./SessionTaggedDomainEvent";
+
+export { SessionTrimmedDomainEvent } from "./SessionTrimmedDomainEvent";
+
+export { SessionUntaggedDomainEvent } from "./SessionUntaggedDomainEvent";
+
+export { SessionsMergedDomainEvent } from "./SessionsMergedDomainEvent";
+
 export { SessionPausedDomainEvent } from "./SessionPausedDomainEvent";
 
 export { SessionResumedDomainEvent } from "./SessionResumedDomainEvent";
@@ -1,9 +1,17 @@
 import { Category } from "../aggregate";
 import { Specification } from "../specifications";
 import { ULID } from "../valueObjects";
+import { Page, QueryOptions, CategorySortField } from "./QueryOptions";
 
 export interface ICategoryRepository {
   findManyBySpec(spec: Specification<Category>): Promise<Category[]>;
+  /**
+   * One page of the matching categories, every category without a spec
+   */
+  findPage(
+    options: QueryOptions<CategorySortField>,
+    spec?: Specification<Category>,
+  ): Promise<Page<Category>>;
   findOneBySpec(spec: Specification<Category>): Promise<Category | null>;
   findById(id: ULID): Promise<Category | null>;
   findAll(): Promise<Category[]>;
@@ -0,0 +1,29 @@
+export type CategorySortField = "createdAt" | "name";
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+}
+
+/**
+ * Paging and sorting for repository queries
+ *
+ * Ties are broken by id. Ids are ULIDs, so equal sort values keep creation
+ * order and a cursor stays valid while rows are added or removed.
+ */
+export interface QueryOptions<SortField extends string> {
+  limit: number;
+  sortBy?: SortField; // defaults to "createdAt"
+  direction?: SortDirection; // defaults to "asc"
+  cursor?: string | null; // nextCursor of the previous page
+  offset?: number; // rows to skip, for page numbers instead of a cursor
+}
+
+/**
+ * Sorting by duration counts completed segments only, so running sessions sort by
+ * the time tracked before their current segment.
+ * Sessions that are not stopped sort after every stopped one by stoppedAt.
+ */
+export type SessionSortField = "createdAt" | "duration" | "stoppedAt";
+
+export type SortDirection = "asc" | "desc";
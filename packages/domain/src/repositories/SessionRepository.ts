@@ -1,14 +1,36 @@
 import { Session } from "../aggregate";
 import { Specification } from "../specifications";
 import { ULID } from "../valueObjects";
+import { Page, QueryOptions, SessionSortField } from "./QueryOptions";
 
 export interface ISessionRepository {
   findManyBySpec(spec: Specification<Session>): Promise<Session[]>;
+  /**
+   * One page of the matching sessions, every session without a spec
+   */
+  findPage(
+    options: QueryOptions<SessionSortField>,
+    spec?: Specification<Session>,
+  ): Promise<Page<Session>>;
   findOneBySpec(spec: Specification<Session>): Promise<Session | null>;
   findAll(): Promise<Session[]>;
   findById(id: ULID): Promise<Session | null>;
   save(session: Session): Promise<void>;
+  saveMany(sessions: Session[]): Promise<void>;
+  /**
+   * Delete sessions and save others in one go. Deletes go first, so
+   * segments moved to a saved session keep their ids.
+   */
+  saveAndDelete(sessions: Session[], deletedIds: ULID[]): Promise<void>;
   delete(id: ULID): Promise<void>;
+  /**
+   * Move every session of the given categories to another category in one go.
+   * Returns ids of the moved sessions.
+   */
+  reassignCategory(
+    fromCategoryIds: ULID[],
+    toCategoryId: ULID,
+  ): Promise<ULID[]>;
   count(): Promise<number>;
 }
 
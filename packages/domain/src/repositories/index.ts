@@ -1,3 +1,5 @@
 export * from "./CategoryRepository";
 
 export * from "./SessionRepository";
+
+export * from "./QueryOptions";
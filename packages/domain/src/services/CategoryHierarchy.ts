@@ -0,0 +1,118 @@
+import { invariant, isNil } from "es-toolkit";
+
+import type { Category } from "../aggregate";
+import type { ULID } from "../valueObjects";
+
+import { CategoryCycleError, CategoryDepthExceededError } from "../errors";
+
+/**
+ * Deepest allowed nesting, counting the root as level 1
+ * (e.g. "Work > Client A > Meetings" is 3 levels deep).
+ */
+export const MAX_CATEGORY_DEPTH = 5;
+
+export class CategoryHierarchy {
+  /**
+   * Domain Service: Parent/child relations between categories
+   */
+
+  private readonly byId: Map<ULID, Category>;
+
+  constructor(categories: Category[]) {
+    this.byId = new Map(categories.map((category) => [category.id, category]));
+  }
+
+  /**
+   * Parents of the category, nearest first
+   */
+  ancestorsOf(categoryId: ULID): Category[] {
+    const ancestors: Category[] = [];
+    const visited = new Set<ULID>([categoryId]);
+
+    let parentId = this.byId.get(categoryId)?.parentId ?? null;
+
+    while (!isNil(parentId) && !visited.has(parentId)) {
+      const parent = this.byId.get(parentId);
+
+      if (isNil(parent)) break;
+
+      ancestors.push(parent);
+      visited.add(parentId);
+      parentId = parent.parentId;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Throw if nesting the category under the parent would create a cycle
+   * or exceed MAX_CATEGORY_DEPTH.
+   */
+  assertCanAttach(category: Category, parentId: ULID | null): void {
+    if (isNil(parentId)) return;
+
+    invariant(
+      parentId !== category.id &&
+        !this.descendantsOf(category.id).some(
+          (descendant) => descendant.id === parentId,
+        ),
+      new CategoryCycleError(category.id),
+    );
+    invariant(
+      this.depthOf(parentId) + this.heightOf(category.id) <= MAX_CATEGORY_DEPTH,
+      new CategoryDepthExceededError(MAX_CATEGORY_DEPTH),
+    );
+  }
+
+  /**
+   * Direct children of the category, or root categories for null.
+   * Categories whose parent is unknown are treated as roots.
+   */
+  childrenOf(categoryId: ULID | null): Category[] {
+    return Array.from(this.byId.values()).filter((category) =>
+      isNil(categoryId)
+        ? isNil(category.parentId) || !this.byId.has(category.parentId)
+        : category.parentId === categoryId,
+    );
+  }
+
+  /**
+   * Level of the category, roots are level 1
+   */
+  depthOf(categoryId: ULID): number {
+    return this.ancestorsOf(categoryId).length + 1;
+  }
+
+  /**
+   * All categories below the category, depth-first
+   */
+  descendantsOf(categoryId: ULID): Category[] {
+    const descendants: Category[] = [];
+    const visit = (id: ULID) => {
+      for (const child of this.childrenOf(id)) {
+        if (child.id === categoryId || descendants.includes(child)) continue;
+
+        descendants.push(child);
+        visit(child.id);
+      }
+    };
+
+    visit(categoryId);
+
+    return descendants;
+  }
+
+  /**
+   * Number of levels in the subtree, the category itself included
+   */
+  heightOf(categoryId: ULID): number {
+    const levels = this.descendantsOf(categoryId).map(
+      (descendant) =>
+        this.ancestorsOf(descendant.id).findIndex(
+          (ancestor) => ancestor.id === categoryId,
+        ) + 1,
+    );
+
+    return Math.max(0, ...levels) + 1;
+  }
+}
@@ -0,0 +1,103 @@
+import { maxBy, minBy } from "es-toolkit";
+
+import type { Session } from "../aggregate";
+import type { ISessionRepository } from "../repositories";
+
+import { EmptySessionError, OverlappingSessionError } from "../errors";
+import { SessionOverlapsRangeSpec } from "../specifications";
+import { DateTime, TimeRange } from "../valueObjects";
+
+/**
+ * What to do when a session covers wall-clock time already tracked by another session:
+ * - "reject" - refuse the change
+ * - "trimCandidate" - cut the overlapping time out of the new/edited session,
+ *   rejected like "reject" when nothing would be left
+ * - "trimExisting" - cut it out of the other sessions (removing fully covered ones)
+ */
+export type SessionOverlapPolicy = "reject" | "trimCandidate" | "trimExisting";
+
+export interface SessionOverlapResolution {
+  removed: Session[];
+  updated: Session[];
+}
+
+export class SessionOverlapResolver {
+  /**
+   * Domain Service: Keep sessions from double-counting the same time
+   */
+
+  constructor(private readonly sessionRepo: ISessionRepository) {}
+
+  /**
+   * Check candidate against other stored sessions and apply the policy.
+   * The candidate is trimmed in place; existing sessions that were changed
+   * or must be deleted are returned for the caller to persist.
+   *
+   * @param now - End of currently running segments
+   */
+  async resolve(
+    candidate: Session,
+    policy: SessionOverlapPolicy,
+    now: DateTime,
+  ): Promise<SessionOverlapResolution> {
+    const resolution: SessionOverlapResolution = { removed: [], updated: [] };
+    const candidateRanges = candidate.getTrackedRanges(now);
+    const firstRange = minBy(candidateRanges, (range) => range.start.value);
+    const lastRange = maxBy(candidateRanges, (range) => range.end.value);
+
+    if (!firstRange || !lastRange) return resolution;
+
+    const others = await this.sessionRepo.findManyBySpec(
+      new SessionOverlapsRangeSpec(
+        TimeRange.create(firstRange.start, lastRange.end),
+      ),
+    );
+
+    const conflicts = others.filter(
+      (other) =>
+        other.id !== candidate.id &&
+        this.overlap(candidateRanges, other.getTrackedRanges(now)),
+    );
+
+    if (conflicts.length === 0) return resolution;
+
+    switch (policy) {
+      case "reject":
+        throw new OverlappingSessionError(conflicts.map((other) => other.id));
+      case "trimCandidate":
+        try {
+          for (const other of conflicts) {
+            for (const range of other.getTrackedRanges(now)) {
+              candidate.excludeRange(range.start, range.end, now);
+            }
+          }
+        } catch (error) {
+          if (!(error instanceof EmptySessionError)) throw error;
+
+          throw new OverlappingSessionError(conflicts.map((other) => other.id));
+        }
+
+        return resolution;
+      case "trimExisting":
+        for (const other of conflicts) {
+          try {
+            for (const range of candidateRanges) {
+              other.excludeRange(range.start, range.end, now);
+            }
+
+            resolution.updated.push(other);
+          } catch (error) {
+            if (!(error instanceof EmptySessionError)) throw error;
+
+            resolution.removed.push(other);
+          }
+        }
+
+        return resolution;
+    }
+  }
+
+  private overlap(left: TimeRange[], right: TimeRange[]): boolean {
+    return left.some((a) => right.some((b) => a.overlaps(b)));
+  }
+}
@@ -1 +1,9 @@
+export { CategoryHierarchy, MAX_CATEGORY_DEPTH } from "./CategoryHierarchy";
+
 export { SegmentCollectionValidator } from "./SegmentCollectionValidator";
+
+export {
+  SessionOverlapResolver,
+  type SessionOverlapPolicy,
+  type SessionOverlapResolution,
+} from "./SessionOverlapResolver";
@@ -0,0 +1,37 @@
+import type { Category, Session, SessionState } from "../aggregate";
+import type { TimeRange, ULID } from "../valueObjects";
+
+export type CategoryCriterion =
+  | { kind: "archived" }
+  | { kind: "nameKey"; key: string };
+
+/**
+ * Query-translatable form of a specification
+ *
+ * Repositories compile criteria into their own query language instead of
+ * loading every aggregate and filtering in memory. A criteria tree must select
+ * exactly the candidates its specification's isSatisfiedBy accepts.
+ */
+export type Criteria<Leaf> =
+  | Leaf
+  | { kind: "and"; operands: [Criteria<Leaf>, Criteria<Leaf>] }
+  | { kind: "not"; operand: Criteria<Leaf> }
+  | { kind: "or"; operands: [Criteria<Leaf>, Criteria<Leaf>] };
+
+/**
+ * Leaf criteria available for a candidate type, never for types no
+ * repository can query
+ */
+export type CriterionOf<T> = T extends Session
+  ? SessionCriterion
+  : T extends Category
+    ? CategoryCriterion
+    : never;
+
+export type SessionCriterion =
+  | { kind: "category"; categoryId: ULID }
+  | { kind: "createdIn"; range: TimeRange }
+  | { kind: "durationAtLeast"; ms: number }
+  | { kind: "overlaps"; range: TimeRange }
+  | { kind: "state"; state: SessionState }
+  | { kind: "stoppedIn"; range: TimeRange };
@@ -1,3 +1,5 @@
+import type { Criteria, CriterionOf } from "./Criteria";
+
 /**
  * Base Specification interface
  * Encapsulates business rules for selecting/filtering domain objects
@@ -22,6 +24,11 @@ export interface Specification<T> {
    * Negate specification
    */
   not(): Specification<T>;
+
+  /**
+   * Query-translatable form, null when the rule can only be checked in memory
+   */
+  toCriteria(): Criteria<CriterionOf<T>> | null;
 }
 
 /**
@@ -41,6 +48,10 @@ export abstract class CompositeSpecification<T> implements Specification<T> {
   or(other: Specification<T>): Specification<T> {
     return new OrSpecification(this, other);
   }
+
+  toCriteria(): Criteria<CriterionOf<T>> | null {
+    return null;
+  }
 }
 
 /**
@@ -59,6 +70,15 @@ class AndSpecification<T> extends CompositeSpecification<T> {
       this.left.isSatisfiedBy(candidate) && this.right.isSatisfiedBy(candidate)
     );
   }
+
+  toCriteria(): Criteria<CriterionOf<T>> | null {
+    const left = this.left.toCriteria();
+    const right = this.right.toCriteria();
+
+    if (left === null || right === null) return null;
+
+    return { kind: "and", operands: [left, right] };
+  }
 }
 
 /**
@@ -72,6 +92,14 @@ class NotSpecification<T> extends CompositeSpecification<T> {
   isSatisfiedBy(candidate: T): boolean {
     return !this.spec.isSatisfiedBy(candidate);
   }
+
+  toCriteria(): Criteria<CriterionOf<T>> | null {
+    const operand = this.spec.toCriteria();
+
+    if (operand === null) return null;
+
+    return { kind: "not", operand };
+  }
 }
 
 /**
@@ -90,4 +118,13 @@ class OrSpecification<T> extends CompositeSpecification<T> {
       this.left.isSatisfiedBy(candidate) || this.right.isSatisfiedBy(candidate)
     );
   }
+
+  toCriteria(): Criteria<CriterionOf<T>> | null {
+    const left = this.left.toCriteria();
+    const right = this.right.toCriteria();
+
+    if (left === null || right === null) return null;
+
+    return { kind: "or", operands: [left, right] };
+  }
 }
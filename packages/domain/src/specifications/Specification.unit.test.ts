@@ -0,0 +1,86 @@
+import {
+  CategoryName,
+  DateTime,
+  makeId,
+  Tag,
+  TimeRange,
+} from "../valueObjects";
+import {
+  ActiveSessionSpec,
+  ArchivedCategorySpec,
+  CategoryNameEqualsSpec,
+  CategoryNameMatchesSpec,
+  LongSessionSpec,
+  PausedSessionSpec,
+  SessionForCategorySpec,
+  SessionHasTagSpec,
+  SessionOverlapsRangeSpec,
+  StoppedSessionSpec,
+} from "./index";
+
+describe("Specification", () => {
+  const focus = Tag.create("focus");
+  const range = TimeRange.create(DateTime.create(0), DateTime.create(1000));
+
+  describe("toCriteria", () => {
+    it("should translate leaf specifications", () => {
+      expect(new ActiveSessionSpec().toCriteria()).toEqual({
+        kind: "state",
+        state: "active",
+      });
+      expect(new LongSessionSpec(60_000).toCriteria()).toEqual({
+        kind: "durationAtLeast",
+        ms: 60_000,
+      });
+      expect(new SessionOverlapsRangeSpec(range).toCriteria()).toEqual({
+        kind: "overlaps",
+        range,
+      });
+    });
+
+    it("should translate category names by their normalized key", () => {
+      const spec = new CategoryNameEqualsSpec(CategoryName.create("Work"));
+
+      expect(spec.toCriteria()).toEqual({ kind: "nameKey", key: "work" });
+      expect(new ArchivedCategorySpec().not().toCriteria()).toEqual({
+        kind: "not",
+        operand: { kind: "archived" },
+      });
+    });
+
+    it("should compose and, or and not", () => {
+      const categoryId = makeId();
+      const spec = new SessionForCategorySpec(categoryId).and(
+        new ActiveSessionSpec().or(new PausedSessionSpec()).not(),
+      );
+
+      expect(spec.toCriteria()).toEqual({
+        kind: "and",
+        operands: [
+          { kind: "category", categoryId },
+          {
+            kind: "not",
+            operand: {
+              kind: "or",
+              operands: [
+                { kind: "state", state: "active" },
+                { kind: "state", state: "paused" },
+              ],
+            },
+          },
+        ],
+      });
+    });
+
+    it("should return null when any operand is not translatable", () => {
+      expect(new SessionHasTagSpec(focus).toCriteria()).toBeNull();
+      expect(
+        new StoppedSessionSpec().and(new SessionHasTagSpec(focus)).toCriteria(),
+      ).toBeNull();
+      expect(
+        new SessionHasTagSpec(focus).or(new StoppedSessionSpec()).toCriteria(),
+      ).toBeNull();
+      expect(new CategoryNameMatchesSpec("wo").not().toCriteria()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import type { Category } from "../../aggregate";
+import type { CategoryCriterion, Criteria } from "../Criteria";
+
+import { CompositeSpecification } from "../Specification";
+
+/**
+ * Specification: Category is archived
+ *
+ * Use case: Hide archived categories from pickers (`.not()`),
+ * list archived categories for restoring
+ */
+export class ArchivedCategorySpec extends CompositeSpecification<Category> {
+  isSatisfiedBy(category: Category): boolean {
+    return category.isArchived;
+  }
+
+  toCriteria(): Criteria<CategoryCriterion> {
+    return { kind: "archived" };
+  }
+}
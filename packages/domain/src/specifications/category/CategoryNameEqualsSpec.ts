@@ -0,0 +1,24 @@
+import type { Category } from "../../aggregate";
+import type { CategoryName } from "../../valueObjects";
+import type { CategoryCriterion, Criteria } from "../Criteria";
+
+import { CompositeSpecification } from "../Specification";
+
+/**
+ * Specification: Category has the same name, ignoring case and Unicode form
+ *
+ * Use case: Keep category names unique on create and rename
+ */
+export class CategoryNameEqualsSpec extends CompositeSpecification<Category> {
+  constructor(private readonly name: CategoryName) {
+    super();
+  }
+
+  isSatisfiedBy(category: Category): boolean {
+    return category.name.key === this.name.key;
+  }
+
+  toCriteria(): Criteria<CategoryCriterion> {
+    return { kind: "nameKey", key: this.name.key };
+  }
+}
@@ -1,7 +1,18 @@
 // Base specification
 export { type Specification, CompositeSpecification } from "./Specification";
 
+export type {
+  CategoryCriterion,
+  Criteria,
+  CriterionOf,
+  SessionCriterion,
+} from "./Criteria";
+
 // Category specifications
+export { ArchivedCategorySpec } from "./category/ArchivedCategorySpec";
+
+export { CategoryNameEqualsSpec } from "./category/CategoryNameEqualsSpec";
+
 export { CategoryNameMatchesSpec } from "./category/CategoryNameMatchesSpec";
 
 // SessionSegment specifications
@@ -24,6 +35,10 @@ export { StoppedSessionSpec } from "./session/StoppedSessionSpec";
 
 export { SessionForCategorySpec } from "./session/SessionForCategorySpec";
 
+export { SessionHasTagSpec } from "./session/SessionHasTagSpec";
+
+export { SessionNoteMatchesSpec } from "./session/SessionNoteMatchesSpec";
+
 export { SessionCreatedInRangeSpec } from "./session/SessionCreatedInRangeSpec";
 
 export { LongSessionSpec } from "./session/LongSessionSpec";
@@ -31,3 +46,5 @@ export { LongSessionSpec } from "./session/LongSessionSpec";
 export { SessionWithMultipleSegmentsSpec } from "./session/SessionWithMultipleSegmentsSpec";
 
 export { SessionStoppedInRangeSpec } from "./session/SessionStoppedInRangeSpec";
+
+export { SessionOverlapsRangeSpec } from "./session/SessionOverlapsRangeSpec";
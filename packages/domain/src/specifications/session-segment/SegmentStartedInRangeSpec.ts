@@ -1,29 +1,22 @@
-import type { DateTime } from "../../valueObjects";
+import type { TimeRange } from "../../valueObjects";
 
 import { SessionSegment } from "../../entities";
 import { CompositeSpecification } from "../Specification";
 
 /**
- * Specification: Segment started within a date range
+ * Specification: Segment started within a time range
  *
  * Use case: Filter segments for reports (today, this week, this month),
  * time-based analytics
  *
- * @param startDate - Start of the date range (inclusive)
- * @param endDate - End of the date range (inclusive)
+ * @param range - Half-open time range, e.g. today's start to tomorrow's start
  */
 export class SegmentStartedInRangeSpec extends CompositeSpecification<SessionSegment> {
-  constructor(
-    private readonly startDate: DateTime,
-    private readonly endDate: DateTime,
-  ) {
+  constructor(private readonly range: TimeRange) {
     super();
   }
 
   isSatisfiedBy(segment: SessionSegment): boolean {
-    return (
-      segment.startedAt.isSameOrAfter(this.startDate) &&
-      segment.startedAt.isSameOrBefore(this.endDate)
-    );
+    return this.range.contains(segment.startedAt);
   }
 }
@@ -1,3 +1,5 @@
+import type { Criteria, SessionCriterion } from "../Criteria";
+
 import { Session } from "../../aggregate";
 import { CompositeSpecification } from "../Specification";
 
@@ -11,4 +13,8 @@ export class ActiveSessionSpec extends CompositeSpecification<Session> {
   isSatisfiedBy(session: Session): boolean {
     return session.state === "active";
   }
+
+  toCriteria(): Criteria<SessionCriterion> {
+    return { kind: "state", state: "active" };
+  }
 }
@@ -1,3 +1,5 @@
+import type { Criteria, SessionCriterion } from "../Criteria";
+
 import { Session } from "../../aggregate";
 import { CompositeSpecification } from "../Specification";
 
@@ -19,4 +21,8 @@ export class LongSessionSpec extends CompositeSpecification<Session> {
 
     return duration !== null && duration >= this.minimumDurationMs;
   }
+
+  toCriteria(): Criteria<SessionCriterion> {
+    return { kind: "durationAtLeast", ms: this.minimumDurationMs };
+  }
 }
@@ -1,3 +1,5 @@
+import type { Criteria, SessionCriterion } from "../Criteria";
+
 import { Session } from "../../aggregate";
 import { CompositeSpecification } from "../Specification";
 
@@ -11,4 +13,8 @@ export class PausedSessionSpec extends CompositeSpecification<Session> {
   isSatisfiedBy(session: Session): boolean {
     return session.state === "paused";
   }
+
+  toCriteria(): Criteria<SessionCriterion> {
+    return { kind: "state", state: "paused" };
+  }
 }
@@ -1,29 +1,27 @@
-import type { DateTime } from "../../valueObjects";
+import type { TimeRange } from "../../valueObjects";
+import type { Criteria, SessionCriterion } from "../Criteria";
 
 import { Session } from "../../aggregate";
 import { CompositeSpecification } from "../Specification";
 
 /**
- * Specification: Session created within a date range
+ * Specification: Session created within a time range
  *
  * Use case: Daily/weekly/monthly reports, "Sessions created today",
  * "Sessions from last week", time-based analytics
  *
- * @param startDate - Start of the date range (inclusive)
- * @param endDate - End of the date range (inclusive)
+ * @param range - Half-open time range, e.g. today's start to tomorrow's start
  */
 export class SessionCreatedInRangeSpec extends CompositeSpecification<Session> {
-  constructor(
-    private readonly startDate: DateTime,
-    private readonly endDate: DateTime,
-  ) {
+  constructor(private readonly range: TimeRange) {
     super();
   }
 
   isSatisfiedBy(session: Session): boolean {
-    return (
-      session.createdAt.isSameOrAfter(this.startDate) &&
-      session.createdAt.isSameOrBefore(this.endDate)
-    );
+    return this.range.contains(session.createdAt);
+  }
+
+  toCriteria(): Criteria<SessionCriterion> {
+    return { kind: "createdIn", range: this.range };
   }
 }
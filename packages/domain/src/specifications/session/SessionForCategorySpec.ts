@@ -1,4 +1,5 @@
 import type { ULID } from "../../valueObjects";
+import type { Criteria, SessionCriterion } from "../Criteria";
 
 import { Session } from "../../aggregate";
 import { CompositeSpecification } from "../Specification";
@@ -19,4 +20,8 @@ export class SessionForCategorySpec extends CompositeSpecification<Session> {
   isSatisfiedBy(session: Session): boolean {
     return session.categoryId === this.categoryId;
   }
+
+  toCriteria(): Criteria<SessionCriterion> {
+    return { kind: "category", categoryId: this.categoryId };
+  }
 }
@@ -0,0 +1,22 @@
+import type { Tag } from "../../valueObjects";
+
+import { Session } from "../../aggregate";
+import { CompositeSpecification } from "../Specification";
+
+/**
+ * Specification: Session is labelled with a tag (case-insensitive)
+ *
+ * Use case: "Billable work this week", time spent on a ticket,
+ * combined with category or date range specs
+ *
+ * @param tag - Tag to look for
+ */
+export class SessionHasTagSpec extends CompositeSpecification<Session> {
+  constructor(private readonly tag: Tag) {
+    super();
+  }
+
+  isSatisfiedBy(session: Session): boolean {
+    return session.hasTag(this.tag);
+  }
+}
@@ -0,0 +1,35 @@
+import { invariant, isNotNil } from "es-toolkit";
+
+import { Session } from "../../aggregate";
+import { ValidationDomainError } from "../../errors";
+import { CompositeSpecification } from "../Specification";
+
+/**
+ * Specification: Session note or any of its segment notes contains a text
+ * (case-insensitive)
+ *
+ * Use case: "What did I do on the login bug?", searching history,
+ * combined with category, tag or date range specs
+ *
+ * @param text - Text to search for
+ */
+export class SessionNoteMatchesSpec extends CompositeSpecification<Session> {
+  private readonly text: string;
+
+  constructor(text: string) {
+    super();
+    invariant(
+      text.trim().length > 0,
+      new ValidationDomainError("search text must not be empty"),
+    );
+    this.text = text.trim();
+  }
+
+  isSatisfiedBy(session: Session): boolean {
+    const segments = [...session.history, session.activeSegment];
+
+    return [session.note, ...segments.map((segment) => segment?.note)]
+      .filter(isNotNil)
+      .some((note) => note.contains(this.text));
+  }
+}
@@ -0,0 +1,42 @@
+import type { Criteria, SessionCriterion } from "../Criteria";
+
+import { Session } from "../../aggregate";
+import { TimeRange } from "../../valueObjects";
+import { CompositeSpecification } from "../Specification";
+
+/**
+ * Specification: Session has tracked time inside a time range
+ *
+ * Use case: Detect sessions covering the same wall-clock time,
+ * find sessions touching a report period, including sessions that
+ * start before it or end after it
+ *
+ * An active segment is treated as open-ended.
+ *
+ * @param range - Half-open time range
+ */
+export class SessionOverlapsRangeSpec extends CompositeSpecification<Session> {
+  constructor(private readonly range: TimeRange) {
+    super();
+  }
+
+  isSatisfiedBy(session: Session): boolean {
+    const segments = [...session.history];
+
+    if (session.activeSegment) {
+      segments.push(session.activeSegment);
+    }
+
+    return segments.some((segment) =>
+      segment.stoppedAt === null
+        ? segment.startedAt.isBefore(this.range.end)
+        : this.range.overlaps(
+            TimeRange.create(segment.startedAt, segment.stoppedAt),
+          ),
+    );
+  }
+
+  toCriteria(): Criteria<SessionCriterion> {
+    return { kind: "overlaps", range: this.range };
+  }
+}
@@ -1,22 +1,19 @@
-import type { DateTime } from "../../valueObjects";
+import type { TimeRange } from "../../valueObjects";
+import type { Criteria, SessionCriterion } from "../Criteria";
 
 import { Session } from "../../aggregate";
 import { CompositeSpecification } from "../Specification";
 
 /**
- * Specification: Session stopped (completed) within a date range
+ * Specification: Session stopped (completed) within a time range
  *
  * Use case: "Sessions completed today", "Sessions finished this week",
  * completion time analytics
  *
- * @param startDate - Start of the date range (inclusive)
- * @param endDate - End of the date range (inclusive)
+ * @param range - Half-open time range, e.g. today's start to tomorrow's start
  */
 export class SessionStoppedInRangeSpec extends CompositeSpecification<Session> {
-  constructor(
-    private readonly startDate: DateTime,
-    private readonly endDate: DateTime,
-  ) {
+  constructor(private readonly range: TimeRange) {
     super();
   }
 
@@ -25,9 +22,10 @@ export class SessionStoppedInRangeSpec extends CompositeSpecification<Session> {
       return false;
     }
 
-    return (
-      session.stoppedAt.isSameOrAfter(this.startDate) &&
-      session.stoppedAt.isSameOrBefore(this.endDate)
-    );
+    return this.range.contains(session.stoppedAt);
+  }
+
+  toCriteria(): Criteria<SessionCriterion> {
+    return { kind: "stoppedIn", range: this.range };
   }
 }
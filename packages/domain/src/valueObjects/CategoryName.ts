@@ -2,12 +2,24 @@ import { invariant, isString } from "es-toolkit";
 
 import { ValidationDomainError } from "../errors";
 
+/**
+ * Names are unique per user regardless of case and Unicode form,
+ * "Work", "work " and "ＷＯＲＫ" name the same category.
+ */
 export class CategoryName {
   static MAX_LENGTH = 255;
   static MIN_LENGTH = 1;
 
   private constructor(public readonly value: string) {}
 
+  /**
+   * Normalized form for uniqueness checks: NFKC, then case-folded.
+   * Upper-casing first folds "ß" and "ς" like their capital forms.
+   */
+  get key(): string {
+    return this.value.normalize("NFKC").toUpperCase().toLowerCase();
+  }
+
   static create(value: string): CategoryName {
     invariant(
       isString(value),
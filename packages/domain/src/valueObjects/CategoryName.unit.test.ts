@@ -51,4 +51,28 @@ describe("CategoryName", () => {
       expect(name1.equals(name3)).toBe(false);
     });
   });
+  describe("key", () => {
+    it("should ignore case and surrounding whitespace", () => {
+      expect(CategoryName.create("Work").key).toBe(
+        CategoryName.create("work ").key,
+      );
+    });
+    it("should ignore Unicode form", () => {
+      // full-width letters and a decomposed "é"
+      expect(CategoryName.create("ＷＯＲＫ").key).toBe("work");
+      expect(CategoryName.create("Cafe\u0301").key).toBe(
+        CategoryName.create("Café").key,
+      );
+    });
+    it("should fold special cases", () => {
+      expect(CategoryName.create("Straße").key).toBe(
+        CategoryName.create("STRASSE").key,
+      );
+    });
+    it("should keep distinct names apart", () => {
+      expect(CategoryName.create("Work").key).not.toBe(
+        CategoryName.create("Workout").key,
+      );
+    });
+  });
 });
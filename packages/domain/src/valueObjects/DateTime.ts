@@ -1,24 +1,45 @@
 import { invariant } from "es-toolkit";
 
 import { ValidationDomainError } from "../errors";
+import {
+  assertTimeZone,
+  assertWeekday,
+  daysInMonth,
+  fromWallClock,
+  offsetAt,
+  toWallClock,
+  wallClockToEpoch,
+} from "./timeZone";
+
+/**
+ * Local calendar settings: an IANA time zone (default "UTC") and the first
+ * day of the week, 0 (Sunday) to 6 (Saturday), default 1 (Monday).
+ */
+export type CalendarOptions = {
+  timeZone?: string;
+  weekStartsOn?: number;
+};
+
+export type CalendarUnit = "day" | "week" | "month";
 
 export type Diff = {
   value: number;
   unit: Unit;
 };
 
-export type Unit =
-  | "ms"
-  | "second"
-  | "minute"
-  | "hour"
-  | "day"
-  | "week"
-  | "month"
-  | "year";
+/**
+ * Units with a fixed length in milliseconds
+ */
+export type FixedUnit = "ms" | "second" | "minute" | "hour" | "day" | "week";
+
+export type Unit = FixedUnit | "month" | "year";
 
 type TimeStamp = number;
 
+// 2024-03-10, 2024-03-10T09:30, 2024-03-10T09:30:15.250+01:00, ...Z
+const ISO_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
 export class DateTime {
   private constructor(private readonly timestamp: TimeStamp) {}
 
@@ -35,7 +56,54 @@ export class DateTime {
     return new DateTime(timestamp);
   }
 
-  static unitToMs(unit: Unit): number {
+  /**
+   * Parse an ISO-8601 date or date-time. Without an offset the local time
+   * is read in the given time zone.
+   */
+  static parse(iso: string, timeZone = "UTC"): DateTime {
+    const match = ISO_PATTERN.exec(iso.trim());
+
+    invariant(match, new ValidationDomainError(`Invalid ISO date: "${iso}"`));
+
+    const [, year, month, day, hour, minute, second, fraction, offset] = match;
+    const fields = {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour ?? 0),
+      minute: Number(minute ?? 0),
+      second: Number(second ?? 0),
+      millisecond: Number((fraction ?? "0").padEnd(3, "0")),
+    };
+
+    invariant(
+      fields.month >= 1 &&
+        fields.month <= 12 &&
+        fields.day >= 1 &&
+        fields.day <= daysInMonth(fields.year, fields.month) &&
+        fields.hour <= 23 &&
+        fields.minute <= 59 &&
+        fields.second <= 59,
+      new ValidationDomainError(`Invalid ISO date: "${iso}"`),
+    );
+
+    if (offset === undefined) {
+      assertTimeZone(timeZone);
+
+      return new DateTime(fromWallClock(fields, timeZone));
+    }
+
+    const offsetMs =
+      offset === "Z"
+        ? 0
+        : (offset.startsWith("-") ? -1 : 1) *
+          (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(-2))) *
+          DateTime.unitToMs("minute");
+
+    return new DateTime(wallClockToEpoch(fields) - offsetMs);
+  }
+
+  static unitToMs(unit: FixedUnit): number {
     switch (unit) {
       case "ms":
         return 1;
@@ -49,29 +117,57 @@ export class DateTime {
         return 24 * 60 * 60 * 1000;
       case "week":
         return 7 * 24 * 60 * 60 * 1000;
-      case "month":
-        return 30 * 24 * 60 * 60 * 1000;
-      case "year":
-        return 365 * 24 * 60 * 60 * 1000;
     }
   }
 
-  add(amount: number, unit: Unit = "ms"): DateTime {
-    return new DateTime(this.timestamp + amount * DateTime.unitToMs(unit));
+  /**
+   * Days, weeks, months and years are calendar units: they keep the local
+   * time of day in the time zone across DST changes, and month ends are
+   * clamped (Jan 31 + 1 month = Feb 28/29). Fractional days and weeks are
+   * treated as fixed 24h days.
+   */
+  add(amount: number, unit: Unit = "ms", timeZone = "UTC"): DateTime {
+    switch (unit) {
+      case "month":
+      case "year":
+        invariant(
+          Number.isInteger(amount),
+          new ValidationDomainError("Months and years must be whole numbers"),
+        );
+
+        return this.addMonths(unit === "year" ? amount * 12 : amount, timeZone);
+      case "day":
+      case "week":
+        if (Number.isInteger(amount)) {
+          return this.addDays(unit === "week" ? amount * 7 : amount, timeZone);
+        }
+
+        return new DateTime(this.timestamp + amount * DateTime.unitToMs(unit));
+      default:
+        return new DateTime(this.timestamp + amount * DateTime.unitToMs(unit));
+    }
   }
 
   clone(): DateTime {
     return new DateTime(this.timestamp);
   }
 
-  diff(other: DateTime, unit: Unit = "ms"): Diff {
-    const diffMs = this.timestamp - other.timestamp;
-    // const value = diffMs / DateTime.unitToMs(unit);
+  /**
+   * Whole units from `other` to this instant, truncated towards zero.
+   * Days and longer are counted on the calendar of the time zone, so the
+   * 23-hour day of a DST change still counts as one day.
+   */
+  diff(other: DateTime, unit: Unit = "ms", timeZone = "UTC"): Diff {
+    return { value: this.diffIn(other, unit, timeZone), unit };
+  }
 
-    return {
-      value: diffMs,
-      unit,
-    };
+  /**
+   * Last millisecond of the local day, week or month containing this instant
+   */
+  endOf(unit: CalendarUnit, options: CalendarOptions = {}): DateTime {
+    return this.startOf(unit, options)
+      .add(1, unit, options.timeZone)
+      .subtract(1);
   }
 
   isAfter(other: DateTime): boolean {
@@ -82,6 +178,10 @@ export class DateTime {
     return this.timestamp < other.timestamp;
   }
 
+  /**
+   * Strictly between the two instants, in either order
+   * @deprecated use TimeRange#contains, which includes the start
+   */
   isBetween(other: DateTime, other2: DateTime): boolean {
     return (
       (this.isAfter(other) && this.isBefore(other2)) ||
@@ -101,6 +201,10 @@ export class DateTime {
     return this.timestamp <= other.timestamp;
   }
 
+  /**
+   * Between the two instants or equal to one of them, in either order
+   * @deprecated use TimeRange#contains, which excludes the end
+   */
   isSameOrBetween(other: DateTime, other2: DateTime): boolean {
     return (
       (this.isSameOrAfter(other) && this.isSameOrBefore(other2)) ||
@@ -108,11 +212,132 @@ export class DateTime {
     );
   }
 
-  subtract(amount: number, unit: Unit = "ms"): DateTime {
-    return new DateTime(this.timestamp - amount * DateTime.unitToMs(unit));
+  /**
+   * First millisecond of the local day, week or month containing this instant
+   */
+  startOf(unit: CalendarUnit, options: CalendarOptions = {}): DateTime {
+    const { timeZone = "UTC", weekStartsOn = 1 } = options;
+
+    assertWeekday(weekStartsOn);
+
+    const local = toWallClock(this.timestamp, timeZone);
+    const day =
+      unit === "month"
+        ? 1
+        : unit === "week"
+          ? local.day - ((local.weekday - weekStartsOn + 7) % 7)
+          : local.day;
+
+    return new DateTime(
+      fromWallClock(
+        {
+          year: local.year,
+          month: local.month,
+          day,
+          hour: 0,
+          minute: 0,
+          second: 0,
+          millisecond: 0,
+        },
+        timeZone,
+      ),
+    );
+  }
+
+  subtract(amount: number, unit: Unit = "ms", timeZone = "UTC"): DateTime {
+    return this.add(-amount, unit, timeZone);
+  }
+
+  /**
+   * ISO-8601 with milliseconds and the local offset ("Z" when it is zero),
+   * e.g. 2024-03-10T10:00:00.000+01:00
+   */
+  toISOString(timeZone = "UTC"): string {
+    const local = toWallClock(this.timestamp, timeZone);
+    const offsetMinutes = offsetAt(this.timestamp, timeZone) / 60000;
+    const absMinutes = Math.abs(offsetMinutes);
+    const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+    const sign = offsetMinutes < 0 ? "-" : "+";
+    const offset =
+      offsetMinutes === 0
+        ? "Z"
+        : `${sign}${pad(Math.floor(absMinutes / 60))}:${pad(absMinutes % 60)}`;
+
+    return (
+      `${pad(local.year, 4)}-${pad(local.month)}-${pad(local.day)}` +
+      `T${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}` +
+      `.${pad(local.millisecond, 3)}${offset}`
+    );
   }
 
   toJSON() {
     return String(this.timestamp);
   }
+
+  private addDays(days: number, timeZone: string): DateTime {
+    const local = toWallClock(this.timestamp, timeZone);
+
+    return new DateTime(
+      fromWallClock({ ...local, day: local.day + days }, timeZone),
+    );
+  }
+
+  private addMonths(months: number, timeZone: string): DateTime {
+    const local = toWallClock(this.timestamp, timeZone);
+    const monthIndex = local.month - 1 + months;
+    const year = local.year + Math.floor(monthIndex / 12);
+    const month = (((monthIndex % 12) + 12) % 12) + 1;
+
+    return new DateTime(
+      fromWallClock(
+        {
+          ...local,
+          year,
+          month,
+          day: Math.min(local.day, daysInMonth(year, month)),
+        },
+        timeZone,
+      ),
+    );
+  }
+
+  private diffIn(other: DateTime, unit: Unit, timeZone: string): number {
+    switch (unit) {
+      case "month":
+      case "year": {
+        const months = this.monthsSince(other, timeZone);
+
+        return unit === "year" ? Math.trunc(months / 12) : months;
+      }
+      case "day":
+      case "week": {
+        const wallClockMs =
+          wallClockToEpoch(toWallClock(this.timestamp, timeZone)) -
+          wallClockToEpoch(toWallClock(other.timestamp, timeZone));
+
+        return Math.trunc(wallClockMs / DateTime.unitToMs(unit)) || 0;
+      }
+      default:
+        return (
+          Math.trunc(
+            (this.timestamp - other.timestamp) / DateTime.unitToMs(unit),
+          ) || 0
+        );
+    }
+  }
+
+  private monthsSince(other: DateTime, timeZone: string): number {
+    const from = toWallClock(other.timestamp, timeZone);
+    const to = toWallClock(this.timestamp, timeZone);
+
+    let months = (to.year - from.year) * 12 + (to.month - from.month);
+
+    const anchor = other.add(months, "month", timeZone);
+
+    if (months > 0 && anchor.isAfter(this)) months -= 1;
+
+    if (months < 0 && anchor.isBefore(this)) months += 1;
+
+    return months;
+  }
 }
@@ -1,5 +1,11 @@
+import { ValidationDomainError } from "../errors";
 import { DateTime } from "./DateTime";
 
+const HOUR = 60 * 60 * 1000;
+const BERLIN = "Europe/Berlin";
+const NEW_YORK = "America/New_York";
+const TOKYO = "Asia/Tokyo";
+
 describe("DateTime", () => {
   describe("create", () => {
     it("should create a DateTime from timestamp", () => {
@@ -24,8 +30,6 @@ describe("DateTime", () => {
       expect(DateTime.unitToMs("hour")).toBe(60 * 60 * 1000);
       expect(DateTime.unitToMs("day")).toBe(24 * 60 * 60 * 1000);
       expect(DateTime.unitToMs("week")).toBe(7 * 24 * 60 * 60 * 1000);
-      expect(DateTime.unitToMs("month")).toBe(30 * 24 * 60 * 60 * 1000);
-      expect(DateTime.unitToMs("year")).toBe(365 * 24 * 60 * 60 * 1000);
     });
   });
 
@@ -177,7 +181,7 @@ describe("DateTime", () => {
   });
 
   describe("diff", () => {
-    it("should return  the difference in milliseconds", () => {
+    it("should return the difference in milliseconds", () => {
       const dt1 = DateTime.create(0);
       const dt2 = DateTime.create(2000);
       const diff = dt1.diff(dt2);
@@ -186,67 +190,72 @@ describe("DateTime", () => {
       expect(diff.unit).toBe("ms");
     });
 
-    it("should return the difference in seconds", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = DateTime.create(DateTime.unitToMs("second") * 10);
-      const diff = dt1.diff(dt2, "second");
-
-      expect(diff.value).toBe(-10 * DateTime.unitToMs("second"));
-      expect(diff.unit).toBe("second");
-    });
-
-    it("should return the difference in minutes", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = DateTime.create(DateTime.unitToMs("minute") * 10);
-      const diff = dt1.diff(dt2, "minute");
-
-      expect(diff.value).toBe(-10 * DateTime.unitToMs("minute"));
-      expect(diff.unit).toBe("minute");
-    });
-
-    it("should return the difference in hours", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = DateTime.create(DateTime.unitToMs("hour") * 10);
-      const diff = dt1.diff(dt2, "hour");
-
-      expect(diff.value).toBe(-10 * DateTime.unitToMs("hour"));
-      expect(diff.unit).toBe("hour");
-    });
-
-    it("should return the difference in days", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = DateTime.create(DateTime.unitToMs("day") * 10);
-      const diff = dt1.diff(dt2, "day");
-
-      expect(diff.value).toBe(-10 * DateTime.unitToMs("day"));
-      expect(diff.unit).toBe("day");
-    });
-
-    it("should return the difference in weeks", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = DateTime.create(DateTime.unitToMs("week") * 10);
-      const diff = dt1.diff(dt2, "week");
-
-      expect(diff.value).toBe(-10 * DateTime.unitToMs("week"));
-      expect(diff.unit).toBe("week");
-    });
-
-    it("should return the difference in months", () => {
+    it.each([
+      ["second", 10],
+      ["minute", 10],
+      ["hour", 10],
+      ["day", 10],
+      ["week", 10],
+    ] as const)("should return the difference in %ss", (unit, amount) => {
       const dt1 = DateTime.create(0);
-      const dt2 = DateTime.create(DateTime.unitToMs("month") * 10);
-      const diff = dt1.diff(dt2, "month");
+      const dt2 = DateTime.create(DateTime.unitToMs(unit) * amount);
 
-      expect(diff.value).toBe(-10 * DateTime.unitToMs("month"));
-      expect(diff.unit).toBe("month");
+      expect(dt1.diff(dt2, unit)).toEqual({ value: -amount, unit });
+      expect(dt2.diff(dt1, unit)).toEqual({ value: amount, unit });
     });
 
-    it("should return the difference in years", () => {
+    it("should count whole units only", () => {
       const dt1 = DateTime.create(0);
-      const dt2 = DateTime.create(DateTime.unitToMs("year") * 10);
-      const diff = dt1.diff(dt2, "year");
-
-      expect(diff.value).toBe(-10 * DateTime.unitToMs("year"));
-      expect(diff.unit).toBe("year");
+      const dt2 = dt1.add(90, "minute");
+
+      expect(dt2.diff(dt1, "hour").value).toBe(1);
+      expect(dt1.diff(dt2, "hour").value).toBe(-1);
+      expect(dt2.diff(dt1, "day").value).toBe(0);
+    });
+
+    it("should return the difference in calendar months", () => {
+      // consistent with add: Jan 31 + 1 month is Feb 29
+      const jan31 = DateTime.parse("2024-01-31T12:00:00Z");
+
+      expect(
+        DateTime.parse("2024-02-28T12:00:00Z").diff(jan31, "month").value,
+      ).toBe(0);
+      expect(
+        DateTime.parse("2024-02-29T12:00:00Z").diff(jan31, "month").value,
+      ).toBe(1);
+      expect(
+        DateTime.parse("2024-03-31T12:00:00Z").diff(jan31, "month").value,
+      ).toBe(2);
+      expect(
+        DateTime.parse("2024-03-31T11:59:59Z").diff(jan31, "month").value,
+      ).toBe(1);
+      expect(
+        jan31.diff(DateTime.parse("2024-03-31T12:00:00Z"), "month").value,
+      ).toBe(-2);
+    });
+
+    it("should return the difference in calendar years", () => {
+      const leapDay = DateTime.parse("2024-02-29T00:00:00Z");
+
+      expect(
+        DateTime.parse("2025-02-28T00:00:00Z").diff(leapDay, "year").value,
+      ).toBe(1);
+      expect(
+        DateTime.parse("2034-03-01T00:00:00Z").diff(leapDay, "year").value,
+      ).toBe(10);
+      expect(
+        leapDay.diff(DateTime.parse("2021-03-01T00:00:00Z"), "year").value,
+      ).toBe(2);
+    });
+
+    it("should count a DST day as one calendar day", () => {
+      // Europe/Berlin springs forward on 2024-03-31, the day has 23 hours
+      const before = DateTime.parse("2024-03-30T12:00", BERLIN);
+      const after = DateTime.parse("2024-03-31T12:00", BERLIN);
+
+      expect(after.diff(before, "hour").value).toBe(23);
+      expect(after.diff(before, "day", BERLIN).value).toBe(1);
+      expect(after.diff(before, "day").value).toBe(0);
     });
   });
 
@@ -258,53 +267,67 @@ describe("DateTime", () => {
       expect(dt2.value).toBe(500);
     });
 
-    it("should add the specified amount of time in seconds", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.add(5, "second");
+    it.each(["second", "minute", "hour", "day", "week"] as const)(
+      "should add the specified amount of time in %ss",
+      (unit) => {
+        const dt1 = DateTime.create(0);
+        const dt2 = dt1.add(5, unit);
 
-      expect(dt2.value).toBe(5 * DateTime.unitToMs("second"));
-    });
+        expect(dt2.value).toBe(5 * DateTime.unitToMs(unit));
+      },
+    );
 
-    it("should add the specified amount of time in minutes", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.add(5, "minute");
-
-      expect(dt2.value).toBe(5 * DateTime.unitToMs("minute"));
-    });
+    it("should add calendar months, clamping to the end of the month", () => {
+      const jan31 = DateTime.parse("2024-01-31T10:00:00Z");
 
-    it("should add the specified amount of time in hours", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.add(5, "hour");
-
-      expect(dt2.value).toBe(5 * DateTime.unitToMs("hour"));
+      expect(jan31.add(1, "month").toISOString()).toBe(
+        "2024-02-29T10:00:00.000Z",
+      );
+      expect(jan31.add(2, "month").toISOString()).toBe(
+        "2024-03-31T10:00:00.000Z",
+      );
+      expect(jan31.add(13, "month").toISOString()).toBe(
+        "2025-02-28T10:00:00.000Z",
+      );
     });
 
-    it("should add the specified amount of time in days", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.add(5, "day");
+    it("should add calendar years", () => {
+      const leapDay = DateTime.parse("2024-02-29T10:00:00Z");
 
-      expect(dt2.value).toBe(5 * DateTime.unitToMs("day"));
+      expect(leapDay.add(1, "year").toISOString()).toBe(
+        "2025-02-28T10:00:00.000Z",
+      );
+      expect(leapDay.add(4, "year").toISOString()).toBe(
+        "2028-02-29T10:00:00.000Z",
+      );
     });
 
-    it("should add the specified amount of time in weeks", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.add(5, "week");
-
-      expect(dt2.value).toBe(5 * DateTime.unitToMs("week"));
+    it("should reject fractional months and years", () => {
+      expect(() => DateTime.create(0).add(1.5, "month")).toThrow();
+      expect(() => DateTime.create(0).add(0.5, "year")).toThrow();
     });
 
-    it("should add the specified amount of time in months", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.add(5, "month");
+    it("should keep the local time of day across a DST change", () => {
+      const saturday = DateTime.parse("2024-03-30T09:00", BERLIN);
+      const nextDay = saturday.add(1, "day", BERLIN);
 
-      expect(dt2.value).toBe(5 * DateTime.unitToMs("month"));
+      expect(nextDay.toISOString(BERLIN)).toBe("2024-03-31T09:00:00.000+02:00");
+      expect(nextDay.value - saturday.value).toBe(23 * HOUR);
+      expect(saturday.add(1, "week", BERLIN).toISOString(BERLIN)).toBe(
+        "2024-04-06T09:00:00.000+02:00",
+      );
+      expect(saturday.add(24, "hour").toISOString(BERLIN)).toBe(
+        "2024-03-31T10:00:00.000+02:00",
+      );
     });
 
-    it("should add the specified amount of time in years", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.add(5, "year");
+    it("should add months in the local calendar", () => {
+      // 2024-01-31 23:30 in New York is already February in UTC
+      const lateJan = DateTime.parse("2024-01-31T23:30", NEW_YORK);
 
-      expect(dt2.value).toBe(5 * DateTime.unitToMs("year"));
+      expect(lateJan.add(1, "month", NEW_YORK).toISOString(NEW_YORK)).toBe(
+        "2024-02-29T23:30:00.000-05:00",
+      );
     });
   });
 
@@ -315,47 +338,191 @@ describe("DateTime", () => {
 
       expect(dt2.value).toBe(-500);
     });
-    it("should subtract the specified amount of time in seconds", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.subtract(5, "second");
 
-      expect(dt2.value).toBe(-5 * DateTime.unitToMs("second"));
-    });
-    it("should subtract the specified amount of time in minutes", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.subtract(5, "minute");
+    it.each(["second", "minute", "hour", "day", "week"] as const)(
+      "should subtract the specified amount of time in %ss",
+      (unit) => {
+        const dt1 = DateTime.create(0);
+        const dt2 = dt1.subtract(5, unit);
 
-      expect(dt2.value).toBe(-5 * DateTime.unitToMs("minute"));
-    });
-    it("should subtract the specified amount of time in hours", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.subtract(5, "hour");
+        expect(dt2.value).toBe(-5 * DateTime.unitToMs(unit));
+      },
+    );
 
-      expect(dt2.value).toBe(-5 * DateTime.unitToMs("hour"));
-    });
-    it("should subtract the specified amount of time in days", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.subtract(5, "day");
+    it("should subtract calendar months and years", () => {
+      const march31 = DateTime.parse("2024-03-31T10:00:00Z");
 
-      expect(dt2.value).toBe(-5 * DateTime.unitToMs("day"));
+      expect(march31.subtract(1, "month").toISOString()).toBe(
+        "2024-02-29T10:00:00.000Z",
+      );
+      expect(march31.subtract(5, "year").toISOString()).toBe(
+        "2019-03-31T10:00:00.000Z",
+      );
     });
-    it("should subtract the specified amount of time in weeks", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.subtract(5, "week");
 
-      expect(dt2.value).toBe(-5 * DateTime.unitToMs("week"));
+    it("should keep the local time of day across a DST change", () => {
+      // Europe/Berlin falls back on 2024-10-27, the day has 25 hours
+      const monday = DateTime.parse("2024-10-28T09:00", BERLIN);
+
+      expect(monday.subtract(1, "day", BERLIN).toISOString(BERLIN)).toBe(
+        "2024-10-27T09:00:00.000+01:00",
+      );
+      expect(monday.subtract(2, "day", BERLIN).toISOString(BERLIN)).toBe(
+        "2024-10-26T09:00:00.000+02:00",
+      );
     });
-    it("should subtract the specified amount of time in months", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.subtract(5, "month");
+  });
 
-      expect(dt2.value).toBe(-5 * DateTime.unitToMs("month"));
+  describe("startOf / endOf", () => {
+    const wednesday = DateTime.parse("2024-05-15T13:45:10.500Z");
+
+    it("should return the bounds of the day", () => {
+      expect(wednesday.startOf("day").toISOString()).toBe(
+        "2024-05-15T00:00:00.000Z",
+      );
+      expect(wednesday.endOf("day").toISOString()).toBe(
+        "2024-05-15T23:59:59.999Z",
+      );
+    });
+
+    it("should return the bounds of the week starting on Monday by default", () => {
+      expect(wednesday.startOf("week").toISOString()).toBe(
+        "2024-05-13T00:00:00.000Z",
+      );
+      expect(wednesday.endOf("week").toISOString()).toBe(
+        "2024-05-19T23:59:59.999Z",
+      );
+    });
+
+    it("should honour a configured week start", () => {
+      const sunday = { weekStartsOn: 0 };
+      const saturday = { weekStartsOn: 6 };
+
+      expect(wednesday.startOf("week", sunday).toISOString()).toBe(
+        "2024-05-12T00:00:00.000Z",
+      );
+      expect(wednesday.startOf("week", saturday).toISOString()).toBe(
+        "2024-05-11T00:00:00.000Z",
+      );
+      expect(() => wednesday.startOf("week", { weekStartsOn: 7 })).toThrow();
+    });
+
+    it("should return the bounds of the month", () => {
+      expect(wednesday.startOf("month").toISOString()).toBe(
+        "2024-05-01T00:00:00.000Z",
+      );
+      expect(
+        DateTime.parse("2024-02-10T00:00:00Z").endOf("month").toISOString(),
+      ).toBe("2024-02-29T23:59:59.999Z");
+    });
+
+    it("should use local midnight of the time zone", () => {
+      // 2024-05-15 01:00 in Tokyo is still the 14th in UTC
+      const early = DateTime.parse("2024-05-15T01:00", TOKYO);
+
+      expect(early.startOf("day", { timeZone: TOKYO }).toISOString(TOKYO)).toBe(
+        "2024-05-15T00:00:00.000+09:00",
+      );
+      expect(early.startOf("day").toISOString()).toBe(
+        "2024-05-14T00:00:00.000Z",
+      );
+    });
+
+    it("should span 23 and 25 hours on DST days", () => {
+      const options = { timeZone: BERLIN };
+      const springDay = DateTime.parse("2024-03-31T12:00", BERLIN);
+      const autumnDay = DateTime.parse("2024-10-27T12:00", BERLIN);
+      const lengthOf = (dateTime: DateTime) =>
+        dateTime.endOf("day", options).value -
+        dateTime.startOf("day", options).value +
+        1;
+
+      expect(springDay.startOf("day", options).toISOString(BERLIN)).toBe(
+        "2024-03-31T00:00:00.000+01:00",
+      );
+      expect(springDay.endOf("day", options).toISOString(BERLIN)).toBe(
+        "2024-03-31T23:59:59.999+02:00",
+      );
+      expect(lengthOf(springDay)).toBe(23 * HOUR);
+      expect(lengthOf(autumnDay)).toBe(25 * HOUR);
+    });
+
+    it("should span a DST change within a week", () => {
+      const options = { timeZone: NEW_YORK };
+      // America/New_York springs forward on Sunday 2024-03-10
+      const friday = DateTime.parse("2024-03-08T18:00", NEW_YORK);
+
+      expect(friday.startOf("week", options).toISOString(NEW_YORK)).toBe(
+        "2024-03-04T00:00:00.000-05:00",
+      );
+      expect(friday.endOf("week", options).toISOString(NEW_YORK)).toBe(
+        "2024-03-10T23:59:59.999-04:00",
+      );
+    });
+
+    it("should reject an unknown time zone", () => {
+      expect(() =>
+        wednesday.startOf("day", { timeZone: "Mars/Olympus_Mons" }),
+      ).toThrow(ValidationDomainError);
     });
-    it("should subtract the specified amount of time in years", () => {
-      const dt1 = DateTime.create(0);
-      const dt2 = dt1.subtract(5, "year");
+  });
 
-      expect(dt2.value).toBe(-5 * DateTime.unitToMs("year"));
+  describe("ISO-8601", () => {
+    it("should parse dates and date-times with an offset", () => {
+      expect(DateTime.parse("1970-01-01").value).toBe(0);
+      expect(DateTime.parse("1970-01-01T00:00:01.5Z").value).toBe(1500);
+      expect(DateTime.parse("1970-01-01T02:00:00+02:00").value).toBe(0);
+      expect(DateTime.parse("1969-12-31T19:30-0430").value).toBe(0);
+    });
+
+    it("should read local date-times in the given time zone", () => {
+      expect(DateTime.parse("2024-01-15T10:00", BERLIN).toISOString()).toBe(
+        "2024-01-15T09:00:00.000Z",
+      );
+      expect(DateTime.parse("2024-07-15", BERLIN).toISOString()).toBe(
+        "2024-07-14T22:00:00.000Z",
+      );
+    });
+
+    it("should resolve local times skipped or repeated by DST", () => {
+      // 02:30 does not exist on 2024-03-31 in Berlin and occurs twice on 2024-10-27
+      expect(
+        DateTime.parse("2024-03-31T02:30", BERLIN).toISOString(BERLIN),
+      ).toBe("2024-03-31T03:30:00.000+02:00");
+      expect(
+        DateTime.parse("2024-10-27T02:30", BERLIN).toISOString(BERLIN),
+      ).toBe("2024-10-27T02:30:00.000+02:00");
+    });
+
+    it.each([
+      "",
+      "2024-13-01",
+      "2024-02-30",
+      "2024-01-01T24:00",
+      "2024-01-01 10:00",
+      "15/01/2024",
+    ])("should reject %p", (input) => {
+      expect(() => DateTime.parse(input)).toThrow(ValidationDomainError);
+    });
+
+    it("should format in UTC or with the local offset", () => {
+      const dateTime = DateTime.parse("2024-07-01T08:05:03.007Z");
+
+      expect(dateTime.toISOString()).toBe("2024-07-01T08:05:03.007Z");
+      expect(dateTime.toISOString(NEW_YORK)).toBe(
+        "2024-07-01T04:05:03.007-04:00",
+      );
+      expect(dateTime.toISOString("Asia/Kolkata")).toBe(
+        "2024-07-01T13:35:03.007+05:30",
+      );
+    });
+
+    it("should round-trip through parse", () => {
+      const dateTime = DateTime.create(1700000000123);
+
+      expect(DateTime.parse(dateTime.toISOString(TOKYO)).isSame(dateTime)).toBe(
+        true,
+      );
     });
   });
 
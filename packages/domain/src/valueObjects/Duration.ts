@@ -0,0 +1,161 @@
+import { invariant, isString, sumBy } from "es-toolkit";
+
+import { ValidationDomainError } from "../errors";
+import { DateTime, type FixedUnit } from "./DateTime";
+
+/**
+ * - compact: "25h 30m"
+ * - clock: "25:30:00"
+ * - decimal: "25.5h"
+ */
+export type DurationFormat = "clock" | "compact" | "decimal";
+
+const SECOND = DateTime.unitToMs("second");
+const MINUTE = DateTime.unitToMs("minute");
+const HOUR = DateTime.unitToMs("hour");
+
+// "1:30" or "1:30:15"
+const CLOCK_PATTERN = /^(\d+):([0-5]\d)(?::([0-5]\d))?$/;
+// "1h30m", "1.5h", "90m", "45s", "1h 30m 15s"
+const UNITS_PATTERN =
+  /^(?:(\d+(?:\.\d+)?)h)?\s*(?:(\d+(?:\.\d+)?)m)?\s*(?:(\d+(?:\.\d+)?)s)?$/i;
+
+/**
+ * Non-negative amount of time, stored in milliseconds.
+ */
+export class Duration {
+  private constructor(private readonly ms: number) {}
+
+  get value(): number {
+    return this.ms;
+  }
+
+  /**
+   * Time between two instants, `from` must not be after `to`
+   */
+  static between(from: DateTime, to: DateTime): Duration {
+    return Duration.create(to.value - from.value);
+  }
+
+  static create(ms: number): Duration {
+    invariant(
+      Number.isFinite(ms),
+      new ValidationDomainError("Duration must be a finite number"),
+    );
+    invariant(
+      ms >= 0,
+      new ValidationDomainError("Duration must not be negative"),
+    );
+
+    return new Duration(ms);
+  }
+
+  static of(amount: number, unit: FixedUnit): Duration {
+    return Duration.create(amount * DateTime.unitToMs(unit));
+  }
+
+  /**
+   * Parse user input such as "1h30m", "1h 30m", "90m", "1.5h", "45s",
+   * "1:30" (h:mm) or "1:30:15" (h:mm:ss)
+   */
+  static parse(input: string): Duration {
+    invariant(
+      isString(input),
+      new ValidationDomainError("Duration must be a string"),
+    );
+
+    const text = input.trim();
+    const clock = CLOCK_PATTERN.exec(text);
+
+    if (clock) {
+      const [, hours, minutes, seconds] = clock;
+
+      return Duration.create(
+        Number(hours) * HOUR +
+          Number(minutes) * MINUTE +
+          Number(seconds ?? 0) * SECOND,
+      );
+    }
+
+    const units = UNITS_PATTERN.exec(text);
+
+    invariant(
+      text.length > 0 && units,
+      new ValidationDomainError(`Invalid duration: "${input}"`),
+    );
+
+    const [, hours, minutes, seconds] = units;
+
+    return Duration.create(
+      Math.round(
+        Number(hours ?? 0) * HOUR +
+          Number(minutes ?? 0) * MINUTE +
+          Number(seconds ?? 0) * SECOND,
+      ),
+    );
+  }
+
+  static sum(durations: Duration[]): Duration {
+    return Duration.create(sumBy(durations, (duration) => duration.value));
+  }
+
+  static zero(): Duration {
+    return new Duration(0);
+  }
+
+  add(other: Duration): Duration {
+    return new Duration(this.ms + other.ms);
+  }
+
+  compare(other: Duration): number {
+    return this.ms - other.ms;
+  }
+
+  divide(divisor: number): Duration {
+    invariant(
+      divisor > 0,
+      new ValidationDomainError("Duration divisor must be positive"),
+    );
+
+    return new Duration(Math.round(this.ms / divisor));
+  }
+
+  equals(other: Duration): boolean {
+    return this.ms === other.ms;
+  }
+
+  format(style: DurationFormat = "compact"): string {
+    const hours = Math.floor(this.ms / HOUR);
+    const minutes = Math.floor((this.ms % HOUR) / MINUTE);
+    const seconds = Math.floor((this.ms % MINUTE) / SECOND);
+    const pad = (n: number) => String(n).padStart(2, "0");
+
+    switch (style) {
+      case "clock":
+        return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+      case "compact":
+        return `${hours}h ${minutes}m`;
+      case "decimal":
+        return `${Number((this.ms / HOUR).toFixed(2))}h`;
+    }
+  }
+
+  isLongerThan(other: Duration): boolean {
+    return this.ms > other.ms;
+  }
+
+  isShorterThan(other: Duration): boolean {
+    return this.ms < other.ms;
+  }
+
+  /**
+   * Difference, `other` must not be longer than this duration
+   */
+  subtract(other: Duration): Duration {
+    return Duration.create(this.ms - other.ms);
+  }
+
+  toJSON() {
+    return this.ms;
+  }
+}
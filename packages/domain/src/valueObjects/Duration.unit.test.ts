@@ -0,0 +1,107 @@
+import { DateTime } from "./DateTime";
+import { Duration } from "./Duration";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe("Duration", () => {
+  describe("creation", () => {
+    it("should create a duration from milliseconds", () => {
+      expect(Duration.create(1500).value).toBe(1500);
+      expect(Duration.zero().value).toBe(0);
+    });
+    it("should create a duration from an amount of units", () => {
+      expect(Duration.of(90, "minute").value).toBe(90 * MINUTE);
+    });
+    it("should create a duration between two instants", () => {
+      const from = DateTime.create(1000);
+
+      expect(Duration.between(from, from.add(2, "hour")).value).toBe(2 * HOUR);
+      expect(() => Duration.between(from.add(1), from)).toThrow();
+    });
+    it("should throw an error if the duration is invalid", () => {
+      expect(() => Duration.create(-1)).toThrow();
+      expect(() => Duration.create(Number.NaN)).toThrow();
+      expect(() => Duration.create(Number.POSITIVE_INFINITY)).toThrow();
+    });
+  });
+
+  describe("parsing", () => {
+    it.each([
+      ["1h30m", 90 * MINUTE],
+      ["1h 30m", 90 * MINUTE],
+      ["90m", 90 * MINUTE],
+      ["1.5h", 90 * MINUTE],
+      ["2H", 2 * HOUR],
+      ["45s", 45 * 1000],
+      ["1h 0m 15s", HOUR + 15 * 1000],
+      ["1:30", 90 * MINUTE],
+      ["0:05:30", 5 * MINUTE + 30 * 1000],
+      [" 25:00 ", 25 * HOUR],
+    ])("should parse %p", (input, expected) => {
+      expect(Duration.parse(input).value).toBe(expected);
+    });
+
+    it.each(["", "  ", "90", "1:75", "1h30", "abc", "-1h", "1d"])(
+      "should reject %p",
+      (input) => {
+        expect(() => Duration.parse(input)).toThrow();
+      },
+    );
+  });
+
+  describe("arithmetic", () => {
+    it("should add, subtract and divide", () => {
+      const hour = Duration.of(1, "hour");
+      const half = Duration.of(30, "minute");
+
+      expect(hour.add(half).value).toBe(90 * MINUTE);
+      expect(hour.subtract(half).value).toBe(30 * MINUTE);
+      expect(hour.divide(3).value).toBe(20 * MINUTE);
+      expect(Duration.sum([hour, half, half]).value).toBe(2 * HOUR);
+      expect(Duration.sum([]).value).toBe(0);
+    });
+    it("should not go below zero", () => {
+      expect(() =>
+        Duration.of(1, "minute").subtract(Duration.of(1, "hour")),
+      ).toThrow();
+      expect(() => Duration.of(1, "hour").divide(0)).toThrow();
+    });
+  });
+
+  describe("comparison", () => {
+    it("should compare durations", () => {
+      const hour = Duration.of(1, "hour");
+      const minutes = Duration.of(60, "minute");
+      const half = Duration.of(30, "minute");
+
+      expect(hour.equals(minutes)).toBe(true);
+      expect(hour.isLongerThan(half)).toBe(true);
+      expect(half.isShorterThan(hour)).toBe(true);
+      expect([hour, half].sort((a, b) => a.compare(b))).toEqual([half, hour]);
+    });
+  });
+
+  describe("formatting", () => {
+    const duration = Duration.create(25 * HOUR + 30 * MINUTE + 5 * 1000);
+
+    it("should format compact by default", () => {
+      expect(duration.format()).toBe("25h 30m");
+      expect(Duration.of(1, "hour").format("compact")).toBe("1h 0m");
+    });
+    it("should format as clock", () => {
+      expect(duration.format("clock")).toBe("25:30:05");
+      expect(Duration.of(90, "minute").format("clock")).toBe("01:30:00");
+    });
+    it("should format as decimal hours", () => {
+      expect(Duration.of(90, "minute").format("decimal")).toBe("1.5h");
+      expect(Duration.of(2, "hour").format("decimal")).toBe("2h");
+      expect(Duration.of(20, "minute").format("decimal")).toBe("0.33h");
+    });
+    it("should round-trip through parse", () => {
+      expect(Duration.parse(duration.format("clock")).equals(duration)).toBe(
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { invariant, isString } from "es-toolkit";
+
+import { ValidationDomainError } from "../errors";
+
+/**
+ * Free text about what was done during a session or one of its segments.
+ * Line breaks are kept, surrounding whitespace is trimmed.
+ */
+export class Note {
+  static MAX_LENGTH = 2000;
+
+  private constructor(public readonly value: string) {}
+
+  static create(value: string): Note {
+    invariant(
+      isString(value),
+      new ValidationDomainError("Note must be a string"),
+    );
+
+    const trimmedValue = value.trim();
+
+    invariant(
+      trimmedValue.length > 0,
+      new ValidationDomainError("Note must not be empty"),
+    );
+    invariant(
+      trimmedValue.length <= Note.MAX_LENGTH,
+      new ValidationDomainError(
+        `Note must not be longer than ${Note.MAX_LENGTH} characters`,
+      ),
+    );
+
+    return new Note(trimmedValue);
+  }
+
+  /**
+   * Case-insensitive substring search
+   */
+  contains(text: string): boolean {
+    return this.value.toLowerCase().includes(text.toLowerCase());
+  }
+
+  equals(other: Note): boolean {
+    return this.value === other.value;
+  }
+
+  toJSON() {
+    return this.value;
+  }
+}
@@ -0,0 +1,45 @@
+import { Note } from "./Note";
+
+describe("Note", () => {
+  describe("creation", () => {
+    it("should create a note", () => {
+      const note = Note.create("Reviewed PR #42");
+
+      expect(note.value).toBe("Reviewed PR #42");
+      expect(note instanceof Note).toBe(true);
+    });
+    it("should trim the note and keep inner line breaks", () => {
+      expect(Note.create("  first\nsecond \n").value).toBe("first\nsecond");
+    });
+    it("should throw an error if the note is invalid type", () => {
+      // @ts-expect-error intentionally invalid type
+      expect(() => Note.create(null)).toThrow();
+      // @ts-expect-error intentionally invalid type
+      expect(() => Note.create(123)).toThrow();
+    });
+    it("should throw an error if the note is empty", () => {
+      expect(() => Note.create("")).toThrow();
+      expect(() => Note.create(" \n ")).toThrow();
+    });
+    it("should throw an error if the note is too long", () => {
+      expect(() => Note.create("a".repeat(Note.MAX_LENGTH))).not.toThrow();
+      expect(() => Note.create("a".repeat(Note.MAX_LENGTH + 1))).toThrow();
+    });
+  });
+
+  describe("search", () => {
+    it("should find text case-insensitively", () => {
+      const note = Note.create("Fixed the Login bug");
+
+      expect(note.contains("login")).toBe(true);
+      expect(note.contains("logout")).toBe(false);
+    });
+  });
+
+  describe("equality", () => {
+    it("should compare notes by value", () => {
+      expect(Note.create("a").equals(Note.create("a"))).toBe(true);
+      expect(Note.create("a").equals(Note.create("A"))).toBe(false);
+    });
+  });
+});
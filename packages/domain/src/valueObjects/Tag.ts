@@ -0,0 +1,51 @@
+import { invariant, isString } from "es-toolkit";
+
+import { ValidationDomainError } from "../errors";
+
+/**
+ * Free-form label on a session, e.g. "billable", "deep-work" or "PROJ-123".
+ * Tags are compared case-insensitively and keep the spelling they were created with.
+ */
+export class Tag {
+  static MAX_LENGTH = 50;
+
+  private constructor(public readonly value: string) {}
+
+  get key(): string {
+    return this.value.toLowerCase();
+  }
+
+  static create(value: string): Tag {
+    invariant(
+      isString(value),
+      new ValidationDomainError("Tag must be a string"),
+    );
+
+    const trimmedValue = value.trim();
+
+    invariant(
+      trimmedValue.length > 0,
+      new ValidationDomainError("Tag must not be empty"),
+    );
+    invariant(
+      trimmedValue.length <= Tag.MAX_LENGTH,
+      new ValidationDomainError(
+        `Tag must not be longer than ${Tag.MAX_LENGTH} characters`,
+      ),
+    );
+    invariant(
+      !/\s/.test(trimmedValue),
+      new ValidationDomainError("Tag must not contain whitespace"),
+    );
+
+    return new Tag(trimmedValue);
+  }
+
+  equals(other: Tag): boolean {
+    return this.key === other.key;
+  }
+
+  toJSON() {
+    return this.value;
+  }
+}
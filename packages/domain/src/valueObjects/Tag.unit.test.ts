@@ -0,0 +1,40 @@
+import { Tag } from "./Tag";
+
+describe("Tag", () => {
+  describe("creation", () => {
+    it("should create a tag", () => {
+      const tag = Tag.create("deep-work");
+
+      expect(tag.value).toBe("deep-work");
+      expect(tag instanceof Tag).toBe(true);
+    });
+    it("should trim the tag", () => {
+      expect(Tag.create("  billable ").value).toBe("billable");
+    });
+    it("should throw an error if the tag is invalid type", () => {
+      // @ts-expect-error intentionally invalid type
+      expect(() => Tag.create(null)).toThrow();
+      // @ts-expect-error intentionally invalid type
+      expect(() => Tag.create(123)).toThrow();
+    });
+    it("should throw an error if the tag is empty", () => {
+      expect(() => Tag.create("")).toThrow();
+      expect(() => Tag.create("   ")).toThrow();
+    });
+    it("should throw an error if the tag contains whitespace", () => {
+      expect(() => Tag.create("deep work")).toThrow();
+    });
+    it("should throw an error if the tag is too long", () => {
+      expect(() => Tag.create("a".repeat(Tag.MAX_LENGTH + 1))).toThrow();
+    });
+  });
+
+  describe("equality", () => {
+    it("should compare tags case-insensitively", () => {
+      expect(Tag.create("PROJ-123").equals(Tag.create("proj-123"))).toBe(true);
+      expect(Tag.create("billable").equals(Tag.create("deep-work"))).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { invariant, sortBy } from "es-toolkit";
+
+import { ValidationDomainError } from "../errors";
+import { type CalendarOptions, DateTime } from "./DateTime";
+import { Duration } from "./Duration";
+
+/**
+ * Half-open interval of time [start, end): the start instant belongs to the
+ * range, the end instant does not. Ranges that merely touch do not overlap,
+ * so consecutive days or report periods never share an instant.
+ * A range with start equal to end is empty and contains nothing.
+ */
+export class TimeRange {
+  private constructor(
+    public readonly start: DateTime,
+    public readonly end: DateTime,
+  ) {}
+
+  get duration(): Duration {
+    return Duration.between(this.start, this.end);
+  }
+
+  get isEmpty(): boolean {
+    return this.start.isSame(this.end);
+  }
+
+  static create(start: DateTime, end: DateTime): TimeRange {
+    invariant(
+      start instanceof DateTime && end instanceof DateTime,
+      new ValidationDomainError("Time range bounds must be DateTime"),
+    );
+    invariant(
+      start.isSameOrBefore(end),
+      new ValidationDomainError("Time range must not end before it starts"),
+    );
+
+    return new TimeRange(start.clone(), end.clone());
+  }
+
+  /**
+   * Parts of the ranges inside this one, empty parts are dropped
+   */
+  clip(ranges: TimeRange[]): TimeRange[] {
+    return ranges
+      .map((range) => this.intersection(range))
+      .filter((range): range is TimeRange => range !== null);
+  }
+
+  /**
+   * Instant inside the range, or another range fully inside it
+   */
+  contains(other: DateTime | TimeRange): boolean {
+    if (other instanceof DateTime) {
+      return other.isSameOrAfter(this.start) && other.isBefore(this.end);
+    }
+
+    return (
+      other.start.isSameOrAfter(this.start) &&
+      other.end.isSameOrBefore(this.end)
+    );
+  }
+
+  equals(other: TimeRange): boolean {
+    return this.start.isSame(other.start) && this.end.isSame(other.end);
+  }
+
+  /**
+   * Common part of both ranges, null when they do not overlap
+   */
+  intersection(other: TimeRange): TimeRange | null {
+    if (!this.overlaps(other)) return null;
+
+    return new TimeRange(
+      this.start.isAfter(other.start) ? this.start : other.start,
+      this.end.isBefore(other.end) ? this.end : other.end,
+    );
+  }
+
+  overlaps(other: TimeRange): boolean {
+    return (
+      !this.isEmpty &&
+      !other.isEmpty &&
+      this.start.isBefore(other.end) &&
+      other.start.isBefore(this.end)
+    );
+  }
+
+  /**
+   * Cut the range at local day or week boundaries of the time zone
+   */
+  splitBy(unit: "day" | "week", options: CalendarOptions = {}): TimeRange[] {
+    const parts: TimeRange[] = [];
+
+    let start = this.start;
+
+    while (start.isBefore(this.end)) {
+      const boundary = start
+        .startOf(unit, options)
+        .add(1, unit, options.timeZone);
+      const end = boundary.isBefore(this.end) ? boundary : this.end;
+
+      parts.push(new TimeRange(start, end));
+      start = end;
+    }
+
+    return parts;
+  }
+
+  toJSON() {
+    return { start: this.start, end: this.end };
+  }
+
+  /**
+   * Both ranges as one when they overlap or touch, otherwise both in order
+   */
+  union(other: TimeRange): TimeRange[] {
+    const [first, second] = sortBy(
+      [this, other],
+      [(range) => range.start.value],
+    ) as [TimeRange, TimeRange];
+
+    if (second.start.isAfter(first.end)) return [first, second];
+
+    return [
+      new TimeRange(
+        first.start,
+        first.end.isAfter(second.end) ? first.end : second.end,
+      ),
+    ];
+  }
+}
@@ -0,0 +1,163 @@
+import { DateTime } from "./DateTime";
+import { TimeRange } from "./TimeRange";
+
+const HOUR = 60 * 60 * 1000;
+const BERLIN = "Europe/Berlin";
+
+const range = (start: number, end: number) =>
+  TimeRange.create(DateTime.create(start), DateTime.create(end));
+const bounds = (ranges: TimeRange[]) =>
+  ranges.map(({ start, end }) => [start.value, end.value]);
+
+describe("TimeRange", () => {
+  describe("creation", () => {
+    it("should create a range", () => {
+      const created = range(1000, 5000);
+
+      expect(created.start.value).toBe(1000);
+      expect(created.end.value).toBe(5000);
+      expect(created.duration.value).toBe(4000);
+      expect(created.isEmpty).toBe(false);
+    });
+    it("should allow an empty range", () => {
+      expect(range(1000, 1000).isEmpty).toBe(true);
+    });
+    it("should throw if the range ends before it starts", () => {
+      expect(() => range(5000, 1000)).toThrow();
+    });
+  });
+
+  describe("contains", () => {
+    const hour = range(0, HOUR);
+
+    it("should include the start and exclude the end", () => {
+      expect(hour.contains(DateTime.create(0))).toBe(true);
+      expect(hour.contains(DateTime.create(HOUR - 1))).toBe(true);
+      expect(hour.contains(DateTime.create(HOUR))).toBe(false);
+      expect(hour.contains(DateTime.create(-1))).toBe(false);
+    });
+    it("should contain ranges fully inside it", () => {
+      expect(hour.contains(range(0, HOUR))).toBe(true);
+      expect(hour.contains(range(1000, 2000))).toBe(true);
+      expect(hour.contains(range(1000, HOUR + 1))).toBe(false);
+    });
+    it("should contain nothing when empty", () => {
+      expect(range(1000, 1000).contains(DateTime.create(1000))).toBe(false);
+    });
+  });
+
+  describe("overlaps / intersection", () => {
+    it("should overlap when sharing time", () => {
+      expect(range(0, 2000).overlaps(range(1000, 3000))).toBe(true);
+      expect(range(0, 3000).overlaps(range(1000, 2000))).toBe(true);
+      expect(range(0, 2000).intersection(range(1000, 3000))).toEqual(
+        range(1000, 2000),
+      );
+    });
+    it("should not overlap when only touching", () => {
+      expect(range(0, 1000).overlaps(range(1000, 2000))).toBe(false);
+      expect(range(0, 1000).intersection(range(1000, 2000))).toBeNull();
+    });
+    it("should not overlap an empty range", () => {
+      expect(range(0, 2000).overlaps(range(1000, 1000))).toBe(false);
+    });
+  });
+
+  describe("clip", () => {
+    it("should keep only the in-range parts", () => {
+      const day = range(0, 24 * HOUR);
+
+      expect(
+        bounds(
+          day.clip([
+            range(-HOUR, HOUR),
+            range(2 * HOUR, 3 * HOUR),
+            range(23 * HOUR, 25 * HOUR),
+            range(25 * HOUR, 26 * HOUR),
+          ]),
+        ),
+      ).toEqual([
+        [0, HOUR],
+        [2 * HOUR, 3 * HOUR],
+        [23 * HOUR, 24 * HOUR],
+      ]);
+    });
+  });
+
+  describe("union", () => {
+    it("should join overlapping and touching ranges", () => {
+      expect(bounds(range(1000, 3000).union(range(0, 2000)))).toEqual([
+        [0, 3000],
+      ]);
+      expect(bounds(range(0, 1000).union(range(1000, 2000)))).toEqual([
+        [0, 2000],
+      ]);
+      expect(bounds(range(0, 3000).union(range(1000, 2000)))).toEqual([
+        [0, 3000],
+      ]);
+    });
+    it("should keep separate ranges apart, in order", () => {
+      expect(bounds(range(2000, 3000).union(range(0, 1000)))).toEqual([
+        [0, 1000],
+        [2000, 3000],
+      ]);
+    });
+  });
+
+  describe("splitBy", () => {
+    it("should cut the range at midnight", () => {
+      const overnight = TimeRange.create(
+        DateTime.parse("2024-05-14T22:00:00Z"),
+        DateTime.parse("2024-05-16T01:00:00Z"),
+      );
+
+      expect(
+        overnight.splitBy("day").map((part) => part.duration.value),
+      ).toEqual([2 * HOUR, 24 * HOUR, HOUR]);
+    });
+    it("should cut at local midnight across a DST change", () => {
+      const weekend = TimeRange.create(
+        DateTime.parse("2024-03-30T12:00", BERLIN),
+        DateTime.parse("2024-04-01T12:00", BERLIN),
+      );
+      const parts = weekend.splitBy("day", { timeZone: BERLIN });
+
+      expect(parts.map((part) => part.start.toISOString(BERLIN))).toEqual([
+        "2024-03-30T12:00:00.000+01:00",
+        "2024-03-31T00:00:00.000+01:00",
+        "2024-04-01T00:00:00.000+02:00",
+      ]);
+      expect(parts.map((part) => part.duration.value)).toEqual([
+        12 * HOUR,
+        23 * HOUR,
+        12 * HOUR,
+      ]);
+    });
+    it("should cut at the configured week start", () => {
+      // Wednesday to next Wednesday
+      const week = TimeRange.create(
+        DateTime.parse("2024-05-15T00:00:00Z"),
+        DateTime.parse("2024-05-22T00:00:00Z"),
+      );
+
+      expect(
+        week.splitBy("week").map((part) => part.start.toISOString()),
+      ).toEqual(["2024-05-15T00:00:00.000Z", "2024-05-20T00:00:00.000Z"]);
+      expect(
+        week
+          .splitBy("week", { weekStartsOn: 0 })
+          .map((part) => part.start.toISOString()),
+      ).toEqual(["2024-05-15T00:00:00.000Z", "2024-05-19T00:00:00.000Z"]);
+    });
+    it("should return nothing for an empty range", () => {
+      expect(range(1000, 1000).splitBy("day")).toEqual([]);
+    });
+  });
+
+  describe("equality", () => {
+    it("should compare bounds", () => {
+      expect(range(0, 1000).equals(range(0, 1000))).toBe(true);
+      expect(range(0, 1000).equals(range(0, 2000))).toBe(false);
+    });
+  });
+});
@@ -1,9 +1,17 @@
 export * from "./DateTime";
 
+export * from "./Duration";
+
 export * from "./CategoryName";
 
 export * from "./Color";
 
 export * from "./Icon";
 
+export * from "./Note";
+
+export * from "./Tag";
+
+export * from "./TimeRange";
+
 export * from "./ulid";
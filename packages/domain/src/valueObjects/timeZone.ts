@@ -0,0 +1,146 @@
+import { invariant } from "es-toolkit";
+
+import { ValidationDomainError } from "../errors";
+
+/**
+ * Local calendar fields of an instant in a time zone.
+ * Months are 1-based, weekday is 0 (Sunday) to 6 (Saturday).
+ */
+export type WallClock = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  weekday: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  const cached = formatters.get(timeZone);
+
+  if (cached) return cached;
+
+  let formatter: Intl.DateTimeFormat;
+
+  try {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+  } catch {
+    throw new ValidationDomainError(`Invalid time zone: "${timeZone}"`);
+  }
+
+  formatters.set(timeZone, formatter);
+
+  return formatter;
+};
+
+export const assertTimeZone = (timeZone: string) => {
+  formatterFor(timeZone);
+};
+
+/**
+ * Local fields written as if they were UTC, e.g. 10:00 in Berlin -> 10:00Z.
+ * Differences between such values are wall-clock differences.
+ */
+export const wallClockToEpoch = (fields: Omit<WallClock, "weekday">) =>
+  Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second,
+    fields.millisecond,
+  );
+
+/**
+ * Offset of the time zone from UTC at the given instant, in ms
+ */
+export const offsetAt = (timestamp: number, timeZone: string): number => {
+  if (timeZone === "UTC") return 0;
+
+  const seconds = Math.floor(timestamp / 1000) * 1000;
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(new Date(seconds))
+      .map((part) => [part.type, Number(part.value)]),
+  );
+
+  return (
+    wallClockToEpoch({
+      year: parts.year!,
+      month: parts.month!,
+      day: parts.day!,
+      hour: parts.hour!,
+      minute: parts.minute!,
+      second: parts.second!,
+      millisecond: 0,
+    }) - seconds
+  );
+};
+
+export const toWallClock = (timestamp: number, timeZone: string): WallClock => {
+  const local = new Date(timestamp + offsetAt(timestamp, timeZone));
+
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+    second: local.getUTCSeconds(),
+    millisecond: local.getUTCMilliseconds(),
+    weekday: local.getUTCDay(),
+  };
+};
+
+/**
+ * Instant of a local time in the time zone. Out-of-range fields roll over
+ * (day 32 is the 1st of the next month). Like most calendars, a local time
+ * skipped by a DST gap moves forward by the gap, and an ambiguous local time
+ * in a DST overlap resolves to the earlier instant.
+ */
+export const fromWallClock = (
+  fields: Omit<WallClock, "weekday">,
+  timeZone: string,
+): number => {
+  const local = wallClockToEpoch(fields);
+  const offsetBefore = offsetAt(local - DAY_MS, timeZone);
+  const offsetAfter = offsetAt(local + DAY_MS, timeZone);
+  const earlier = local - offsetBefore;
+  const later = local - offsetAfter;
+  const isValid = (instant: number, offset: number) =>
+    offsetAt(instant, timeZone) === offset;
+
+  if (isValid(earlier, offsetBefore) && isValid(later, offsetAfter)) {
+    return Math.min(earlier, later);
+  }
+
+  if (isValid(later, offsetAfter)) return later;
+
+  return earlier;
+};
+
+export const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const assertWeekday = (weekday: number) => {
+  invariant(
+    Number.isInteger(weekday) && weekday >= 0 && weekday <= 6,
+    new ValidationDomainError("Week start must be a weekday from 0 to 6"),
+  );
+};
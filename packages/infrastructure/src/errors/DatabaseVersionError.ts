@@ -0,0 +1,17 @@
+import { InfrastructureError } from "./InfrastructureError";
+
+/**
+ * The database was migrated by a newer app version, opening it could
+ * corrupt data the older code does not know about
+ */
+export class DatabaseVersionError extends InfrastructureError {
+  constructor(
+    readonly databaseVersion: number,
+    readonly supportedVersion: number,
+  ) {
+    super(
+      `Database schema version ${databaseVersion} is newer than the supported version ${supportedVersion}`,
+    );
+    this.name = "DatabaseVersionError";
+  }
+}
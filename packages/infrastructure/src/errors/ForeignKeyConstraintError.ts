@@ -0,0 +1,12 @@
+import { InfrastructureError } from "./InfrastructureError";
+
+/**
+ * A write referenced a missing row, or a delete left rows referencing it.
+ * SQLite does not tell which foreign key failed.
+ */
+export class ForeignKeyConstraintError extends InfrastructureError {
+  constructor(options?: ErrorOptions) {
+    super("Foreign key constraint failed", options);
+    this.name = "ForeignKeyConstraintError";
+  }
+}
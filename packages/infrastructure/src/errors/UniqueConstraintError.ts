@@ -0,0 +1,15 @@
+import { InfrastructureError } from "./InfrastructureError";
+
+/**
+ * A write duplicated a unique key. The constraint is the index name or
+ * the table.column list as reported by SQLite.
+ */
+export class UniqueConstraintError extends InfrastructureError {
+  constructor(
+    readonly constraint: string,
+    options?: ErrorOptions,
+  ) {
+    super(`Unique constraint ${constraint} failed`, options);
+    this.name = "UniqueConstraintError";
+  }
+}
@@ -0,0 +1,7 @@
+export { InfrastructureError } from "./InfrastructureError";
+
+export { DatabaseVersionError } from "./DatabaseVersionError";
+
+export { ForeignKeyConstraintError } from "./ForeignKeyConstraintError";
+
+export { UniqueConstraintError } from "./UniqueConstraintError";
@@ -1,11 +1,18 @@
 import { injectable } from "inversify";
 
-import type { ICategoryRepository } from "@wimt/domain/repositories";
+import type {
+  ICategoryRepository,
+  Page,
+  QueryOptions,
+  CategorySortField,
+} from "@wimt/domain/repositories";
 import type { Specification } from "@wimt/domain/specifications";
 import type { ULID } from "@wimt/domain/valueObjects";
 
 import { Category } from "@wimt/domain/aggregates";
 
+import { categorySortKey, paginate, resolveQueryOptions } from "../paging";
+
 @injectable()
 export class InMemoryCategoryRepository implements ICategoryRepository {
   private categories: Map<string, Category> = new Map();
@@ -42,6 +49,21 @@ export class InMemoryCategoryRepository implements ICategoryRepository {
     return all.find((category) => spec.isSatisfiedBy(category)) || null;
   }
 
+  async findPage(
+    options: QueryOptions<CategorySortField>,
+    spec?: Specification<Category>,
+  ): Promise<Page<Category>> {
+    const page = resolveQueryOptions(options, "createdAt");
+    const all = Array.from(this.categories.values());
+    const matching = spec
+      ? all.filter((category) => spec.isSatisfiedBy(category))
+      : all;
+
+    return paginate(matching, page, (category) =>
+      categorySortKey(category, page.sortBy),
+    );
+  }
+
   async save(category: Category): Promise<void> {
     this.categories.set(category.id, category);
   }
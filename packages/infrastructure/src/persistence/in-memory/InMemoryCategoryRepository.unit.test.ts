@@ -9,6 +9,7 @@ import { Category } from "@wimt/domain/aggregates";
 import { CategoryRepositorySymbol } from "@wimt/domain/repositories";
 import { TimeServiceSymbol } from "@wimt/domain/shared";
 import {
+  ArchivedCategorySpec,
   CategoryNameMatchesSpec,
   CompositeSpecification,
 } from "@wimt/domain/specifications";
@@ -115,6 +116,27 @@ describe("InMemoryCategoryRepository", () => {
     expect(found[0]?.id).toBe(category1.id);
   });
 
+  it("should filter out archived categories", async () => {
+    const active = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: time.now(),
+    });
+    const archived = new Category({
+      name: CategoryName.create("Old Project"),
+      createdAt: time.now(),
+    });
+
+    archived.archive(time.now());
+    await repository.save(active);
+    await repository.save(archived);
+
+    const found = await repository.findManyBySpec(
+      new ArchivedCategorySpec().not(),
+    );
+
+    expect(found.map((category) => category.id)).toEqual([active.id]);
+  });
+
   it("should find one by specification", async () => {
     const category1 = new Category({
       name: CategoryName.create("Test Category 1"),
@@ -171,4 +193,34 @@ describe("InMemoryCategoryRepository", () => {
     expect(foundByName?.id).toBe(category1.id);
     expect(foundById?.id).toBe(category2.id);
   });
+
+  it("should page categories by name, ignoring case", async () => {
+    const names = ["beta", "Alpha", "gamma", "Delta"];
+
+    for (const name of names) {
+      await repository.save(
+        new Category({
+          name: CategoryName.create(name),
+          createdAt: time.now(),
+        }),
+      );
+    }
+
+    const first = await repository.findPage({ limit: 3, sortBy: "name" });
+    const second = await repository.findPage({
+      limit: 3,
+      sortBy: "name",
+      cursor: first.nextCursor,
+    });
+
+    expect(first.items.map((category) => category.name.value)).toEqual([
+      "Alpha",
+      "beta",
+      "Delta",
+    ]);
+    expect(second.items.map((category) => category.name.value)).toEqual([
+      "gamma",
+    ]);
+    expect(second.nextCursor).toBeNull();
+  });
 });
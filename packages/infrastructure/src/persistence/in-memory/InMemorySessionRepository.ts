@@ -1,11 +1,18 @@
 import { injectable } from "inversify";
 
-import type { ISessionRepository } from "@wimt/domain/repositories";
+import type {
+  ISessionRepository,
+  Page,
+  QueryOptions,
+  SessionSortField,
+} from "@wimt/domain/repositories";
 import type { Specification } from "@wimt/domain/specifications";
 import type { ULID } from "@wimt/domain/valueObjects";
 
 import { Session } from "@wimt/domain/aggregates";
 
+import { sessionSortKey, paginate, resolveQueryOptions } from "../paging";
+
 @injectable()
 export class InMemorySessionRepository implements ISessionRepository {
   private sessions: Map<string, Session> = new Map();
@@ -38,7 +45,59 @@ export class InMemorySessionRepository implements ISessionRepository {
     return all.find((session) => spec.isSatisfiedBy(session)) || null;
   }
 
+  async findPage(
+    options: QueryOptions<SessionSortField>,
+    spec?: Specification<Session>,
+  ): Promise<Page<Session>> {
+    const page = resolveQueryOptions(options, "createdAt");
+    const all = Array.from(this.sessions.values());
+    const matching = spec
+      ? all.filter((session) => spec.isSatisfiedBy(session))
+      : all;
+
+    return paginate(matching, page, (session) =>
+      sessionSortKey(session, page.sortBy),
+    );
+  }
+
+  async reassignCategory(
+    fromCategoryIds: ULID[],
+    toCategoryId: ULID,
+  ): Promise<ULID[]> {
+    const moved = Array.from(this.sessions.values()).filter((session) =>
+      fromCategoryIds.includes(session.categoryId),
+    );
+
+    // Rebuild like a persistence round trip would, without domain events
+    moved.forEach((session) =>
+      this.sessions.set(
+        session.id,
+        new Session({
+          id: session.id,
+          categoryId: toCategoryId,
+          createdAt: session.createdAt,
+          activeSegment: session.activeSegment,
+          stoppedAt: session.stoppedAt,
+          history: session.history,
+          note: session.note,
+          tags: [...session.tags],
+        }),
+      ),
+    );
+
+    return moved.map((session) => session.id);
+  }
+
   async save(session: Session): Promise<void> {
     this.sessions.set(session.id, session);
   }
+
+  async saveAndDelete(sessions: Session[], deletedIds: ULID[]): Promise<void> {
+    deletedIds.forEach((id) => this.sessions.delete(id));
+    sessions.forEach((session) => this.sessions.set(session.id, session));
+  }
+
+  async saveMany(sessions: Session[]): Promise<void> {
+    sessions.forEach((session) => this.sessions.set(session.id, session));
+  }
 }
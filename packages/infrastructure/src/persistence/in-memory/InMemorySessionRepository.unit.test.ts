@@ -15,7 +15,7 @@ import {
   SessionForCategorySpec,
   CompositeSpecification,
 } from "@wimt/domain/specifications";
-import { makeId } from "@wimt/domain/valueObjects";
+import { DateTime, makeId } from "@wimt/domain/valueObjects";
 
 import { TimeService } from "../../services/time/TimeService";
 import { InMemorySessionRepository } from "./InMemorySessionRepository";
@@ -330,4 +330,181 @@ describe("InMemorySessionRepository", () => {
 
     expect(found?.state).toBe("paused");
   });
+
+  it("should save many sessions at once", async () => {
+    const session1 = new Session({
+      categoryId: makeId(),
+      createdAt: time.now(),
+    });
+    const session2 = new Session({
+      categoryId: makeId(),
+      createdAt: time.now(),
+    });
+
+    await repository.saveMany([session1, session2]);
+
+    expect(await repository.count()).toBe(2);
+    expect(await repository.findById(session2.id)).toBe(session2);
+  });
+
+  it("should delete and save sessions together", async () => {
+    const kept = new Session({ categoryId: makeId(), createdAt: time.now() });
+    const deleted = new Session({
+      categoryId: makeId(),
+      createdAt: time.now(),
+    });
+
+    await repository.save(deleted);
+    await repository.saveAndDelete([kept], [deleted.id]);
+
+    expect(await repository.findById(deleted.id)).toBeNull();
+    expect(await repository.findById(kept.id)).toBe(kept);
+  });
+
+  it("should reassign sessions of given categories", async () => {
+    const fromCategoryId = makeId();
+    const otherCategoryId = makeId();
+    const toCategoryId = makeId();
+    const moved = new Session({
+      categoryId: fromCategoryId,
+      createdAt: time.now(),
+    });
+    const kept = new Session({
+      categoryId: otherCategoryId,
+      createdAt: time.now(),
+    });
+
+    await repository.saveMany([moved, kept]);
+
+    const ids = await repository.reassignCategory(
+      [fromCategoryId],
+      toCategoryId,
+    );
+
+    expect(ids).toEqual([moved.id]);
+    expect((await repository.findById(moved.id))?.categoryId).toBe(
+      toCategoryId,
+    );
+    expect((await repository.findById(moved.id))?.state).toBe("active");
+    expect((await repository.findById(kept.id))?.categoryId).toBe(
+      otherCategoryId,
+    );
+  });
+
+  describe("findPage", () => {
+    const MINUTE = 60 * 1000;
+
+    const stoppedSession = (createdAtMs: number, durationMs: number) =>
+      new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(createdAtMs),
+        activeSegment: null,
+        history: [
+          new SessionSegment({
+            startedAt: DateTime.create(createdAtMs),
+            stoppedAt: DateTime.create(createdAtMs + durationMs),
+          }),
+        ],
+        stoppedAt: DateTime.create(createdAtMs + durationMs),
+      });
+
+    it("should walk every page with the cursor", async () => {
+      const sessions = [1, 2, 3, 4, 5].map((n) =>
+        stoppedSession(n * MINUTE, MINUTE),
+      );
+
+      await repository.saveMany([...sessions].reverse());
+
+      const first = await repository.findPage({ limit: 2 });
+      const second = await repository.findPage({
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      const last = await repository.findPage({
+        limit: 2,
+        cursor: second.nextCursor,
+      });
+
+      expect(
+        [first, second, last].map((page) => page.items.map((s) => s.id)),
+      ).toEqual([
+        [sessions[0]!.id, sessions[1]!.id],
+        [sessions[2]!.id, sessions[3]!.id],
+        [sessions[4]!.id],
+      ]);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it("should sort by duration and break ties by id", async () => {
+      const short = stoppedSession(0, 10 * MINUTE);
+      const longA = stoppedSession(20 * MINUTE, 30 * MINUTE);
+      const longB = stoppedSession(60 * MINUTE, 30 * MINUTE);
+
+      await repository.saveMany([short, longA, longB]);
+
+      const page = await repository.findPage({
+        limit: 10,
+        sortBy: "duration",
+        direction: "desc",
+      });
+
+      expect(page.items.map((s) => s.id)).toEqual(
+        [longA.id, longB.id].sort().reverse().concat(short.id),
+      );
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it("should sort sessions that are not stopped after stopped ones", async () => {
+      const running = new Session({
+        categoryId: makeId(),
+        createdAt: DateTime.create(0),
+      });
+      const stopped = stoppedSession(10 * MINUTE, MINUTE);
+
+      await repository.saveMany([running, stopped]);
+
+      const page = await repository.findPage({
+        limit: 10,
+        sortBy: "stoppedAt",
+      });
+
+      expect(page.items.map((s) => s.id)).toEqual([stopped.id, running.id]);
+    });
+
+    it("should page only matching sessions and honour the offset", async () => {
+      const running = new Session({
+        categoryId: makeId(),
+        createdAt: DateTime.create(0),
+      });
+      const sessions = [1, 2, 3].map((n) => stoppedSession(n * MINUTE, MINUTE));
+
+      await repository.saveMany([running, ...sessions]);
+
+      const page = await repository.findPage(
+        { limit: 1, offset: 1 },
+        new StoppedSessionSpec(),
+      );
+
+      expect(page.items.map((s) => s.id)).toEqual([sessions[1]!.id]);
+      expect(page.nextCursor).not.toBeNull();
+    });
+
+    it("should reject a cursor of another sort order", async () => {
+      await repository.saveMany([
+        stoppedSession(0, MINUTE),
+        stoppedSession(MINUTE, MINUTE),
+      ]);
+
+      const { nextCursor } = await repository.findPage({ limit: 1 });
+
+      await expect(
+        repository.findPage({
+          limit: 1,
+          cursor: nextCursor,
+          direction: "desc",
+        }),
+      ).rejects.toThrow("Page cursor belongs to another sort order");
+    });
+  });
 });
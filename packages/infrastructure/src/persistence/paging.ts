@@ -0,0 +1,193 @@
+import { invariant } from "es-toolkit";
+
+import type { Category, Session } from "@wimt/domain/aggregates";
+import type {
+  CategorySortField,
+  Page,
+  QueryOptions,
+  SessionSortField,
+  SortDirection,
+} from "@wimt/domain/repositories";
+
+import { ValidationDomainError } from "@wimt/domain/errors";
+
+/**
+ * Query options with defaults applied and the cursor decoded
+ */
+export interface PageRequest<SortField extends string> {
+  limit: number;
+  sortBy: SortField;
+  direction: SortDirection;
+  offset: number;
+  after: { value: SortValue; id: string } | null;
+}
+
+export type SortValue = number | string;
+
+/**
+ * Running sessions have no stoppedAt and sort after every stopped one
+ */
+export const NOT_STOPPED_SORT_VALUE = Number.MAX_SAFE_INTEGER;
+
+export function categorySortKey(
+  category: Category,
+  sortBy: CategorySortField,
+): SortValue {
+  switch (sortBy) {
+    case "createdAt":
+      return category.createdAt.value;
+    case "name":
+      return category.name.key;
+  }
+}
+
+/**
+ * Order by sort value, then by id
+ */
+export function compareKeys(
+  a: [SortValue, string],
+  b: [SortValue, string],
+): number {
+  if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+
+  if (a[1] !== b[1]) return a[1] < b[1] ? -1 : 1;
+
+  return 0;
+}
+
+/**
+ * Sort, apply cursor and offset and cut a page from already loaded items
+ */
+export function paginate<T extends { id: string }, SortField extends string>(
+  items: T[],
+  page: PageRequest<SortField>,
+  sortKey: (item: T) => SortValue,
+): Page<T> {
+  const sign = page.direction === "asc" ? 1 : -1;
+  const keyOf = (item: T): [SortValue, string] => [sortKey(item), item.id];
+  const { after } = page;
+
+  const sorted = [...items]
+    .sort((a, b) => sign * compareKeys(keyOf(a), keyOf(b)))
+    .filter(
+      (item) =>
+        after === null ||
+        sign * compareKeys(keyOf(item), [after.value, after.id]) > 0,
+    );
+
+  return toPage(
+    sorted.slice(page.offset, page.offset + page.limit + 1),
+    page,
+    sortKey,
+  );
+}
+
+/**
+ * Apply defaults and validate limit, offset and cursor
+ */
+export function resolveQueryOptions<SortField extends string>(
+  options: QueryOptions<SortField>,
+  defaultSortBy: SortField,
+): PageRequest<SortField> {
+  const {
+    limit,
+    sortBy = defaultSortBy,
+    direction = "asc",
+    cursor = null,
+    offset = 0,
+  } = options;
+
+  invariant(
+    Number.isInteger(limit) && limit > 0,
+    new ValidationDomainError("Page limit must be a positive integer"),
+  );
+  invariant(
+    Number.isInteger(offset) && offset >= 0,
+    new ValidationDomainError("Page offset must be a non-negative integer"),
+  );
+
+  return {
+    limit,
+    sortBy,
+    direction,
+    offset,
+    after: cursor === null ? null : decodeCursor(cursor, sortBy, direction),
+  };
+}
+
+export function sessionSortKey(
+  session: Session,
+  sortBy: SessionSortField,
+): SortValue {
+  switch (sortBy) {
+    case "createdAt":
+      return session.createdAt.value;
+    case "duration":
+      return session.history.reduce(
+        (total, segment) => total + (segment.durationMs ?? 0),
+        0,
+      );
+    case "stoppedAt":
+      return session.stoppedAt?.value ?? NOT_STOPPED_SORT_VALUE;
+  }
+}
+
+/**
+ * Build a page from up to limit + 1 sorted items, the extra one only
+ * tells that another page follows
+ */
+export function toPage<T extends { id: string }, SortField extends string>(
+  items: T[],
+  page: PageRequest<SortField>,
+  sortKey: (item: T) => SortValue,
+): Page<T> {
+  const pageItems = items.slice(0, page.limit);
+  const last = pageItems.at(-1);
+
+  return {
+    items: pageItems,
+    nextCursor:
+      items.length > page.limit && last
+        ? encodeCursor(page, sortKey(last), last.id)
+        : null,
+  };
+}
+
+/**
+ * A cursor only continues the sort order it was created for
+ */
+function decodeCursor<SortField extends string>(
+  cursor: string,
+  sortBy: SortField,
+  direction: SortDirection,
+): PageRequest<SortField>["after"] {
+  let decoded: unknown;
+
+  try {
+    decoded = JSON.parse(cursor);
+  } catch {
+    decoded = null;
+  }
+
+  invariant(
+    Array.isArray(decoded) &&
+      decoded.length === 4 &&
+      (typeof decoded[2] === "number" || typeof decoded[2] === "string") &&
+      typeof decoded[3] === "string",
+    new ValidationDomainError("Invalid page cursor"),
+  );
+  invariant(
+    decoded[0] === sortBy && decoded[1] === direction,
+    new ValidationDomainError("Page cursor belongs to another sort order"),
+  );
+
+  return { value: decoded[2], id: decoded[3] };
+}
+
+function encodeCursor<SortField extends string>(
+  page: PageRequest<SortField>,
+  value: SortValue,
+  id: string,
+): string {
+  return JSON.stringify([page.sortBy, page.direction, value, id]);
+}
@@ -0,0 +1,87 @@
+import { ValidationDomainError } from "@wimt/domain/errors";
+
+import { paginate, resolveQueryOptions } from "./paging";
+
+describe("paging", () => {
+  const items = [
+    { id: "01C", value: 2 },
+    { id: "01A", value: 1 },
+    { id: "01B", value: 2 },
+  ];
+  const sortKey = (item: { value: number }) => item.value;
+
+  describe("resolveQueryOptions", () => {
+    it("should apply defaults", () => {
+      expect(resolveQueryOptions({ limit: 10 }, "createdAt")).toEqual({
+        limit: 10,
+        sortBy: "createdAt",
+        direction: "asc",
+        offset: 0,
+        after: null,
+      });
+    });
+
+    it("should reject a limit that is not a positive integer", () => {
+      expect(() => resolveQueryOptions({ limit: 0 }, "createdAt")).toThrow(
+        ValidationDomainError,
+      );
+      expect(() => resolveQueryOptions({ limit: 1.5 }, "createdAt")).toThrow(
+        ValidationDomainError,
+      );
+    });
+
+    it("should reject a negative offset", () => {
+      expect(() =>
+        resolveQueryOptions({ limit: 1, offset: -1 }, "createdAt"),
+      ).toThrow("Page offset must be a non-negative integer");
+    });
+
+    it("should reject a malformed cursor", () => {
+      for (const cursor of [
+        "not json",
+        "[1, 2]",
+        '["createdAt", "asc", {}, "01A"]',
+      ]) {
+        expect(() =>
+          resolveQueryOptions({ limit: 1, cursor }, "createdAt"),
+        ).toThrow("Invalid page cursor");
+      }
+    });
+  });
+
+  describe("paginate", () => {
+    it("should break ties by id in the sort direction", () => {
+      const asc = paginate(
+        items,
+        resolveQueryOptions({ limit: 3 }, "value"),
+        sortKey,
+      );
+      const desc = paginate(
+        items,
+        resolveQueryOptions({ limit: 3, direction: "desc" }, "value"),
+        sortKey,
+      );
+
+      expect(asc.items.map((item) => item.id)).toEqual(["01A", "01B", "01C"]);
+      expect(desc.items.map((item) => item.id)).toEqual(["01C", "01B", "01A"]);
+    });
+
+    it("should continue after the cursor even when its item is gone", () => {
+      const first = paginate(
+        items,
+        resolveQueryOptions({ limit: 2 }, "value"),
+        sortKey,
+      );
+      const remaining = items.filter((item) => item.id !== "01B");
+      const second = paginate(
+        remaining,
+        resolveQueryOptions({ limit: 2, cursor: first.nextCursor }, "value"),
+        sortKey,
+      );
+
+      expect(first.items.map((item) => item.id)).toEqual(["01A", "01B"]);
+      expect(second.items.map((item) => item.id)).toEqual(["01C"]);
+      expect(second.nextCursor).toBeNull();
+    });
+  });
+});
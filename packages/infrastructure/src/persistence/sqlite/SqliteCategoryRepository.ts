@@ -1,7 +1,12 @@
-import { eq } from "drizzle-orm";
+import { and, eq, type SQL } from "drizzle-orm";
 import { injectable, inject } from "inversify";
 
-import type { ICategoryRepository } from "@wimt/domain/repositories";
+import type {
+  CategorySortField,
+  ICategoryRepository,
+  Page,
+  QueryOptions,
+} from "@wimt/domain/repositories";
 import type { Specification } from "@wimt/domain/specifications";
 
 import { Category } from "@wimt/domain/aggregates";
@@ -9,24 +14,37 @@ import { type ULID } from "@wimt/domain/valueObjects";
 
 import type { DbClient } from "./db-client";
 
+import {
+  categorySortKey,
+  paginate,
+  resolveQueryOptions,
+  toPage,
+} from "../paging";
+import { withConstraintErrors } from "./constraintErrors";
+import { CategoryCriteriaCompiler } from "./criteria/CategoryCriteriaCompiler";
+import { afterCursor, pageOrder } from "./criteria/keyset";
 import { DbClientSymbol } from "./db-client";
 import { CategoryMapper } from "./mappers/CategoryMapper";
 import { categories } from "./schema";
 
 @injectable()
 export class SqliteCategoryRepository implements ICategoryRepository {
+  private compiler = new CategoryCriteriaCompiler();
   private mapper = new CategoryMapper();
 
   constructor(@inject(DbClientSymbol) private db: DbClient) {}
 
   async count(): Promise<number> {
-    const result = await this.db.select().from(categories);
-
-    return result.length;
+    return this.db.$count(categories);
   }
 
+  /**
+   * @throws ForeignKeyConstraintError while sessions reference the category
+   */
   async delete(id: ULID): Promise<void> {
-    await this.db.delete(categories).where(eq(categories.id, id));
+    await withConstraintErrors(async () => {
+      await this.db.delete(categories).where(eq(categories.id, id));
+    });
   }
 
   async findAll(): Promise<Category[]> {
@@ -49,20 +67,80 @@ export class SqliteCategoryRepository implements ICategoryRepository {
     return this.mapper.toDomain(rows[0]!);
   }
 
+  /**
+   * Filters in SQL when the specification translates to criteria,
+   * otherwise loads every category and filters in memory
+   */
   async findManyBySpec(spec: Specification<Category>): Promise<Category[]> {
-    const allCategories = await this.findAll();
+    const condition = this.toCondition(spec);
+
+    if (condition === null) {
+      const allCategories = await this.findAll();
+
+      return allCategories.filter((category) => spec.isSatisfiedBy(category));
+    }
 
-    return allCategories.filter((category) => spec.isSatisfiedBy(category));
+    const rows = await this.db.select().from(categories).where(condition);
+
+    return this.mapper.toDomainMany(rows);
   }
 
   async findOneBySpec(spec: Specification<Category>): Promise<Category | null> {
-    const allCategories = await this.findAll();
+    const condition = this.toCondition(spec);
+
+    if (condition === null) {
+      const allCategories = await this.findAll();
 
-    return (
-      allCategories.find((category) => spec.isSatisfiedBy(category)) || null
-    );
+      return (
+        allCategories.find((category) => spec.isSatisfiedBy(category)) || null
+      );
+    }
+
+    const rows = await this.db
+      .select()
+      .from(categories)
+      .where(condition)
+      .limit(1);
+
+    return rows.length === 0 ? null : this.mapper.toDomain(rows[0]!);
+  }
+
+  /**
+   * Keyset paging in SQL, untranslatable specifications are paged in memory
+   */
+  async findPage(
+    options: QueryOptions<CategorySortField>,
+    spec?: Specification<Category>,
+  ): Promise<Page<Category>> {
+    const page = resolveQueryOptions(options, "createdAt");
+    const sortKey = (category: Category) =>
+      categorySortKey(category, page.sortBy);
+    const criteria = spec?.toCriteria();
+
+    if (spec && criteria === null) {
+      return paginate(await this.findManyBySpec(spec), page, sortKey);
+    }
+
+    const key = this.compiler.sortKey(page.sortBy);
+    const rows = await this.db
+      .select()
+      .from(categories)
+      .where(
+        and(
+          criteria ? this.compiler.compile(criteria) : undefined,
+          afterCursor(key, categories.id, page),
+        ),
+      )
+      .orderBy(...pageOrder(key, categories.id, page))
+      .limit(page.limit + 1)
+      .offset(page.offset);
+
+    return toPage(this.mapper.toDomainMany(rows), page, sortKey);
   }
 
+  /**
+   * @throws UniqueConstraintError when another category has the same name key
+   */
   async save(category: Category): Promise<void> {
     const data = this.mapper.toPersistence(category);
 
@@ -72,13 +150,21 @@ export class SqliteCategoryRepository implements ICategoryRepository {
       .where(eq(categories.id, category.id))
       .limit(1);
 
-    if (existing.length > 0) {
-      await this.db
-        .update(categories)
-        .set(data)
-        .where(eq(categories.id, category.id));
-    } else {
-      await this.db.insert(categories).values(data);
-    }
+    await withConstraintErrors(async () => {
+      if (existing.length > 0) {
+        await this.db
+          .update(categories)
+          .set(data)
+          .where(eq(categories.id, category.id));
+      } else {
+        await this.db.insert(categories).values(data);
+      }
+    });
+  }
+
+  private toCondition(spec: Specification<Category>): SQL | null {
+    const criteria = spec.toCriteria();
+
+    return criteria === null ? null : this.compiler.compile(criteria);
   }
 }
@@ -1,33 +1,56 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
+import { SQLiteSyncDialect } from "drizzle-orm/sqlite-core";
 import { Container } from "inversify";
+import initSqlJs from "sql.js";
 
 import { Category } from "@wimt/domain/aggregates";
-import { CategoryNameMatchesSpec } from "@wimt/domain/specifications";
+import {
+  ArchivedCategorySpec,
+  CategoryNameEqualsSpec,
+  CategoryNameMatchesSpec,
+} from "@wimt/domain/specifications";
 import { CategoryName, Color, Icon, DateTime } from "@wimt/domain/valueObjects";
 
-import { DbClientSymbol } from "./db-client";
+import { createSqlJsDbClient, DbClientSymbol } from "./db-client";
+import { migrate } from "./migrations";
 import { SqliteCategoryRepository } from "./SqliteCategoryRepository";
 
 // Mock drizzle db client
 const createMockDbClient = () => {
   const storage = new Map<string, any>();
+  const conditions: any[] = [];
 
   return {
+    $count: () => Promise.resolve(storage.size),
     select: () => ({
       from: (table: any) => ({
-        where: (condition: any) => ({
-          limit: (n: number) => {
-            const all = Array.from(storage.values());
-            // Simple mock for eq condition
-            const filtered = all.filter((row) => {
-              // This is a simplified implementation
-              return true;
-            });
-
-            return Promise.resolve(filtered.slice(0, n));
-          },
-        }),
+        where: (condition: any) => {
+          // Conditions are recorded, not interpreted
+          conditions.push(condition);
+
+          return {
+            limit: (n: number) => {
+              const all = Array.from(storage.values());
+              // Simple mock for eq condition
+              const filtered = all.filter((row) => {
+                // This is a simplified implementation
+                return true;
+              });
+
+              return Promise.resolve(filtered.slice(0, n));
+            },
+            orderBy: () => ({
+              limit: (n: number) => ({
+                offset: (m: number) =>
+                  Promise.resolve(Array.from(storage.values()).slice(m, m + n)),
+              }),
+            }),
+            then: (resolve: any) => {
+              resolve(Array.from(storage.values()));
+            },
+          };
+        },
         then: (resolve: any) => {
           resolve(Array.from(storage.values()));
         },
@@ -62,6 +85,7 @@ const createMockDbClient = () => {
       },
     }),
     _storage: storage, // For testing purposes
+    _conditions: conditions,
   };
 };
 
@@ -106,13 +130,31 @@ describe("SqliteCategoryRepository", () => {
 
       await repository.save(category);
 
-      category.setName(CategoryName.create("Personal"));
+      category.setName(
+        CategoryName.create("Personal"),
+        DateTime.create(Date.now()),
+      );
       await repository.save(category);
 
       const found = await repository.findById(category.id);
 
       expect(found?.name.value).toBe("Personal");
     });
+
+    it("should persist archived state", async () => {
+      const category = new Category({
+        name: CategoryName.create("Old Project"),
+        createdAt: DateTime.create(0),
+      });
+
+      category.archive(DateTime.create(1000));
+      await repository.save(category);
+
+      const found = await repository.findById(category.id);
+
+      expect(found?.isArchived).toBe(true);
+      expect(found?.archivedAt?.value).toBe(1000);
+    });
   });
 
   describe("find", () => {
@@ -155,6 +197,44 @@ describe("SqliteCategoryRepository", () => {
     });
   });
 
+  describe("findManyBySpec", () => {
+    it("should compile translatable specifications into the WHERE clause", async () => {
+      const findAllSpy = jest.spyOn(repository, "findAll");
+
+      await repository.findManyBySpec(
+        new ArchivedCategorySpec()
+          .not()
+          .and(new CategoryNameEqualsSpec(CategoryName.create("Work"))),
+      );
+
+      expect(findAllSpy).not.toHaveBeenCalled();
+      expect(new SQLiteSyncDialect().sqlToQuery(mockDb._conditions[0])).toEqual(
+        expect.objectContaining({
+          sql: '(not "categories"."archived_at" is not null and "categories"."name_key" = ?)',
+          params: ["work"],
+        }),
+      );
+    });
+  });
+
+  describe("findPage", () => {
+    it("should continue after the cursor by name key", async () => {
+      const cursor = JSON.stringify(["name", "asc", "work", "01LAST"]);
+
+      await repository.findPage(
+        { limit: 10, sortBy: "name", cursor },
+        new ArchivedCategorySpec().not(),
+      );
+
+      expect(new SQLiteSyncDialect().sqlToQuery(mockDb._conditions[0])).toEqual(
+        expect.objectContaining({
+          sql: '(not "categories"."archived_at" is not null and ("categories"."name_key" > ? or ("categories"."name_key" = ? and "categories"."id" > ?)))',
+          params: ["work", "work", "01LAST"],
+        }),
+      );
+    });
+  });
+
   describe("findOne", () => {
     it("should return first category matching specification", async () => {
       const category = new Category({
@@ -196,7 +276,12 @@ describe("SqliteCategoryRepository", () => {
   });
 
   describe("count", () => {
-    it("should return correct count of categories", async () => {
+    it("should count category rows on sql.js", async () => {
+      const SQL = await initSqlJs();
+      const db = createSqlJsDbClient(new SQL.Database());
+      const repository = new SqliteCategoryRepository(db);
+
+      migrate(db);
       expect(await repository.count()).toBe(0);
 
       const cat1 = new Category({
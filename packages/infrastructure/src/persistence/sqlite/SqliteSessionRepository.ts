@@ -1,56 +1,63 @@
-import { eq } from "drizzle-orm";
+import { and, eq, inArray, type SQL } from "drizzle-orm";
+import { chunk } from "es-toolkit";
 import { injectable, inject } from "inversify";
 
-import type { ISessionRepository } from "@wimt/domain/repositories";
+import type {
+  ISessionRepository,
+  Page,
+  QueryOptions,
+  SessionSortField,
+} from "@wimt/domain/repositories";
 import type { Specification } from "@wimt/domain/specifications";
 
 import { Session } from "@wimt/domain/aggregates";
 import { type ULID } from "@wimt/domain/valueObjects";
 
-import type { DbClient } from "./db-client";
+import type { DbClient, DbTransaction } from "./db-client";
 
+import {
+  paginate,
+  resolveQueryOptions,
+  sessionSortKey,
+  toPage,
+} from "../paging";
+import { withConstraintErrors } from "./constraintErrors";
+import { afterCursor, pageOrder } from "./criteria/keyset";
+import { SessionCriteriaCompiler } from "./criteria/SessionCriteriaCompiler";
 import { DbClientSymbol } from "./db-client";
 import { SessionMapper } from "./mappers/SessionMapper";
-import { sessions, sessionSegments } from "./schema";
+import {
+  type SessionRow,
+  sessions,
+  type SessionSegmentRow,
+  sessionSegments,
+  type SessionTagRow,
+  sessionTags,
+} from "./schema";
+
+// Bound variables per IN list, older SQLite builds allow at most 999
+const ID_BATCH_SIZE = 500;
 
 @injectable()
 export class SqliteSessionRepository implements ISessionRepository {
+  private compiler = new SessionCriteriaCompiler();
   private mapper = new SessionMapper();
 
   constructor(@inject(DbClientSymbol) private db: DbClient) {}
 
   async count(): Promise<number> {
-    const result = await this.db.select().from(sessions);
-
-    return result.length;
+    return this.db.$count(sessions);
   }
 
   async delete(id: ULID): Promise<void> {
-    // Delete segments first (foreign key constraint)
-    await this.db
-      .delete(sessionSegments)
-      .where(eq(sessionSegments.sessionId, id));
-
-    // Delete session
+    // Segments and tags are deleted by ON DELETE CASCADE
     await this.db.delete(sessions).where(eq(sessions.id, id));
   }
 
   async findAll(): Promise<Session[]> {
     const sessionRows = await this.db.select().from(sessions);
 
-    // Load all sessions with their segments
-    const sessionsWithSegments = await Promise.all(
-      sessionRows.map(async (sessionRow) => {
-        const segmentRows = await this.db
-          .select()
-          .from(sessionSegments)
-          .where(eq(sessionSegments.sessionId, sessionRow.id));
-
-        return this.mapper.toDomain(sessionRow, segmentRows);
-      }),
-    );
-
-    return sessionsWithSegments;
+    return this.load(sessionRows);
   }
 
   async findById(id: ULID): Promise<Session | null> {
@@ -59,60 +66,211 @@ export class SqliteSessionRepository implements ISessionRepository {
       .from(sessions)
       .where(eq(sessions.id, id))
       .limit(1);
+    const [session] = await this.load(sessionRows);
+
+    return session ?? null;
+  }
+
+  /**
+   * Filters in SQL when the specification translates to criteria,
+   * otherwise loads every session and filters in memory
+   */
+  async findManyBySpec(spec: Specification<Session>): Promise<Session[]> {
+    const condition = this.toCondition(spec);
+
+    if (condition === null) {
+      const allSessions = await this.findAll();
 
-    if (sessionRows.length === 0) {
-      return null;
+      return allSessions.filter((session) => spec.isSatisfiedBy(session));
     }
 
-    const sessionRow = sessionRows[0]!;
+    const sessionRows = await this.db.select().from(sessions).where(condition);
+
+    return this.load(sessionRows);
+  }
+
+  async findOneBySpec(spec: Specification<Session>): Promise<Session | null> {
+    const condition = this.toCondition(spec);
+
+    if (condition === null) {
+      const allSessions = await this.findAll();
+
+      return allSessions.find((session) => spec.isSatisfiedBy(session)) || null;
+    }
 
-    // Load segments for this session
-    const segmentRows = await this.db
+    const sessionRows = await this.db
       .select()
-      .from(sessionSegments)
-      .where(eq(sessionSegments.sessionId, id));
+      .from(sessions)
+      .where(condition)
+      .limit(1);
+    const [session] = await this.load(sessionRows);
 
-    return this.mapper.toDomain(sessionRow, segmentRows);
+    return session ?? null;
   }
 
-  async findManyBySpec(spec: Specification<Session>): Promise<Session[]> {
-    const allSessions = await this.findAll();
+  /**
+   * Keyset paging in SQL, untranslatable specifications are paged in memory
+   */
+  async findPage(
+    options: QueryOptions<SessionSortField>,
+    spec?: Specification<Session>,
+  ): Promise<Page<Session>> {
+    const page = resolveQueryOptions(options, "createdAt");
+    const sortKey = (session: Session) => sessionSortKey(session, page.sortBy);
+    const criteria = spec?.toCriteria();
+
+    if (spec && criteria === null) {
+      return paginate(await this.findManyBySpec(spec), page, sortKey);
+    }
+
+    const key = this.compiler.sortKey(page.sortBy);
+    const sessionRows = await this.db
+      .select()
+      .from(sessions)
+      .where(
+        and(
+          criteria ? this.compiler.compile(criteria) : undefined,
+          afterCursor(key, sessions.id, page),
+        ),
+      )
+      .orderBy(...pageOrder(key, sessions.id, page))
+      .limit(page.limit + 1)
+      .offset(page.offset);
 
-    return allSessions.filter((session) => spec.isSatisfiedBy(session));
+    return toPage(await this.load(sessionRows), page, sortKey);
   }
 
-  async findOneBySpec(spec: Specification<Session>): Promise<Session | null> {
-    const allSessions = await this.findAll();
+  /**
+   * Bulk UPDATE of sessions.category_id, without loading the aggregates
+   */
+  async reassignCategory(
+    fromCategoryIds: ULID[],
+    toCategoryId: ULID,
+  ): Promise<ULID[]> {
+    if (fromCategoryIds.length === 0) return [];
 
-    return allSessions.find((session) => spec.isSatisfiedBy(session)) || null;
+    const condition = inArray(sessions.categoryId, fromCategoryIds);
+
+    return withConstraintErrors(() =>
+      this.db.transaction((tx) => {
+        const rows = tx.select().from(sessions).where(condition).all();
+
+        tx.update(sessions)
+          .set({ categoryId: toCategoryId })
+          .where(condition)
+          .run();
+
+        return rows.map((row) => row.id as ULID);
+      }),
+    );
   }
 
   async save(session: Session): Promise<void> {
+    await this.saveMany([session]);
+  }
+
+  /**
+   * Delete and save in one transaction. Deletes go first: a moved segment
+   * is re-inserted under its id, which must be free by then.
+   *
+   * @throws ForeignKeyConstraintError when a category does not exist
+   * @throws UniqueConstraintError when a second session would be active
+   */
+  async saveAndDelete(
+    sessionsToSave: Session[],
+    deletedIds: ULID[],
+  ): Promise<void> {
+    await withConstraintErrors(() =>
+      this.db.transaction((tx) => {
+        for (const id of deletedIds) {
+          tx.delete(sessions).where(eq(sessions.id, id)).run();
+        }
+
+        for (const session of sessionsToSave) {
+          this.write(tx, session);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Save several sessions in one transaction: either all of them are stored or none
+   *
+   * @throws ForeignKeyConstraintError when a category does not exist
+   * @throws UniqueConstraintError when a second session would be active
+   */
+  async saveMany(sessionsToSave: Session[]): Promise<void> {
+    await this.saveAndDelete(sessionsToSave, []);
+  }
+
+  /**
+   * Load segments and tags for the session rows and map them to aggregates.
+   * Children are queried per batch of session ids, not per session.
+   */
+  private async load(sessionRows: SessionRow[]): Promise<Session[]> {
+    let segmentRows: SessionSegmentRow[] = [];
+    let tagRows: SessionTagRow[] = [];
+
+    for (const ids of chunk(
+      sessionRows.map((row) => row.id),
+      ID_BATCH_SIZE,
+    )) {
+      segmentRows = segmentRows.concat(
+        await this.db
+          .select()
+          .from(sessionSegments)
+          .where(inArray(sessionSegments.sessionId, ids))
+          .orderBy(sessionSegments.sessionId, sessionSegments.startedAt),
+      );
+      tagRows = tagRows.concat(
+        await this.db
+          .select()
+          .from(sessionTags)
+          .where(inArray(sessionTags.sessionId, ids)),
+      );
+    }
+
+    return this.mapper.toDomainMany(sessionRows, segmentRows, tagRows);
+  }
+
+  private toCondition(spec: Specification<Session>): SQL | null {
+    const criteria = spec.toCriteria();
+
+    return criteria === null ? null : this.compiler.compile(criteria);
+  }
+
+  /**
+   * Write a session with its segments using the given transaction.
+   * Drizzle transactions over sqlite drivers are synchronous,
+   * so queries are executed with run()/all() instead of being awaited.
+   */
+  private write(tx: DbTransaction, session: Session): void {
     const sessionRow = this.mapper.sessionToPersistence(session);
     const allSegments = this.mapper.getAllSegments(session);
 
     // Check if session exists
-    const existing = await this.db
+    const existing = tx
       .select()
       .from(sessions)
       .where(eq(sessions.id, session.id))
-      .limit(1);
+      .limit(1)
+      .all();
 
     // Save or update session
     if (existing.length > 0) {
-      await this.db
-        .update(sessions)
+      tx.update(sessions)
         .set(sessionRow)
-        .where(eq(sessions.id, session.id));
+        .where(eq(sessions.id, session.id))
+        .run();
     } else {
-      await this.db.insert(sessions).values(sessionRow);
+      tx.insert(sessions).values(sessionRow).run();
     }
 
     // Delete old segments and insert new ones
     // This is a simple approach - delete all and re-insert
-    await this.db
-      .delete(sessionSegments)
-      .where(eq(sessionSegments.sessionId, session.id));
+    tx.delete(sessionSegments)
+      .where(eq(sessionSegments.sessionId, session.id))
+      .run();
 
     // Insert all segments
     if (allSegments.length > 0) {
@@ -120,7 +278,16 @@ export class SqliteSessionRepository implements ISessionRepository {
         this.mapper.segmentToPersistence(segment, session.id),
       );
 
-      await this.db.insert(sessionSegments).values(segmentRows);
+      tx.insert(sessionSegments).values(segmentRows).run();
+    }
+
+    // Tags are replaced the same way
+    const tagRows = this.mapper.tagsToPersistence(session);
+
+    tx.delete(sessionTags).where(eq(sessionTags.sessionId, session.id)).run();
+
+    if (tagRows.length > 0) {
+      tx.insert(sessionTags).values(tagRows).run();
     }
   }
 }
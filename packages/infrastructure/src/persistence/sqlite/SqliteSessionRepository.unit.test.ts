@@ -1,17 +1,28 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
+import { SQLiteSyncDialect } from "drizzle-orm/sqlite-core";
+import { chunk } from "es-toolkit";
 import { Container } from "inversify";
+import initSqlJs, { type Database } from "sql.js";
 
-import { Session } from "@wimt/domain/aggregates";
+import type { Page } from "@wimt/domain/repositories";
+
+import { Category, Session } from "@wimt/domain/aggregates";
 import { SessionSegment } from "@wimt/domain/entities";
 import {
   ActiveSessionSpec,
   StoppedSessionSpec,
   SessionForCategorySpec,
+  SessionHasTagSpec,
 } from "@wimt/domain/specifications";
-import { DateTime, makeId } from "@wimt/domain/valueObjects";
-
-import { DbClientSymbol } from "./db-client";
+import { CategoryName, DateTime, Tag, makeId } from "@wimt/domain/valueObjects";
+
+import { compareKeys, sessionSortKey } from "../paging";
+import { createSqlJsDbClient, DbClientSymbol } from "./db-client";
+import { SessionMapper } from "./mappers/SessionMapper";
+import { migrate } from "./migrations";
+import { sessions, sessionSegments, sessionTags } from "./schema";
+import { SqliteCategoryRepository } from "./SqliteCategoryRepository";
 import { SqliteSessionRepository } from "./SqliteSessionRepository";
 
 // Enhanced mock for sessions with multiple tables
@@ -28,24 +39,69 @@ const createMockDbClient = () => {
     return tables.get(table)!;
   };
 
-  return {
+  const dialect = new SQLiteSyncDialect();
+  const conditions: any[] = [];
+
+  // Interprets `column = ?`, `column in (...)`, `column is null` and
+  // `column is not null`, any other condition matches every row
+  const matches = (table: any, condition: any) => {
+    if (condition === undefined) return () => true;
+
+    const { sql, params } = dialect.sqlToQuery(condition);
+    const match =
+      /^"\w+"\."(\w+)" (= \?|in \([?, ]+\)|is null|is not null)$/.exec(sql);
+
+    if (!match) return () => true;
+
+    const key = Object.keys(table).find((k) => table[k]?.name === match[1])!;
+    const operator = match[2]!;
+    const values = new Set(params);
+
+    return (row: any) => {
+      if (operator.startsWith("=") || operator.startsWith("in")) {
+        return values.has(row[key]);
+      }
+
+      return (row[key] == null) === (operator === "is null");
+    };
+  };
+
+  // Mirrors drizzle sync builders: awaitable, or executed with run()/all()
+  const query = <T>(execute: () => T) => ({
+    all: execute,
+    run: execute,
+    then: (resolve: any, reject?: any) =>
+      Promise.resolve().then(execute).then(resolve, reject),
+  });
+
+  const client = {
+    $count: (table: any) => Promise.resolve(getStorage(table).size),
     select: () => ({
       from: (table: any) => {
         currentTable = table;
 
         const storage = getStorage(table);
+        const all = () => Array.from(storage.values());
 
         return {
-          where: (condition: any) => ({
-            limit: (n: number) => {
-              const all = Array.from(storage.values());
-
-              return Promise.resolve(all.slice(0, n));
-            },
-          }),
-          then: (resolve: any) => {
-            resolve(Array.from(storage.values()));
+          where: (condition: any) => {
+            const filtered = () => all().filter(matches(table, condition));
+
+            conditions.push(condition);
+
+            return {
+              limit: (n: number) => query(() => filtered().slice(0, n)),
+              // Rows keep insertion order, ORDER BY is not applied
+              orderBy: () => ({
+                limit: (n: number) => ({
+                  offset: (m: number) =>
+                    query(() => filtered().slice(m, m + n)),
+                }),
+              }),
+              ...query(filtered),
+            };
           },
+          ...query(all),
         };
       },
     }),
@@ -55,13 +111,15 @@ const createMockDbClient = () => {
       const storage = getStorage(table);
 
       return {
-        values: (data: any | any[]) => {
-          const items = Array.isArray(data) ? data : [data];
-
-          items.forEach((item) => storage.set(item.id, item));
-
-          return Promise.resolve();
-        },
+        values: (data: any | any[]) =>
+          query(() => {
+            const items = Array.isArray(data) ? data : [data];
+
+            // Tag rows have no id, they are keyed like their primary key
+            items.forEach((item) =>
+              storage.set(item.id ?? `${item.sessionId}/${item.tag}`, item),
+            );
+          }),
       };
     },
     update: (table: any) => {
@@ -71,11 +129,19 @@ const createMockDbClient = () => {
 
       return {
         set: (data: any) => ({
-          where: (condition: any) => {
-            storage.set(data.id, data);
-
-            return Promise.resolve();
-          },
+          where: (condition: any) =>
+            query(() => {
+              if (data.id) {
+                storage.set(data.id, data);
+
+                return;
+              }
+
+              // Partial bulk update - applied to every row
+              storage.forEach((row, id) =>
+                storage.set(id, { ...row, ...data }),
+              );
+            }),
         }),
       };
     },
@@ -85,15 +151,48 @@ const createMockDbClient = () => {
       const storage = getStorage(table);
 
       return {
-        where: (condition: any) => {
-          // Simple delete - just clear the last item
-          storage.clear();
-
-          return Promise.resolve();
-        },
+        where: (condition: any) =>
+          query(() => {
+            // Simple delete - just clear the last item
+            storage.clear();
+          }),
       };
     },
+    transaction: (fn: (tx: any) => any) => {
+      // Snapshot storage to emulate rollback
+      const snapshot = new Map(
+        Array.from(tables.entries()).map(([table, rows]) => [
+          table,
+          new Map(rows),
+        ]),
+      );
+
+      try {
+        return fn(client);
+      } catch (error) {
+        tables.clear();
+        snapshot.forEach((rows, table) => tables.set(table, rows));
+
+        throw error;
+      }
+    },
   };
+
+  return Object.assign(client, { conditions });
+};
+
+// Migrated sql.js database with a category for sessions to reference
+const createSqlJsRepository = async (sqlJsDb?: Database) => {
+  const db = createSqlJsDbClient(sqlJsDb ?? new (await initSqlJs()).Database());
+  const category = new Category({
+    name: CategoryName.create("Work"),
+    createdAt: DateTime.create(0),
+  });
+
+  migrate(db);
+  await new SqliteCategoryRepository(db).save(category);
+
+  return { db, category, repository: new SqliteSessionRepository(db) };
 };
 
 describe("SqliteSessionRepository", () => {
@@ -175,6 +274,33 @@ describe("SqliteSessionRepository", () => {
 
       expect(found?.state).toBe("paused");
     });
+
+    it("should write session tags to session_tags", async () => {
+      const insertSpy = jest.spyOn(mockDb, "insert");
+      const session = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+        tags: [Tag.create("deep-work")],
+      });
+
+      await repository.save(session);
+
+      expect(insertSpy).toHaveBeenCalledWith(sessionTags);
+    });
+
+    it("should not insert tag rows for untagged sessions", async () => {
+      const insertSpy = jest.spyOn(mockDb, "insert");
+      const session = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+      });
+
+      await repository.save(session);
+
+      expect(insertSpy).not.toHaveBeenCalledWith(sessionTags);
+    });
   });
 
   describe("findAll", () => {
@@ -195,6 +321,59 @@ describe("SqliteSessionRepository", () => {
 
       expect(all.length).toBe(2);
     });
+
+    it("should load 10k sessions with a bounded number of statements", async () => {
+      const SESSIONS = 10_000;
+      const mapper = new SessionMapper();
+      const { db, category, repository } = await createSqlJsRepository();
+      const seeded = Array.from({ length: SESSIONS }, (_, i) => {
+        const startedAt = DateTime.create(i * 60_000);
+
+        return new Session({
+          id: makeId(),
+          categoryId: category.id,
+          createdAt: startedAt,
+          activeSegment: null,
+          history: [
+            new SessionSegment({
+              startedAt,
+              stoppedAt: startedAt.add(30, "second"),
+            }),
+          ],
+          stoppedAt: startedAt.add(30, "second"),
+          tags: [Tag.create("bulk")],
+        });
+      });
+
+      // Seed in batches to stay under the bound variable limit
+      for (const batch of chunk(seeded, 1000)) {
+        db.insert(sessions)
+          .values(batch.map((session) => mapper.sessionToPersistence(session)))
+          .run();
+        db.insert(sessionSegments)
+          .values(
+            batch.flatMap((session) =>
+              session.history.map((segment) =>
+                mapper.segmentToPersistence(segment, session.id),
+              ),
+            ),
+          )
+          .run();
+        db.insert(sessionTags)
+          .values(batch.flatMap((session) => mapper.tagsToPersistence(session)))
+          .run();
+      }
+
+      const selectSpy = jest.spyOn(db, "select");
+      const all = await repository.findAll();
+
+      expect(all.length).toBe(SESSIONS);
+      expect(all.every((session) => session.history.length === 1)).toBe(true);
+      expect(all.every((session) => session.tags.length === 1)).toBe(true);
+      // One query for sessions plus one per table and batch of ids
+      expect(selectSpy.mock.calls.length).toBeLessThanOrEqual(50);
+      expect(await repository.count()).toBe(SESSIONS);
+    }, 30_000);
   });
 
   describe("findManyBySpec", () => {
@@ -237,6 +416,7 @@ describe("SqliteSessionRepository", () => {
 
       const now = DateTime.create(Date.now());
       const stoppedSession = new Session({
+        id: makeId(), // Provide ID to prevent auto-start
         categoryId: makeId(),
         createdAt: now,
         activeSegment: null,
@@ -281,6 +461,47 @@ describe("SqliteSessionRepository", () => {
       expect(filtered.length).toBe(1);
       expect(filtered[0]!.categoryId).toBe(categoryId1);
     });
+    it("should compile translatable specifications into the WHERE clause", async () => {
+      const findAllSpy = jest.spyOn(repository, "findAll");
+      const categoryId = makeId();
+
+      await repository.findManyBySpec(
+        new StoppedSessionSpec().and(new SessionForCategorySpec(categoryId)),
+      );
+
+      expect(findAllSpy).not.toHaveBeenCalled();
+      expect(new SQLiteSyncDialect().sqlToQuery(mockDb.conditions[0])).toEqual(
+        expect.objectContaining({
+          sql: '("sessions"."stopped_at" is not null and "sessions"."category_id" = ?)',
+          params: [categoryId],
+        }),
+      );
+    });
+
+    it("should filter in memory when the specification does not translate", async () => {
+      const findAllSpy = jest.spyOn(repository, "findAll");
+      const untagged = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+      });
+      const tagged = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+        tags: [Tag.create("deep-work")],
+      });
+
+      await repository.save(untagged);
+      await repository.save(tagged);
+
+      const filtered = await repository.findManyBySpec(
+        new SessionHasTagSpec(Tag.create("deep-work")),
+      );
+
+      expect(findAllSpy).toHaveBeenCalled();
+      expect(filtered.map((session) => session.id)).toEqual([tagged.id]);
+    });
   });
 
   describe("findOneBySpec", () => {
@@ -322,12 +543,64 @@ describe("SqliteSessionRepository", () => {
 
       expect(found).toBeNull();
     });
+
+    it("should leave no segment or tag rows behind on sql.js", async () => {
+      const SQL = await initSqlJs();
+      const migrated = new SQL.Database();
+      const { category } = await createSqlJsRepository(migrated);
+      // Reopened like a stored database, without running migrate again
+      const reopened = new SQL.Database(migrated.export());
+      const sqlJsRepository = new SqliteSessionRepository(
+        createSqlJsDbClient(reopened),
+      );
+      const session = new Session({
+        categoryId: category.id,
+        createdAt: DateTime.create(0),
+      });
+
+      session.addTag(Tag.create("focus"), DateTime.create(1000));
+      session.stop(DateTime.create(2000));
+      await sqlJsRepository.save(session);
+      await sqlJsRepository.delete(session.id);
+
+      const rows = (table: string) =>
+        reopened.exec(`SELECT COUNT(*) FROM ${table}`)[0]?.values[0]?.[0];
+
+      expect(rows("session_segments")).toBe(0);
+      expect(rows("session_tags")).toBe(0);
+    });
   });
 
   describe("count", () => {
-    it("should return correct count of sessions", async () => {
+    it("should count session rows on sql.js", async () => {
+      const { category, repository } = await createSqlJsRepository();
+      const stopped = (createdAtMs: number) =>
+        new Session({
+          id: makeId(),
+          categoryId: category.id,
+          createdAt: DateTime.create(createdAtMs),
+          activeSegment: null,
+          history: [
+            new SessionSegment({
+              startedAt: DateTime.create(createdAtMs),
+              stoppedAt: DateTime.create(createdAtMs + 1000),
+            }),
+          ],
+          stoppedAt: DateTime.create(createdAtMs + 1000),
+        });
+
       expect(await repository.count()).toBe(0);
 
+      await repository.save(stopped(0));
+      expect(await repository.count()).toBe(1);
+
+      await repository.save(stopped(2000));
+      expect(await repository.count()).toBe(2);
+    });
+  });
+
+  describe("saveMany", () => {
+    it("should save all sessions", async () => {
       const session1 = new Session({
         categoryId: makeId(),
         createdAt: DateTime.create(Date.now()),
@@ -337,11 +610,239 @@ describe("SqliteSessionRepository", () => {
         createdAt: DateTime.create(Date.now()),
       });
 
-      await repository.save(session1);
-      expect(await repository.count()).toBe(1);
+      await repository.saveMany([session1, session2]);
 
-      await repository.save(session2);
       expect(await repository.count()).toBe(2);
     });
+
+    it("should save nothing when one of the sessions fails", async () => {
+      const session1 = new Session({
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+      });
+      const session2 = new Session({
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+      });
+      const insert = mockDb.insert;
+
+      let calls = 0;
+
+      // Fail on the second session insert (1: session1, 2: its segments)
+      jest.spyOn(mockDb, "insert").mockImplementation((table: any) => {
+        calls += 1;
+
+        if (calls === 3) {
+          throw new Error("disk I/O error");
+        }
+
+        return insert(table);
+      });
+
+      await expect(repository.saveMany([session1, session2])).rejects.toThrow(
+        "disk I/O error",
+      );
+      expect(await repository.count()).toBe(0);
+    });
+  });
+
+  describe("findPage", () => {
+    const stoppedSession = (stoppedAtMs: number) =>
+      new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(0),
+        activeSegment: null,
+        history: [
+          new SessionSegment({
+            startedAt: DateTime.create(0),
+            stoppedAt: DateTime.create(stoppedAtMs),
+          }),
+        ],
+        stoppedAt: DateTime.create(stoppedAtMs),
+      });
+
+    it("should continue after the cursor in SQL", async () => {
+      const findAllSpy = jest.spyOn(repository, "findAll");
+      const session = stoppedSession(60_000);
+      const cursor = JSON.stringify(["stoppedAt", "desc", 120_000, "01LAST"]);
+
+      await repository.save(session);
+
+      const page = await repository.findPage(
+        { limit: 1, sortBy: "stoppedAt", direction: "desc", cursor },
+        new StoppedSessionSpec(),
+      );
+      const dialect = new SQLiteSyncDialect();
+
+      expect(findAllSpy).not.toHaveBeenCalled();
+      expect(
+        mockDb.conditions.map((condition) => dialect.sqlToQuery(condition)),
+      ).toContainEqual(
+        expect.objectContaining({
+          sql: '("sessions"."stopped_at" is not null and (coalesce("sessions"."stopped_at", ?) < ? or (coalesce("sessions"."stopped_at", ?) = ? and "sessions"."id" < ?)))',
+          params: [
+            Number.MAX_SAFE_INTEGER,
+            120_000,
+            Number.MAX_SAFE_INTEGER,
+            120_000,
+            "01LAST",
+          ],
+        }),
+      );
+      expect(page.items.map((s) => s.id)).toEqual([session.id]);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it("should return a cursor to the last item when more rows follow", async () => {
+      const first = stoppedSession(60_000);
+
+      await repository.saveMany([first, stoppedSession(120_000)]);
+
+      const page = await repository.findPage({ limit: 1, sortBy: "stoppedAt" });
+
+      expect(page.items.map((s) => s.id)).toEqual([first.id]);
+      expect(JSON.parse(page.nextCursor!)).toEqual([
+        "stoppedAt",
+        "asc",
+        60_000,
+        first.id,
+      ]);
+    });
+
+    it("should page in memory when the specification does not translate", async () => {
+      const findAllSpy = jest.spyOn(repository, "findAll");
+      const tagged = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(0),
+        tags: [Tag.create("deep-work")],
+      });
+
+      await repository.save(tagged);
+
+      const page = await repository.findPage(
+        { limit: 10 },
+        new SessionHasTagSpec(Tag.create("deep-work")),
+      );
+
+      expect(findAllSpy).toHaveBeenCalled();
+      expect(page.items.map((s) => s.id)).toEqual([tagged.id]);
+    });
+
+    describe("on sql.js", () => {
+      let sqlJsRepository: SqliteSessionRepository;
+      let all: Session[];
+
+      beforeAll(async () => {
+        const created = await createSqlJsRepository();
+        const { category } = created;
+
+        sqlJsRepository = created.repository;
+
+        // Every sort key is shared by several sessions: createdAt 0 or
+        // 1000, a 500ms duration, stoppedAt 5000 or still running
+        const stopped = Array.from(
+          { length: 6 },
+          (_, i) =>
+            new Session({
+              id: makeId(),
+              categoryId: category.id,
+              createdAt: DateTime.create(i % 2 === 0 ? 0 : 1000),
+              activeSegment: null,
+              history: [
+                new SessionSegment({
+                  startedAt: DateTime.create(4500),
+                  stoppedAt: DateTime.create(5000),
+                }),
+              ],
+              stoppedAt: DateTime.create(5000),
+            }),
+        );
+        const paused = new Session({
+          categoryId: category.id,
+          createdAt: DateTime.create(1000),
+        });
+        const active = new Session({
+          categoryId: category.id,
+          createdAt: DateTime.create(0),
+        });
+
+        paused.pause(DateTime.create(1500));
+        all = [...stopped, paused, active];
+        await sqlJsRepository.saveMany(all);
+      });
+
+      it.each([
+        ["createdAt", "asc"],
+        ["createdAt", "desc"],
+        ["duration", "asc"],
+        ["duration", "desc"],
+        ["stoppedAt", "asc"],
+        ["stoppedAt", "desc"],
+      ] as const)(
+        "should visit every row once by %s %s across cursors",
+        async (sortBy, direction) => {
+          const sign = direction === "asc" ? 1 : -1;
+          const expected = [...all]
+            .sort(
+              (a, b) =>
+                sign *
+                compareKeys(
+                  [sessionSortKey(a, sortBy), a.id],
+                  [sessionSortKey(b, sortBy), b.id],
+                ),
+            )
+            .map((s) => s.id);
+          const visited: string[] = [];
+
+          let cursor: string | null = null;
+
+          do {
+            const page: Page<Session> = await sqlJsRepository.findPage({
+              limit: 2,
+              sortBy,
+              direction,
+              cursor,
+            });
+
+            visited.push(...page.items.map((s) => s.id));
+            cursor = page.nextCursor;
+          } while (cursor !== null);
+
+          expect(visited).toEqual(expected);
+        },
+      );
+    });
+  });
+
+  describe("reassignCategory", () => {
+    it("should move sessions to another category", async () => {
+      const fromCategoryId = makeId();
+      const toCategoryId = makeId();
+      const session = new Session({
+        categoryId: fromCategoryId,
+        createdAt: DateTime.create(Date.now()),
+      });
+
+      await repository.save(session);
+
+      const ids = await repository.reassignCategory(
+        [fromCategoryId],
+        toCategoryId,
+      );
+
+      expect(ids).toEqual([session.id]);
+      expect((await repository.findById(session.id))?.categoryId).toBe(
+        toCategoryId,
+      );
+    });
+
+    it("should do nothing without source categories", async () => {
+      const updateSpy = jest.spyOn(mockDb, "update");
+
+      expect(await repository.reassignCategory([], makeId())).toEqual([]);
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
   });
 });
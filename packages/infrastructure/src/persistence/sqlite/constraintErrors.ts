@@ -0,0 +1,39 @@
+import { ForeignKeyConstraintError, UniqueConstraintError } from "../../errors";
+
+/**
+ * Run a write and rethrow SQLite constraint failures as typed errors.
+ *
+ * Drizzle wraps driver errors, and expo-sqlite wraps the SQLite message
+ * once more, so the whole cause chain is searched.
+ */
+export async function withConstraintErrors<T>(
+  write: () => Promise<T> | T,
+): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    throw toConstraintError(error) ?? error;
+  }
+}
+
+function toConstraintError(
+  error: unknown,
+): ForeignKeyConstraintError | UniqueConstraintError | null {
+  for (let cause = error; cause instanceof Error; cause = cause.cause) {
+    if (cause.message.includes("FOREIGN KEY constraint failed")) {
+      return new ForeignKeyConstraintError({ cause: error });
+    }
+
+    const unique = /UNIQUE constraint failed: (?:index '([^']+)'|(.+))/.exec(
+      cause.message,
+    );
+
+    if (unique) {
+      return new UniqueConstraintError((unique[1] ?? unique[2])!.trim(), {
+        cause: error,
+      });
+    }
+  }
+
+  return null;
+}
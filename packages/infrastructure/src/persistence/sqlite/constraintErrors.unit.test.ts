@@ -0,0 +1,139 @@
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import { CategoryName, DateTime, makeId, Tag } from "@wimt/domain/valueObjects";
+
+import { ForeignKeyConstraintError, UniqueConstraintError } from "../../errors";
+import { withConstraintErrors } from "./constraintErrors";
+import { createSqlJsDbClient } from "./db-client";
+import { migrate } from "./migrations";
+import { SqliteCategoryRepository } from "./SqliteCategoryRepository";
+import { SqliteSessionRepository } from "./SqliteSessionRepository";
+
+describe("withConstraintErrors", () => {
+  let SQL: SqlJsStatic;
+  let sqlJsDb: Database;
+  let categoryRepo: SqliteCategoryRepository;
+  let sessionRepo: SqliteSessionRepository;
+  let category: Category;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(async () => {
+    sqlJsDb = new SQL.Database();
+
+    const db = createSqlJsDbClient(sqlJsDb);
+
+    migrate(db);
+    categoryRepo = new SqliteCategoryRepository(db);
+    sessionRepo = new SqliteSessionRepository(db);
+
+    category = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(0),
+    });
+    await categoryRepo.save(category);
+  });
+
+  afterEach(() => {
+    sqlJsDb.close();
+  });
+
+  const startSession = (categoryId = category.id, at = 0) =>
+    new Session({ categoryId, createdAt: DateTime.create(at) });
+
+  const rowCount = (table: string) =>
+    sqlJsDb.exec(`SELECT COUNT(*) FROM ${table}`)[0]?.values[0]?.[0];
+
+  it("should reject a session of a missing category", async () => {
+    await expect(sessionRepo.save(startSession(makeId()))).rejects.toThrow(
+      ForeignKeyConstraintError,
+    );
+    expect(await sessionRepo.count()).toBe(0);
+  });
+
+  it("should refuse to delete a category that has sessions", async () => {
+    const session = startSession();
+
+    await sessionRepo.save(session);
+
+    await expect(categoryRepo.delete(category.id)).rejects.toThrow(
+      ForeignKeyConstraintError,
+    );
+
+    await sessionRepo.delete(session.id);
+    await categoryRepo.delete(category.id);
+
+    expect(await categoryRepo.count()).toBe(0);
+  });
+
+  it("should delete segments and tags with their session", async () => {
+    const session = startSession();
+
+    session.addTag(Tag.create("focus"), DateTime.create(10));
+    session.pause(DateTime.create(1000));
+    session.resume(DateTime.create(2000));
+    await sessionRepo.save(session);
+    await sessionRepo.delete(session.id);
+
+    expect(rowCount("session_segments")).toBe(0);
+    expect(rowCount("session_tags")).toBe(0);
+  });
+
+  it("should allow only one active session", async () => {
+    const paused = startSession();
+
+    paused.pause(DateTime.create(1000));
+    await sessionRepo.save(paused);
+    await sessionRepo.save(startSession(category.id, 2000));
+
+    const error = await sessionRepo
+      .saveMany([startSession(category.id, 3000)])
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(error).toMatchObject({ constraint: "sessions_one_active_unique" });
+    expect(await sessionRepo.count()).toBe(2);
+  });
+
+  it("should reject a category name that is taken", async () => {
+    const namesake = new Category({
+      name: CategoryName.create("WORK"),
+      createdAt: DateTime.create(0),
+    });
+
+    await expect(categoryRepo.save(namesake)).rejects.toMatchObject({
+      name: "UniqueConstraintError",
+      constraint: "categories.name_key",
+    });
+  });
+
+  it("should find the SQLite message in wrapped driver errors", async () => {
+    // As thrown by expo-sqlite, wrapped once more by drizzle
+    const driverError = new Error(
+      "Call to function 'NativeStatement.finalizeSync' has been rejected.\n→ Caused by: Error code 19: FOREIGN KEY constraint failed",
+    );
+    const error = new Error("Failed to run the query", { cause: driverError });
+
+    await expect(
+      withConstraintErrors(() => {
+        throw error;
+      }),
+    ).rejects.toMatchObject({
+      name: "ForeignKeyConstraintError",
+      cause: error,
+    });
+  });
+
+  it("should rethrow other errors unchanged", async () => {
+    const error = new Error("disk I/O error");
+
+    await expect(
+      withConstraintErrors(() => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+  });
+});
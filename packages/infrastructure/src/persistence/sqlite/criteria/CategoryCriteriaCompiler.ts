@@ -0,0 +1,39 @@
+import { and, eq, isNotNull, not, or, type SQL, sql } from "drizzle-orm";
+
+import type { CategorySortField } from "@wimt/domain/repositories";
+import type { CategoryCriterion, Criteria } from "@wimt/domain/specifications";
+
+import { categories } from "../schema";
+
+/**
+ * Compiles category specification criteria into a WHERE condition on categories,
+ * and sort fields into ORDER BY expressions
+ */
+export class CategoryCriteriaCompiler {
+  compile(criteria: Criteria<CategoryCriterion>): SQL {
+    switch (criteria.kind) {
+      case "and":
+        return and(...criteria.operands.map((c) => this.compile(c)))!;
+      case "or":
+        return or(...criteria.operands.map((c) => this.compile(c)))!;
+      case "not":
+        return not(this.compile(criteria.operand));
+      case "archived":
+        return isNotNull(categories.archivedAt);
+      case "nameKey":
+        return eq(categories.nameKey, criteria.key);
+    }
+  }
+
+  /**
+   * Expression categories are paged by, mirroring categorySortKey
+   */
+  sortKey(sortBy: CategorySortField): SQL {
+    switch (sortBy) {
+      case "createdAt":
+        return sql`${categories.createdAt}`;
+      case "name":
+        return sql`${categories.nameKey}`;
+    }
+  }
+}
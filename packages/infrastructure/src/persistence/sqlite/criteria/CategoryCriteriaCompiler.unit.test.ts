@@ -0,0 +1,33 @@
+import { SQLiteSyncDialect } from "drizzle-orm/sqlite-core";
+
+import { CategoryCriteriaCompiler } from "./CategoryCriteriaCompiler";
+
+describe("CategoryCriteriaCompiler", () => {
+  const dialect = new SQLiteSyncDialect();
+  const compiler = new CategoryCriteriaCompiler();
+
+  it("should compile archived state and name key", () => {
+    const condition = compiler.compile({
+      kind: "or",
+      operands: [{ kind: "archived" }, { kind: "nameKey", key: "work" }],
+    });
+
+    expect(dialect.sqlToQuery(condition)).toEqual(
+      expect.objectContaining({
+        sql: '("categories"."archived_at" is not null or "categories"."name_key" = ?)',
+        params: ["work"],
+      }),
+    );
+  });
+
+  it("should negate criteria", () => {
+    const condition = compiler.compile({
+      kind: "not",
+      operand: { kind: "archived" },
+    });
+
+    expect(dialect.sqlToQuery(condition).sql).toBe(
+      'not "categories"."archived_at" is not null',
+    );
+  });
+});
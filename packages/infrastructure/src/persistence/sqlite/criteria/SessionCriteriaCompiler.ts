@@ -0,0 +1,145 @@
+import {
+  and,
+  eq,
+  gt,
+  gte,
+  isNotNull,
+  isNull,
+  lt,
+  not,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+
+import type { SessionState } from "@wimt/domain/aggregates";
+import type { SessionSortField } from "@wimt/domain/repositories";
+import type { Criteria, SessionCriterion } from "@wimt/domain/specifications";
+import type { DateTime, TimeRange } from "@wimt/domain/valueObjects";
+
+import { NOT_STOPPED_SORT_VALUE } from "../../paging";
+import { sessions, sessionSegments } from "../schema";
+
+/**
+ * Compiles session specification criteria into a WHERE condition on sessions,
+ * and sort fields into ORDER BY expressions
+ *
+ * Every condition is true or false, never NULL, so NOT keeps the meaning
+ * of the negated specification.
+ */
+export class SessionCriteriaCompiler {
+  compile(criteria: Criteria<SessionCriterion>): SQL {
+    switch (criteria.kind) {
+      case "and":
+        return and(...criteria.operands.map((c) => this.compile(c)))!;
+      case "or":
+        return or(...criteria.operands.map((c) => this.compile(c)))!;
+      case "not":
+        return not(this.compile(criteria.operand));
+      case "category":
+        return eq(sessions.categoryId, criteria.categoryId);
+      case "createdIn":
+        return and(
+          gte(sessions.createdAt, this.toDate(criteria.range.start)),
+          lt(sessions.createdAt, this.toDate(criteria.range.end)),
+        )!;
+      case "durationAtLeast":
+        return this.durationAtLeast(criteria.ms);
+      case "overlaps":
+        return this.overlaps(criteria.range);
+      case "state":
+        return this.state(criteria.state);
+      case "stoppedIn":
+        return and(
+          isNotNull(sessions.stoppedAt),
+          gte(sessions.stoppedAt, this.toDate(criteria.range.start)),
+          lt(sessions.stoppedAt, this.toDate(criteria.range.end)),
+        )!;
+    }
+  }
+
+  /**
+   * Expression sessions are paged by, mirroring sessionSortKey
+   */
+  sortKey(sortBy: SessionSortField): SQL {
+    switch (sortBy) {
+      case "createdAt":
+        return sql`${sessions.createdAt}`;
+      case "duration":
+        return this.completedDuration();
+      case "stoppedAt":
+        return sql`coalesce(${sessions.stoppedAt}, ${NOT_STOPPED_SORT_VALUE})`;
+    }
+  }
+
+  /**
+   * Total of the stopped segments of a session
+   */
+  private completedDuration(): SQL {
+    return sql`(
+      select coalesce(sum(${sessionSegments.stoppedAt} - ${sessionSegments.startedAt}), 0)
+      from ${sessionSegments}
+      where ${sessionSegments.sessionId} = ${sessions.id}
+        and ${sessionSegments.stoppedAt} is not null
+    )`;
+  }
+
+  /**
+   * Stopped sessions whose stopped segments add up to at least ms,
+   * mirroring Session.getDuration
+   */
+  private durationAtLeast(ms: number): SQL {
+    return and(
+      isNotNull(sessions.stoppedAt),
+      sql`${this.completedDuration()} >= ${ms}`,
+    )!;
+  }
+
+  /**
+   * Sessions with a segment inside the range, a running segment is open-ended.
+   * Empty stopped segments and empty ranges never overlap, as in TimeRange.
+   */
+  private overlaps(range: TimeRange): SQL {
+    const startsBeforeEnd = lt(
+      sessionSegments.startedAt,
+      this.toDate(range.end),
+    );
+    const stoppedInside = range.isEmpty
+      ? undefined
+      : and(
+          gt(sessionSegments.stoppedAt, sessionSegments.startedAt),
+          gt(sessionSegments.stoppedAt, this.toDate(range.start)),
+        );
+
+    return sql`exists (
+      select 1 from ${sessionSegments}
+      where ${sessionSegments.sessionId} = ${sessions.id}
+        and ${startsBeforeEnd}
+        and ${or(isNull(sessionSegments.stoppedAt), stoppedInside)}
+    )`;
+  }
+
+  /**
+   * Session.state derived from the stored columns
+   */
+  private state(state: SessionState): SQL {
+    switch (state) {
+      case "active":
+        return and(
+          isNull(sessions.stoppedAt),
+          isNotNull(sessions.activeSegmentId),
+        )!;
+      case "paused":
+        return and(
+          isNull(sessions.stoppedAt),
+          isNull(sessions.activeSegmentId),
+        )!;
+      case "stopped":
+        return isNotNull(sessions.stoppedAt);
+    }
+  }
+
+  private toDate(dateTime: DateTime): Date {
+    return new Date(dateTime.value);
+  }
+}
@@ -0,0 +1,271 @@
+import { SQLiteSyncDialect } from "drizzle-orm/sqlite-core";
+import initSqlJs, { type Database } from "sql.js";
+
+import { Category, Session } from "@wimt/domain/aggregates";
+import {
+  ActiveSessionSpec,
+  type Criteria,
+  LongSessionSpec,
+  PausedSessionSpec,
+  SessionCreatedInRangeSpec,
+  type SessionCriterion,
+  SessionForCategorySpec,
+  SessionHasTagSpec,
+  SessionOverlapsRangeSpec,
+  SessionStoppedInRangeSpec,
+  type Specification,
+  StoppedSessionSpec,
+} from "@wimt/domain/specifications";
+import {
+  CategoryName,
+  DateTime,
+  makeId,
+  Tag,
+  TimeRange,
+} from "@wimt/domain/valueObjects";
+
+import { createSqlJsDbClient } from "../db-client";
+import { migrate } from "../migrations";
+import { sessions } from "../schema";
+import { SqliteCategoryRepository } from "../SqliteCategoryRepository";
+import { SqliteSessionRepository } from "../SqliteSessionRepository";
+import { SessionCriteriaCompiler } from "./SessionCriteriaCompiler";
+
+describe("SessionCriteriaCompiler", () => {
+  const dialect = new SQLiteSyncDialect();
+  const compiler = new SessionCriteriaCompiler();
+  const range = TimeRange.create(DateTime.create(1000), DateTime.create(2000));
+
+  const render = (criteria: Criteria<SessionCriterion>) => {
+    const { sql, params } = dialect.sqlToQuery(compiler.compile(criteria));
+
+    return { sql: sql.replace(/\s+/g, " ").trim(), params };
+  };
+
+  it("should compile session states from stopped_at and active_segment_id", () => {
+    expect(render({ kind: "state", state: "active" }).sql).toBe(
+      '("sessions"."stopped_at" is null and "sessions"."active_segment_id" is not null)',
+    );
+    expect(render({ kind: "state", state: "paused" }).sql).toBe(
+      '("sessions"."stopped_at" is null and "sessions"."active_segment_id" is null)',
+    );
+    expect(render({ kind: "state", state: "stopped" }).sql).toBe(
+      '"sessions"."stopped_at" is not null',
+    );
+  });
+
+  it("should compile half-open time ranges with millisecond bounds", () => {
+    expect(render({ kind: "createdIn", range })).toEqual({
+      sql: '("sessions"."created_at" >= ? and "sessions"."created_at" < ?)',
+      params: [1000, 2000],
+    });
+    expect(render({ kind: "stoppedIn", range })).toEqual({
+      sql: '("sessions"."stopped_at" is not null and "sessions"."stopped_at" >= ? and "sessions"."stopped_at" < ?)',
+      params: [1000, 2000],
+    });
+  });
+
+  it("should compile duration as the sum of stopped segments", () => {
+    const { sql, params } = render({ kind: "durationAtLeast", ms: 60_000 });
+
+    expect(sql).toContain('"sessions"."stopped_at" is not null');
+    expect(sql).toContain(
+      'select coalesce(sum("session_segments"."stopped_at" - "session_segments"."started_at"), 0)',
+    );
+    expect(sql).toMatch(/\) >= \?\)$/);
+    expect(params).toEqual([60_000]);
+  });
+
+  it("should compile overlaps as a segment subquery", () => {
+    const { sql, params } = render({ kind: "overlaps", range });
+
+    expect(sql).toMatch(/^exists \( select 1 from "session_segments"/);
+    expect(sql).toContain(
+      '("session_segments"."stopped_at" is null or ("session_segments"."stopped_at" > "session_segments"."started_at" and "session_segments"."stopped_at" > ?))',
+    );
+    expect(params).toEqual([2000, 1000]);
+  });
+
+  it("should only match running segments for an empty range", () => {
+    const empty = TimeRange.create(
+      DateTime.create(1000),
+      DateTime.create(1000),
+    );
+    const { sql, params } = render({ kind: "overlaps", range: empty });
+
+    expect(sql).toContain('and "session_segments"."stopped_at" is null )');
+    expect(params).toEqual([1000]);
+  });
+
+  it("should compose and, or and not", () => {
+    const categoryId = makeId();
+
+    expect(
+      render({
+        kind: "and",
+        operands: [
+          { kind: "category", categoryId },
+          {
+            kind: "not",
+            operand: {
+              kind: "or",
+              operands: [
+                { kind: "state", state: "stopped" },
+                { kind: "createdIn", range },
+              ],
+            },
+          },
+        ],
+      }),
+    ).toEqual({
+      sql: '("sessions"."category_id" = ? and not ("sessions"."stopped_at" is not null or ("sessions"."created_at" >= ? and "sessions"."created_at" < ?)))',
+      params: [categoryId, 1000, 2000],
+    });
+  });
+
+  describe("against sql.js", () => {
+    const at = (ms: number) => DateTime.create(ms);
+    const between = (start: number, end: number) =>
+      TimeRange.create(at(start), at(end));
+
+    let sqlJsDb: Database;
+    let db: ReturnType<typeof createSqlJsDbClient>;
+    let repo: SqliteSessionRepository;
+    let work: Category;
+    let all: Session[];
+
+    beforeAll(async () => {
+      const SQL = await initSqlJs();
+
+      sqlJsDb = new SQL.Database();
+      db = createSqlJsDbClient(sqlJsDb);
+      migrate(db);
+      repo = new SqliteSessionRepository(db);
+
+      const categories = new SqliteCategoryRepository(db);
+      const rest = new Category({
+        name: CategoryName.create("Rest"),
+        createdAt: at(0),
+      });
+
+      work = new Category({
+        name: CategoryName.create("Work"),
+        createdAt: at(0),
+      });
+      await categories.save(work);
+      await categories.save(rest);
+
+      // stopped work: 1000-1500, 1800-2500, tagged
+      const stoppedWork = new Session({
+        categoryId: work.id,
+        createdAt: at(1000),
+      });
+
+      stoppedWork.pause(at(1500));
+      stoppedWork.resume(at(1800));
+      stoppedWork.addTag(Tag.create("Focus"), at(2000));
+      stoppedWork.stop(at(2500));
+
+      // stopped rest: 3000-5000
+      const stoppedRest = Session.createCompleted({
+        categoryId: rest.id,
+        segments: [{ startedAt: at(3000), stoppedAt: at(5000) }],
+        loggedAt: at(9000),
+      });
+
+      // paused work: 6000-7000
+      const pausedWork = new Session({
+        categoryId: work.id,
+        createdAt: at(6000),
+      });
+
+      pausedWork.pause(at(7000));
+
+      // active rest: running since 8000
+      const activeRest = new Session({
+        categoryId: rest.id,
+        createdAt: at(8000),
+      });
+
+      all = [stoppedWork, stoppedRest, pausedWork, activeRest];
+      await repo.saveMany(all);
+    });
+
+    afterAll(() => {
+      sqlJsDb.close();
+    });
+
+    const matching = (spec: Specification<Session>) => {
+      const rows = db
+        .select({ id: sessions.id })
+        .from(sessions)
+        .where(compiler.compile(spec.toCriteria()!))
+        .all();
+
+      return rows.map((row) => row.id).sort();
+    };
+
+    const expectSame = (spec: Specification<Session>, expected: number[]) => {
+      const ids = expected.map((i) => all[i]!.id).sort();
+
+      // Exactly what isSatisfiedBy accepts, and what the case expects
+      expect(matching(spec)).toEqual(ids);
+      expect(
+        all
+          .filter((session) => spec.isSatisfiedBy(session))
+          .map((session) => session.id)
+          .sort(),
+      ).toEqual(ids);
+    };
+
+    it("should select sessions by state and category", () => {
+      expectSame(new StoppedSessionSpec(), [0, 1]);
+      expectSame(new PausedSessionSpec(), [2]);
+      expectSame(new ActiveSessionSpec(), [3]);
+      expectSame(new SessionForCategorySpec(work.id), [0, 2]);
+    });
+
+    it("should select sessions by time ranges and duration", () => {
+      expectSame(new SessionCreatedInRangeSpec(between(1000, 6000)), [0, 1]);
+      expectSame(new SessionStoppedInRangeSpec(between(2500, 5000)), [0]);
+      expectSame(new LongSessionSpec(1200), [0, 1]);
+      expectSame(new LongSessionSpec(1201), [1]);
+    });
+
+    it("should select sessions with a segment overlapping the range", () => {
+      // gap 1500-1800 of the stopped work session
+      expectSame(new SessionOverlapsRangeSpec(between(1500, 1800)), []);
+      expectSame(new SessionOverlapsRangeSpec(between(1700, 3001)), [0, 1]);
+      // touching the paused segment end, then the running segment
+      expectSame(new SessionOverlapsRangeSpec(between(7000, 8000)), []);
+      expectSame(new SessionOverlapsRangeSpec(between(7000, 8001)), [3]);
+      expectSame(new SessionOverlapsRangeSpec(between(99_000, 99_000)), [3]);
+    });
+
+    it("should compose and, or and not", () => {
+      const forWork = new SessionForCategorySpec(work.id);
+
+      expectSame(forWork.and(new StoppedSessionSpec()), [0]);
+      expectSame(new ActiveSessionSpec().or(new PausedSessionSpec()), [2, 3]);
+      expectSame(new StoppedSessionSpec().not(), [2, 3]);
+      expectSame(
+        forWork.not().and(new SessionOverlapsRangeSpec(between(0, 9000))),
+        [1, 3],
+      );
+    });
+
+    it("should filter tags in memory, they are not translatable", async () => {
+      const spec = new SessionHasTagSpec(Tag.create("focus")).and(
+        new StoppedSessionSpec(),
+      );
+
+      expect(spec.toCriteria()).toBeNull();
+      expect(
+        (await repo.findManyBySpec(spec)).map((session) => session.id),
+      ).toEqual([all[0]!.id]);
+      expect(
+        (await repo.findManyBySpec(spec.not())).map((session) => session.id),
+      ).toHaveLength(3);
+    });
+  });
+});
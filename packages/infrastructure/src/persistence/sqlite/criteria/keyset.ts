@@ -0,0 +1,35 @@
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+
+import { asc, desc, type SQL, sql } from "drizzle-orm";
+
+import type { PageRequest } from "../../paging";
+
+/**
+ * Rows after the cursor in the page order, undefined without a cursor
+ */
+export function afterCursor(
+  key: SQL,
+  id: SQLiteColumn,
+  page: PageRequest<string>,
+): SQL | undefined {
+  if (page.after === null) return undefined;
+
+  const { value, id: lastId } = page.after;
+
+  return page.direction === "asc"
+    ? sql`(${key} > ${value} or (${key} = ${value} and ${id} > ${lastId}))`
+    : sql`(${key} < ${value} or (${key} = ${value} and ${id} < ${lastId}))`;
+}
+
+/**
+ * ORDER BY the sort key with the id as tie-breaker
+ */
+export function pageOrder(
+  key: SQL,
+  id: SQLiteColumn,
+  page: PageRequest<string>,
+): SQL[] {
+  const direction = page.direction === "asc" ? asc : desc;
+
+  return [direction(key), direction(id)];
+}
@@ -10,17 +10,26 @@ export type DbClient =
   | ReturnType<typeof createExpoDbClient>
   | ReturnType<typeof createSqlJsDbClient>;
 
+export type DbTransaction = Parameters<
+  Parameters<DbClient["transaction"]>[0]
+>[0];
+
 /**
- * Create a drizzle client for React Native using expo-sqlite
+ * Create a drizzle client for React Native using expo-sqlite.
+ * SQLite leaves foreign keys off per connection, so cascades are enabled here.
  */
 export function createExpoDbClient(expoDb: SQLiteDatabase) {
+  expoDb.execSync("PRAGMA foreign_keys = ON");
+
   return drizzleExpo(expoDb, { schema });
 }
 
 /**
- * Create a drizzle client for web using sql.js
+ * Create a drizzle client for web using sql.js, with foreign keys enabled
  */
 export function createSqlJsDbClient(sqlJsDb: Database) {
+  sqlJsDb.run("PRAGMA foreign_keys = ON");
+
   return drizzleSqlJs(sqlJsDb, { schema });
 }
 
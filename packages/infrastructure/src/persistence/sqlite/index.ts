@@ -1,10 +1,20 @@
 export { SqliteCategoryRepository } from "./SqliteCategoryRepository";
 
+export { SqliteSessionRepository } from "./SqliteSessionRepository";
+
 export {
   createExpoDbClient,
   createSqlJsDbClient,
   DbClientSymbol,
   type DbClient,
+  type DbTransaction,
 } from "./db-client";
 
+export {
+  migrate,
+  MIGRATIONS,
+  type Migration,
+  type MigrationResult,
+} from "./migrations";
+
 export * as schema from "./schema";
@@ -21,6 +21,13 @@ export class CategoryMapper {
       createdAt: DateTime.create(row.createdAt.getTime()),
       color: row.color ? Color.create(row.color) : undefined,
       icon: row.icon ? Icon.create(row.icon) : undefined,
+      archivedAt: row.archivedAt
+        ? DateTime.create(row.archivedAt.getTime())
+        : null,
+      parentId: row.parentId as ULID | null,
+      updatedAt: row.updatedAt
+        ? DateTime.create(row.updatedAt.getTime())
+        : undefined,
     });
   }
 
@@ -38,9 +45,15 @@ export class CategoryMapper {
     return {
       id: category.id,
       name: category.name.value,
+      nameKey: category.name.key,
       createdAt: new Date(category.createdAt.value),
       color: category.color?.value ?? null,
       icon: category.icon?.value ?? null,
+      archivedAt: category.archivedAt
+        ? new Date(category.archivedAt.value)
+        : null,
+      parentId: category.parentId,
+      updatedAt: new Date(category.updatedAt.value),
     };
   }
 }
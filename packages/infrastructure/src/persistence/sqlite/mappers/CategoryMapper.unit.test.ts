@@ -13,9 +13,13 @@ describe("CategoryMapper", () => {
       const row: CategoryRow = {
         id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
         name: "Work",
+        nameKey: "work",
         createdAt: new Date("2024-01-01"),
         color: "#ff0000",
         icon: "briefcase",
+        archivedAt: null,
+        parentId: null,
+        updatedAt: null,
       };
 
       const category = mapper.toDomain(row);
@@ -30,9 +34,13 @@ describe("CategoryMapper", () => {
       const row: CategoryRow = {
         id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
         name: "Work",
+        nameKey: "work",
         createdAt: new Date("2024-01-01"),
         color: null,
         icon: null,
+        archivedAt: null,
+        parentId: null,
+        updatedAt: null,
       };
 
       const category = mapper.toDomain(row);
@@ -40,6 +48,59 @@ describe("CategoryMapper", () => {
       expect(category.color).toBeNull();
       expect(category.icon).toBeNull();
     });
+
+    it("should map archivedAt to an archived category", () => {
+      const row: CategoryRow = {
+        id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+        name: "Old Project",
+        nameKey: "old project",
+        createdAt: new Date("2024-01-01"),
+        color: null,
+        icon: null,
+        archivedAt: new Date("2024-02-01"),
+        parentId: null,
+        updatedAt: null,
+      };
+
+      const category = mapper.toDomain(row);
+
+      expect(category.isArchived).toBe(true);
+      expect(category.archivedAt?.value).toBe(row.archivedAt!.getTime());
+    });
+
+    it("should map parent_id to parentId", () => {
+      const row: CategoryRow = {
+        id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+        name: "Meetings",
+        nameKey: "meetings",
+        createdAt: new Date("2024-01-01"),
+        color: null,
+        icon: null,
+        archivedAt: null,
+        parentId: "01ARZ3NDEKTSV4RRFFQ69G5FAW",
+        updatedAt: null,
+      };
+
+      expect(mapper.toDomain(row).parentId).toBe(row.parentId);
+    });
+
+    it("should fall back to createdAt without updated_at", () => {
+      const row: CategoryRow = {
+        id: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+        name: "Work",
+        nameKey: "work",
+        createdAt: new Date("2024-01-01"),
+        color: null,
+        icon: null,
+        archivedAt: null,
+        parentId: null,
+        updatedAt: null,
+      };
+
+      expect(mapper.toDomain(row).updatedAt.value).toBe(
+        row.createdAt.getTime(),
+      );
+    });
   });
 
   describe("toPersistence", () => {
@@ -54,7 +115,23 @@ describe("CategoryMapper", () => {
 
       expect(row.id).toBe(category.id);
       expect(row.name).toBe("Work");
+      expect(row.nameKey).toBe("work");
       expect(row.color).toBe("#ff0000");
+      expect(row.archivedAt).toBeNull();
+    });
+
+    it("should map archived category to archived_at", () => {
+      const category = new Category({
+        name: CategoryName.create("Old Project"),
+        createdAt: DateTime.create(0),
+      });
+
+      category.archive(DateTime.create(1000));
+
+      const row = mapper.toPersistence(category);
+
+      expect(row.archivedAt).toEqual(new Date(1000));
+      expect(row.updatedAt).toEqual(new Date(1000));
     });
   });
 });
@@ -1,12 +1,16 @@
+import { groupBy } from "es-toolkit";
+
 import { Session } from "@wimt/domain/aggregates";
 import { SessionSegment } from "@wimt/domain/entities";
-import { DateTime, type ULID } from "@wimt/domain/valueObjects";
+import { DateTime, Note, Tag, type ULID } from "@wimt/domain/valueObjects";
 
 import type {
   SessionRow,
   NewSessionRow,
   SessionSegmentRow,
   NewSessionSegmentRow,
+  SessionTagRow,
+  NewSessionTagRow,
 } from "../schema";
 
 export class SessionMapper {
@@ -35,6 +39,7 @@ export class SessionMapper {
       sessionId: sessionId,
       startedAt: new Date(segment.startedAt.value),
       stoppedAt: segment.stoppedAt ? new Date(segment.stoppedAt.value) : null,
+      note: segment.note?.value ?? null,
     };
   }
 
@@ -48,15 +53,31 @@ export class SessionMapper {
       createdAt: new Date(session.createdAt.value),
       stoppedAt: session.stoppedAt ? new Date(session.stoppedAt.value) : null,
       activeSegmentId: session.activeSegment?.id || null,
+      note: session.note?.value ?? null,
     };
   }
 
   /**
-   * Convert database rows (session + segments) to domain entity
+   * Convert session tags to session_tags rows
+   */
+  tagsToPersistence(session: Session): NewSessionTagRow[] {
+    return session.tags.map((tag) => ({
+      sessionId: session.id,
+      tag: tag.value,
+    }));
+  }
+
+  /**
+   * Convert database rows (session + segments + tags) to domain entity
    */
-  toDomain(sessionRow: SessionRow, segmentRows: SessionSegmentRow[]): Session {
-    // Ensure segmentRows is an array
+  toDomain(
+    sessionRow: SessionRow,
+    segmentRows: SessionSegmentRow[],
+    tagRows: SessionTagRow[] = [],
+  ): Session {
+    // Ensure segmentRows and tagRows are arrays
     const segments = Array.isArray(segmentRows) ? segmentRows : [];
+    const tags = Array.isArray(tagRows) ? tagRows : [];
 
     // Map all segments
     const allSegments = segments.map((segmentRow) =>
@@ -80,9 +101,32 @@ export class SessionMapper {
         : null,
       activeSegment,
       history,
+      note: sessionRow.note ? Note.create(sessionRow.note) : null,
+      tags: tags.map((row) => Tag.create(row.tag)),
     });
   }
 
+  /**
+   * Convert rows loaded in batches to domain entities,
+   * segments and tags are grouped by session_id
+   */
+  toDomainMany(
+    sessionRows: SessionRow[],
+    segmentRows: SessionSegmentRow[],
+    tagRows: SessionTagRow[],
+  ): Session[] {
+    const segmentsBySession = groupBy(segmentRows, (row) => row.sessionId);
+    const tagsBySession = groupBy(tagRows, (row) => row.sessionId);
+
+    return sessionRows.map((sessionRow) =>
+      this.toDomain(
+        sessionRow,
+        segmentsBySession[sessionRow.id] ?? [],
+        tagsBySession[sessionRow.id] ?? [],
+      ),
+    );
+  }
+
   /**
    * Convert database segment row to domain SessionSegment
    */
@@ -91,6 +135,7 @@ export class SessionMapper {
       id: row.id as ULID,
       startedAt: this.toDateTime(row.startedAt),
       stoppedAt: row.stoppedAt ? this.toDateTime(row.stoppedAt) : null,
+      note: row.note ? Note.create(row.note) : null,
     });
   }
 
@@ -1,8 +1,8 @@
 import { Session } from "@wimt/domain/aggregates";
 import { SessionSegment } from "@wimt/domain/entities";
-import { DateTime, makeId } from "@wimt/domain/valueObjects";
+import { DateTime, Note, Tag, makeId } from "@wimt/domain/valueObjects";
 
-import type { SessionRow, SessionSegmentRow } from "../schema";
+import type { SessionRow, SessionSegmentRow, SessionTagRow } from "../schema";
 
 import { SessionMapper } from "./SessionMapper";
 
@@ -22,6 +22,7 @@ describe("SessionMapper", () => {
         createdAt: now,
         stoppedAt: null,
         activeSegmentId: activeSegmentId,
+        note: null,
       };
 
       const segmentRows: SessionSegmentRow[] = [
@@ -30,6 +31,7 @@ describe("SessionMapper", () => {
           sessionId: sessionId,
           startedAt: now,
           stoppedAt: null,
+          note: null,
         },
       ];
 
@@ -59,6 +61,7 @@ describe("SessionMapper", () => {
         createdAt: startTime,
         stoppedAt: stopTime,
         activeSegmentId: null,
+        note: null,
       };
 
       const segmentRows: SessionSegmentRow[] = [
@@ -67,12 +70,14 @@ describe("SessionMapper", () => {
           sessionId: sessionId,
           startedAt: startTime,
           stoppedAt: new Date("2024-01-01T10:25:00Z"), // 25 min
+          note: null,
         },
         {
           id: segment2Id,
           sessionId: sessionId,
           startedAt: new Date("2024-01-01T10:35:00Z"), // 10 min gap
           stoppedAt: stopTime,
+          note: null,
         },
       ];
 
@@ -98,6 +103,7 @@ describe("SessionMapper", () => {
         createdAt: now,
         stoppedAt: null,
         activeSegmentId: null,
+        note: null,
       };
 
       const segmentRows: SessionSegmentRow[] = [
@@ -106,6 +112,7 @@ describe("SessionMapper", () => {
           sessionId: sessionId,
           startedAt: now,
           stoppedAt: new Date(now.getTime() + 60000),
+          note: null,
         },
       ];
 
@@ -128,6 +135,7 @@ describe("SessionMapper", () => {
         createdAt: now,
         stoppedAt: null,
         activeSegmentId: null,
+        note: null,
       };
 
       const session = mapper.toDomain(sessionRow, []);
@@ -148,6 +156,7 @@ describe("SessionMapper", () => {
         createdAt: now,
         stoppedAt: null,
         activeSegmentId: null,
+        note: null,
       };
 
       // Pass non-array (simulating potential mock issue)
@@ -159,6 +168,70 @@ describe("SessionMapper", () => {
     });
   });
 
+  describe("toDomainMany", () => {
+    it("should group segments and tags by session", () => {
+      const now = new Date(1_000_000);
+      const sessionRow = (id: string): SessionRow => ({
+        id,
+        categoryId: makeId(),
+        createdAt: now,
+        stoppedAt: null,
+        activeSegmentId: null,
+        note: null,
+      });
+      const segmentRow = (sessionId: string): SessionSegmentRow => ({
+        id: makeId(),
+        sessionId,
+        startedAt: now,
+        stoppedAt: new Date(now.getTime() + 60_000),
+        note: null,
+      });
+      const [first, second, third] = [makeId(), makeId(), makeId()];
+
+      const sessions = mapper.toDomainMany(
+        [sessionRow(first), sessionRow(second), sessionRow(third)],
+        [segmentRow(second), segmentRow(first)],
+        [{ sessionId: second, tag: "focus" }],
+      );
+
+      expect(sessions.map((session) => session.id)).toEqual([
+        first,
+        second,
+        third,
+      ]);
+      expect(sessions.map((session) => session.history.length)).toEqual([
+        1, 1, 0,
+      ]);
+      expect(sessions.map((session) => session.tags.length)).toEqual([0, 1, 0]);
+    });
+  });
+
+  describe("tagsToPersistence", () => {
+    it("should map each tag to a session_tags row", () => {
+      const session = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+        tags: [Tag.create("Deep-Work"), Tag.create("client-a")],
+      });
+
+      expect(mapper.tagsToPersistence(session)).toEqual([
+        { sessionId: session.id, tag: "Deep-Work" },
+        { sessionId: session.id, tag: "client-a" },
+      ]);
+    });
+
+    it("should return no rows for an untagged session", () => {
+      const session = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+      });
+
+      expect(mapper.tagsToPersistence(session)).toEqual([]);
+    });
+  });
+
   describe("sessionToPersistence", () => {
     it("should map active Session to database row", () => {
       const session = new Session({
@@ -341,6 +414,7 @@ describe("SessionMapper", () => {
         createdAt: now,
         stoppedAt: null,
         activeSegmentId: null,
+        note: null,
       };
 
       const session = mapper.toDomain(sessionRow, []);
@@ -357,6 +431,7 @@ describe("SessionMapper", () => {
         createdAt: timestamp as any, // Mock might return number
         stoppedAt: null,
         activeSegmentId: null,
+        note: null,
       };
 
       const session = mapper.toDomain(sessionRow, []);
@@ -392,5 +467,59 @@ describe("SessionMapper", () => {
       );
       expect(reconstructedSession.state).toBe(originalSession.state);
     });
+
+    it("should preserve session and segment notes", () => {
+      const originalSession = Session.createCompleted({
+        categoryId: makeId(),
+        segments: [
+          {
+            startedAt: DateTime.create(0),
+            stoppedAt: DateTime.create(60000),
+          },
+        ],
+        loggedAt: DateTime.create(60000),
+      });
+      const segment = originalSession.history[0]!;
+
+      originalSession.editNote(Note.create("Release"), DateTime.create(0));
+      originalSession.editSegmentNote(
+        segment.id,
+        Note.create("Changelog"),
+        DateTime.create(0),
+      );
+
+      const sessionRow = mapper.sessionToPersistence(originalSession);
+      const segmentRow = mapper.segmentToPersistence(
+        segment,
+        originalSession.id,
+      );
+      const reconstructedSession = mapper.toDomain(sessionRow as SessionRow, [
+        segmentRow as SessionSegmentRow,
+      ]);
+
+      expect(sessionRow.note).toBe("Release");
+      expect(segmentRow.note).toBe("Changelog");
+      expect(reconstructedSession.note?.value).toBe("Release");
+      expect(reconstructedSession.history[0]!.note?.value).toBe("Changelog");
+    });
+
+    it("should preserve tags through tagsToPersistence and toDomain", () => {
+      const originalSession = new Session({
+        id: makeId(),
+        categoryId: makeId(),
+        createdAt: DateTime.create(Date.now()),
+        tags: [Tag.create("Deep-Work")],
+      });
+
+      const reconstructedSession = mapper.toDomain(
+        mapper.sessionToPersistence(originalSession) as SessionRow,
+        [],
+        mapper.tagsToPersistence(originalSession) as SessionTagRow[],
+      );
+
+      expect(reconstructedSession.tags.map((tag) => tag.value)).toEqual([
+        "Deep-Work",
+      ]);
+    });
   });
 });
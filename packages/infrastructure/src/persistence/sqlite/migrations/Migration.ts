@@ -0,0 +1,11 @@
+import type { DbTransaction } from "../db-client";
+
+/**
+ * One step of the schema history. Released migrations are never edited,
+ * schema changes are added as a new version.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(tx: DbTransaction): void;
+}
@@ -0,0 +1,5 @@
+export { migrate, type MigrationResult } from "./migrate";
+
+export type { Migration } from "./Migration";
+
+export { MIGRATIONS } from "./migrations";
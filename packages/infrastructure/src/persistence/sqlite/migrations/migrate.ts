@@ -0,0 +1,118 @@
+import { sql } from "drizzle-orm";
+import { invariant } from "es-toolkit";
+
+import type { DbClient } from "../db-client";
+import type { Migration } from "./Migration";
+
+import {
+  DatabaseVersionError,
+  ForeignKeyConstraintError,
+} from "../../../errors";
+import { MIGRATIONS } from "./migrations";
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+}
+
+/**
+ * Bring the database schema up to date, run once at startup before any
+ * repository query.
+ *
+ * Applied versions are recorded in schema_migrations. Every migration runs in
+ * its own transaction together with its record, so a failing one leaves the
+ * database at the previous version.
+ *
+ * Databases created before schema_migrations existed already hold the
+ * initial tables, they are recorded as version 1 instead of created again.
+ *
+ * Foreign keys are off while migrating, tables are rebuilt to change
+ * constraints, and checked before each commit. They are enforced from
+ * then on.
+ *
+ * @throws DatabaseVersionError when a newer app version migrated the database
+ * @throws ForeignKeyConstraintError when a migration leaves dangling references
+ */
+export function migrate(
+  db: DbClient,
+  migrations: Migration[] = MIGRATIONS,
+): MigrationResult {
+  invariant(
+    migrations.every((migration, i) => migration.version === i + 1),
+    "Migrations must be numbered 1, 2, 3... in order",
+  );
+
+  db.run(sql`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  )`);
+
+  adoptUnversionedSchema(db, migrations);
+
+  const fromVersion = currentVersion(db);
+  const toVersion = migrations.length;
+
+  if (fromVersion > toVersion) {
+    throw new DatabaseVersionError(fromVersion, toVersion);
+  }
+
+  const pending = migrations.slice(fromVersion);
+
+  // Cannot be changed inside a transaction
+  db.run(sql`PRAGMA foreign_keys = OFF`);
+
+  try {
+    for (const migration of pending) {
+      db.transaction((tx) => {
+        migration.up(tx);
+
+        if (tx.all(sql`PRAGMA foreign_key_check`).length > 0) {
+          throw new ForeignKeyConstraintError();
+        }
+
+        tx.run(
+          sql`INSERT INTO schema_migrations (version, name, applied_at)
+            VALUES (${migration.version}, ${migration.name}, ${Date.now()})`,
+        );
+      });
+    }
+  } finally {
+    db.run(sql`PRAGMA foreign_keys = ON`);
+  }
+
+  return {
+    fromVersion,
+    toVersion,
+    applied: pending.map((migration) => migration.version),
+  };
+}
+
+/**
+ * Record the initial migration for tables created without schema_migrations
+ */
+function adoptUnversionedSchema(db: DbClient, migrations: Migration[]): void {
+  const [initial] = migrations;
+
+  if (!initial || currentVersion(db) > 0) return;
+
+  const tables = db.all(
+    sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'categories'`,
+  );
+
+  if (tables.length === 0) return;
+
+  db.run(
+    sql`INSERT INTO schema_migrations (version, name, applied_at)
+      VALUES (${initial.version}, ${initial.name}, ${Date.now()})`,
+  );
+}
+
+function currentVersion(db: DbClient): number {
+  const [row] = db.all<{ version: number | null }>(
+    sql`SELECT MAX(version) AS version FROM schema_migrations`,
+  );
+
+  return row?.version ?? 0;
+}
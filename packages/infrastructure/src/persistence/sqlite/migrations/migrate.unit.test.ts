@@ -0,0 +1,255 @@
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+
+import { Category } from "@wimt/domain/aggregates";
+import { CategoryName, DateTime } from "@wimt/domain/valueObjects";
+
+import { DatabaseVersionError } from "../../../errors";
+import { createSqlJsDbClient, type DbClient } from "../db-client";
+import { SqliteCategoryRepository } from "../SqliteCategoryRepository";
+import { SqliteSessionRepository } from "../SqliteSessionRepository";
+import { migrate } from "./migrate";
+import { MIGRATIONS } from "./migrations";
+
+// Tables and rows of the first release, which had no schema_migrations
+const UNVERSIONED_V1_FIXTURE = `
+  CREATE TABLE categories (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    color TEXT,
+    icon TEXT
+  );
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    category_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    stopped_at INTEGER,
+    active_segment_id TEXT
+  );
+  CREATE TABLE session_segments (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    stopped_at INTEGER
+  );
+
+  INSERT INTO categories VALUES ('c1', 'Work', 1000, '#ff5733', NULL);
+  INSERT INTO categories VALUES ('c2', 'work', 2000, NULL, NULL);
+  INSERT INTO sessions VALUES ('s1', 'c1', 1000, 5000, NULL);
+  INSERT INTO session_segments VALUES ('g1', 's1', 1000, 2000);
+  INSERT INTO session_segments VALUES ('g2', 's1', 3000, 5000);
+
+  -- Written before foreign keys and the one active session index
+  INSERT INTO sessions VALUES ('s2', 'gone', 500, 900, NULL);
+  INSERT INTO session_segments VALUES ('g5', 's2', 500, 900);
+  INSERT INTO session_segments VALUES ('g9', 'deleted', 100, 200);
+  INSERT INTO sessions VALUES ('s3', 'c1', 6000, NULL, 'g3');
+  INSERT INTO session_segments VALUES ('g3', 's3', 6000, NULL);
+  INSERT INTO sessions VALUES ('s4', 'c2', 7000, NULL, 'g4');
+  INSERT INTO session_segments VALUES ('g4', 's4', 7000, NULL);
+`;
+
+// Database as written by the first release, before any later migration
+const V1_FIXTURE = `
+  CREATE TABLE schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  );
+  INSERT INTO schema_migrations VALUES (1, 'initial schema', 0);
+  ${UNVERSIONED_V1_FIXTURE}
+`;
+
+const ALL_VERSIONS = MIGRATIONS.map((migration) => migration.version);
+
+describe("migrate", () => {
+  let SQL: SqlJsStatic;
+  let sqlJsDb: Database;
+  let db: DbClient;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(() => {
+    sqlJsDb = new SQL.Database();
+    db = createSqlJsDbClient(sqlJsDb);
+  });
+
+  afterEach(() => {
+    sqlJsDb.close();
+  });
+
+  const appliedVersions = () =>
+    sqlJsDb
+      .exec("SELECT version FROM schema_migrations ORDER BY version")[0]
+      ?.values.flat() ?? [];
+
+  it("should create the current schema in an empty database", async () => {
+    const result = migrate(db);
+
+    expect(result).toEqual({
+      fromVersion: 0,
+      toVersion: MIGRATIONS.length,
+      applied: ALL_VERSIONS,
+    });
+    expect(appliedVersions()).toEqual(ALL_VERSIONS);
+
+    const repo = new SqliteCategoryRepository(db);
+    const category = new Category({
+      name: CategoryName.create("Work"),
+      createdAt: DateTime.create(1000),
+    });
+
+    await repo.save(category);
+
+    expect((await repo.findById(category.id))?.name.value).toBe("Work");
+  });
+
+  it("should migrate a v1 database to the current schema", async () => {
+    sqlJsDb.exec(V1_FIXTURE);
+
+    const result = migrate(db);
+
+    expect(result.fromVersion).toBe(1);
+    expect(result.applied).toEqual(ALL_VERSIONS.slice(1));
+
+    const categories = new SqliteCategoryRepository(db);
+    const work = await categories.findById("c1");
+    const duplicate = await categories.findById("c2");
+
+    expect(work?.name.value).toBe("Work");
+    expect(work?.color?.value).toBe("#ff5733");
+    expect(work?.updatedAt?.value).toBe(1000);
+    expect(work?.archivedAt).toBeNull();
+    // The younger of two names that collide case-insensitively is renamed
+    expect(duplicate?.name.value).toBe("work (2)");
+
+    const session = await new SqliteSessionRepository(db).findById("s1");
+
+    expect(session?.state).toBe("stopped");
+    expect(session?.history).toHaveLength(2);
+    expect(session?.tags).toEqual([]);
+    expect(session?.note).toBeNull();
+  });
+
+  it("should record tables created without schema_migrations as v1", async () => {
+    sqlJsDb.exec(UNVERSIONED_V1_FIXTURE);
+
+    const result = migrate(db);
+
+    expect(result.fromVersion).toBe(1);
+    expect(result.applied).toEqual(ALL_VERSIONS.slice(1));
+    expect(appliedVersions()).toEqual(ALL_VERSIONS);
+
+    const work = await new SqliteCategoryRepository(db).findById("c1");
+    const session = await new SqliteSessionRepository(db).findById("s1");
+
+    expect(work?.name.value).toBe("Work");
+    expect(session?.history).toHaveLength(2);
+  });
+
+  it("should repair v1 data that breaks the new constraints", async () => {
+    sqlJsDb.exec(V1_FIXTURE);
+    migrate(db);
+
+    const sessions = new SqliteSessionRepository(db);
+    const orphan = await sessions.findById("s2");
+    const restored = await new SqliteCategoryRepository(db).findById("gone");
+
+    // The session of a deleted category is kept under an archived one
+    expect(orphan?.history).toHaveLength(1);
+    expect(restored?.name.value).toBe("Deleted category");
+    expect(restored?.createdAt.value).toBe(500);
+    expect(restored?.isArchived).toBe(true);
+
+    // A segment without session is dropped
+    expect(
+      sqlJsDb.exec("SELECT id FROM session_segments WHERE id = 'g9'"),
+    ).toEqual([]);
+
+    // The older of two active sessions is paused when the newer started
+    const older = await sessions.findById("s3");
+
+    expect(older?.state).toBe("paused");
+    expect(older?.history[0]?.stoppedAt?.value).toBe(7000);
+    expect((await sessions.findById("s4"))?.state).toBe("active");
+  });
+
+  it("should enforce foreign keys once migrated", () => {
+    migrate(db);
+
+    expect(sqlJsDb.exec("PRAGMA foreign_keys")[0]?.values).toEqual([[1]]);
+    expect(() =>
+      sqlJsDb.run(
+        "INSERT INTO sessions (id, category_id, created_at) VALUES ('s', 'missing', 0)",
+      ),
+    ).toThrow("FOREIGN KEY constraint failed");
+  });
+
+  it("should do nothing when the database is up to date", () => {
+    migrate(db);
+
+    expect(migrate(db)).toEqual({
+      fromVersion: MIGRATIONS.length,
+      toVersion: MIGRATIONS.length,
+      applied: [],
+    });
+  });
+
+  it("should refuse a database migrated by a newer app version", () => {
+    migrate(db);
+    sqlJsDb.exec(
+      `INSERT INTO schema_migrations VALUES (${MIGRATIONS.length + 1}, 'future', 0)`,
+    );
+
+    expect(() => migrate(db)).toThrow(DatabaseVersionError);
+    expect(() => migrate(db)).toThrow(
+      `Database schema version ${MIGRATIONS.length + 1} is newer than the supported version ${MIGRATIONS.length}`,
+    );
+  });
+
+  it("should roll back a failing migration and keep the previous version", () => {
+    const failing = {
+      version: MIGRATIONS.length + 1,
+      name: "failing",
+      up: () => {
+        throw new Error("boom");
+      },
+    };
+
+    migrate(db);
+
+    expect(() => migrate(db, [...MIGRATIONS, failing])).toThrow("boom");
+    expect(appliedVersions()).toEqual(ALL_VERSIONS);
+  });
+
+  it("should apply a migration and its record together", () => {
+    const partial = {
+      version: 1,
+      name: "partial",
+      up: MIGRATIONS[0]!.up,
+    };
+    const broken = {
+      version: 2,
+      name: "broken",
+      up: (tx: Parameters<typeof partial.up>[0]) => {
+        MIGRATIONS[1]!.up(tx);
+
+        throw new Error("boom");
+      },
+    };
+
+    expect(() => migrate(db, [partial, broken])).toThrow("boom");
+    expect(appliedVersions()).toEqual([1]);
+    expect(
+      sqlJsDb.exec("PRAGMA table_info(categories)")[0]?.values.map((c) => c[1]),
+    ).not.toContain("archived_at");
+  });
+
+  it("should reject migrations that are not numbered in order", () => {
+    expect(() => migrate(db, [MIGRATIONS[1]!])).toThrow(
+      "Migrations must be numbered 1, 2, 3... in order",
+    );
+  });
+});
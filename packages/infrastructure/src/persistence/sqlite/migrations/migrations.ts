@@ -0,0 +1,239 @@
+import { sql } from "drizzle-orm";
+
+import { CategoryName } from "@wimt/domain/valueObjects";
+
+import type { DbTransaction } from "../db-client";
+import type { Migration } from "./Migration";
+
+const execute = (tx: DbTransaction, ...statements: string[]) =>
+  statements.forEach((statement) => tx.run(sql.raw(statement)));
+
+/**
+ * Schema history, ordered by version
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (tx) =>
+      execute(
+        tx,
+        `CREATE TABLE categories (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          color TEXT,
+          icon TEXT
+        )`,
+        `CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          category_id TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          stopped_at INTEGER,
+          active_segment_id TEXT
+        )`,
+        `CREATE TABLE session_segments (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          stopped_at INTEGER
+        )`,
+      ),
+  },
+  {
+    version: 2,
+    name: "category archiving and hierarchy",
+    up: (tx) =>
+      execute(
+        tx,
+        "ALTER TABLE categories ADD COLUMN archived_at INTEGER",
+        "ALTER TABLE categories ADD COLUMN parent_id TEXT",
+      ),
+  },
+  {
+    version: 3,
+    name: "session and segment notes",
+    up: (tx) =>
+      execute(
+        tx,
+        "ALTER TABLE sessions ADD COLUMN note TEXT",
+        "ALTER TABLE session_segments ADD COLUMN note TEXT",
+      ),
+  },
+  {
+    version: 4,
+    name: "session tags",
+    up: (tx) =>
+      execute(
+        tx,
+        `CREATE TABLE session_tags (
+          session_id TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (session_id, tag)
+        )`,
+      ),
+  },
+  {
+    version: 5,
+    name: "category updated_at and unique name key",
+    up: (tx) => {
+      execute(
+        tx,
+        "ALTER TABLE categories ADD COLUMN updated_at INTEGER",
+        "UPDATE categories SET updated_at = created_at",
+        "ALTER TABLE categories ADD COLUMN name_key TEXT NOT NULL DEFAULT ''",
+      );
+      backfillNameKeys(tx);
+      execute(
+        tx,
+        "CREATE UNIQUE INDEX categories_name_key_unique ON categories (name_key)",
+      );
+    },
+  },
+  {
+    version: 6,
+    name: "foreign keys, indexes and one active session",
+    up: (tx) => {
+      restoreMissingCategories(tx);
+      pauseConcurrentSessions(tx);
+      execute(
+        tx,
+        "DELETE FROM session_segments WHERE session_id NOT IN (SELECT id FROM sessions)",
+        "DELETE FROM session_tags WHERE session_id NOT IN (SELECT id FROM sessions)",
+        // SQLite cannot add constraints to a table, so tables are rebuilt
+        `CREATE TABLE sessions_new (
+          id TEXT PRIMARY KEY,
+          category_id TEXT NOT NULL REFERENCES categories (id) ON DELETE RESTRICT,
+          created_at INTEGER NOT NULL,
+          stopped_at INTEGER,
+          active_segment_id TEXT,
+          note TEXT
+        )`,
+        `INSERT INTO sessions_new (id, category_id, created_at, stopped_at, active_segment_id, note)
+          SELECT id, category_id, created_at, stopped_at, active_segment_id, note FROM sessions`,
+        "DROP TABLE sessions",
+        "ALTER TABLE sessions_new RENAME TO sessions",
+        `CREATE TABLE session_segments_new (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+          started_at INTEGER NOT NULL,
+          stopped_at INTEGER,
+          note TEXT
+        )`,
+        `INSERT INTO session_segments_new (id, session_id, started_at, stopped_at, note)
+          SELECT id, session_id, started_at, stopped_at, note FROM session_segments`,
+        "DROP TABLE session_segments",
+        "ALTER TABLE session_segments_new RENAME TO session_segments",
+        `CREATE TABLE session_tags_new (
+          session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (session_id, tag)
+        )`,
+        `INSERT INTO session_tags_new (session_id, tag)
+          SELECT session_id, tag FROM session_tags`,
+        "DROP TABLE session_tags",
+        "ALTER TABLE session_tags_new RENAME TO session_tags",
+        "CREATE INDEX sessions_category_id_idx ON sessions (category_id)",
+        "CREATE INDEX sessions_created_at_idx ON sessions (created_at)",
+        "CREATE INDEX sessions_stopped_at_idx ON sessions (stopped_at)",
+        `CREATE UNIQUE INDEX sessions_one_active_unique ON sessions ((1))
+          WHERE stopped_at IS NULL AND active_segment_id IS NOT NULL`,
+        "CREATE INDEX session_segments_session_id_idx ON session_segments (session_id, started_at)",
+      );
+    },
+  },
+];
+
+/**
+ * SQLite cannot normalize Unicode, so keys come from CategoryName.
+ * Names that collide are suffixed, the oldest category keeps its name.
+ */
+function backfillNameKeys(tx: DbTransaction): void {
+  const rows = tx.all<{ id: string; name: string }>(
+    sql`SELECT id, name FROM categories ORDER BY created_at, id`,
+  );
+  const taken = new Set<string>();
+
+  for (const row of rows) {
+    const name = uniqueName(row.name, taken);
+
+    tx.run(
+      sql`UPDATE categories SET name = ${name.value}, name_key = ${name.key} WHERE id = ${row.id}`,
+    );
+  }
+}
+
+/**
+ * Only one session can be active. When several are, every one but the
+ * latest started is paused at the moment the latest started.
+ */
+function pauseConcurrentSessions(tx: DbTransaction): void {
+  const [latest, ...others] = tx.all<{
+    id: string;
+    segmentId: string;
+    startedAt: number;
+  }>(
+    sql`SELECT s.id AS id, g.id AS segmentId, g.started_at AS startedAt
+      FROM sessions s JOIN session_segments g ON g.id = s.active_segment_id
+      WHERE s.stopped_at IS NULL
+      ORDER BY g.started_at DESC, s.id DESC`,
+  );
+
+  for (const session of others) {
+    tx.run(
+      sql`UPDATE session_segments SET stopped_at = ${latest!.startedAt} WHERE id = ${session.segmentId}`,
+    );
+    tx.run(
+      sql`UPDATE sessions SET active_segment_id = NULL WHERE id = ${session.id}`,
+    );
+  }
+}
+
+/**
+ * Sessions of categories deleted before foreign keys existed keep their
+ * history under an archived "Deleted category"
+ */
+function restoreMissingCategories(tx: DbTransaction): void {
+  const missing = tx.all<{ categoryId: string; createdAt: number }>(
+    sql`SELECT category_id AS categoryId, MIN(created_at) AS createdAt
+      FROM sessions
+      WHERE category_id NOT IN (SELECT id FROM categories)
+      GROUP BY category_id
+      ORDER BY category_id`,
+  );
+  const taken = new Set(
+    tx
+      .all<{ nameKey: string }>(sql`SELECT name_key AS nameKey FROM categories`)
+      .map((row) => row.nameKey),
+  );
+  const now = Date.now();
+
+  for (const { categoryId, createdAt } of missing) {
+    const name = uniqueName("Deleted category", taken);
+
+    tx.run(
+      sql`INSERT INTO categories (id, name, name_key, created_at, archived_at, updated_at)
+        VALUES (${categoryId}, ${name.value}, ${name.key}, ${createdAt}, ${now}, ${now})`,
+    );
+  }
+}
+
+/**
+ * The name, suffixed with " (2)", " (3)"... until its key is not taken yet.
+ * The key is added to taken.
+ */
+function uniqueName(value: string, taken: Set<string>): CategoryName {
+  let name = CategoryName.create(value);
+
+  for (let n = 2; taken.has(name.key); n++) {
+    const suffix = ` (${n})`;
+
+    name = CategoryName.create(
+      value.slice(0, CategoryName.MAX_LENGTH - suffix.length) + suffix,
+    );
+  }
+
+  taken.add(name.key);
+
+  return name;
+}
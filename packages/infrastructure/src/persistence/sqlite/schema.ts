@@ -1,12 +1,29 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 
-export const categories = sqliteTable("categories", {
-  id: text("id").primaryKey(),
-  name: text("name").notNull(),
-  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
-  color: text("color"),
-  icon: text("icon"),
-});
+export const categories = sqliteTable(
+  "categories",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    // CategoryName.key, SQLite cannot case-fold or normalize Unicode itself
+    nameKey: text("name_key").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    color: text("color"),
+    icon: text("icon"),
+    archivedAt: integer("archived_at", { mode: "timestamp_ms" }),
+    parentId: text("parent_id"),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }),
+  },
+  (table) => [uniqueIndex("categories_name_key_unique").on(table.nameKey)],
+);
 
 // What you select from database
 export type CategoryRow = typeof categories.$inferSelect;
@@ -14,25 +31,72 @@ export type CategoryRow = typeof categories.$inferSelect;
 // What you insert into database
 export type NewCategoryRow = typeof categories.$inferInsert;
 
-export const sessions = sqliteTable("sessions", {
-  id: text("id").primaryKey(),
-  categoryId: text("category_id").notNull(),
-  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
-  stoppedAt: integer("stopped_at", { mode: "timestamp_ms" }),
-  activeSegmentId: text("active_segment_id"),
-});
+// A category with sessions cannot be deleted, they are reassigned or
+// deleted first (DeleteCategoryUseCase)
+export const sessions = sqliteTable(
+  "sessions",
+  {
+    id: text("id").primaryKey(),
+    categoryId: text("category_id")
+      .notNull()
+      .references(() => categories.id, { onDelete: "restrict" }),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    stoppedAt: integer("stopped_at", { mode: "timestamp_ms" }),
+    activeSegmentId: text("active_segment_id"),
+    note: text("note"),
+  },
+  (table) => [
+    index("sessions_category_id_idx").on(table.categoryId),
+    index("sessions_created_at_idx").on(table.createdAt),
+    index("sessions_stopped_at_idx").on(table.stoppedAt),
+    // At most one active session, also serves the active session lookup
+    uniqueIndex("sessions_one_active_unique")
+      .on(sql`(1)`)
+      .where(
+        sql`${table.stoppedAt} IS NULL AND ${table.activeSegmentId} IS NOT NULL`,
+      ),
+  ],
+);
 
 export type NewSessionRow = typeof sessions.$inferInsert;
 
 export type SessionRow = typeof sessions.$inferSelect;
 
-export const sessionSegments = sqliteTable("session_segments", {
-  id: text("id").primaryKey(),
-  sessionId: text("session_id").notNull(),
-  startedAt: integer("started_at", { mode: "timestamp_ms" }).notNull(),
-  stoppedAt: integer("stopped_at", { mode: "timestamp_ms" }),
-});
+// Segments and tags belong to the session and are deleted with it
+export const sessionSegments = sqliteTable(
+  "session_segments",
+  {
+    id: text("id").primaryKey(),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.id, { onDelete: "cascade" }),
+    startedAt: integer("started_at", { mode: "timestamp_ms" }).notNull(),
+    stoppedAt: integer("stopped_at", { mode: "timestamp_ms" }),
+    note: text("note"),
+  },
+  (table) => [
+    index("session_segments_session_id_idx").on(
+      table.sessionId,
+      table.startedAt,
+    ),
+  ],
+);
 
 export type NewSessionSegmentRow = typeof sessionSegments.$inferInsert;
 
 export type SessionSegmentRow = typeof sessionSegments.$inferSelect;
+
+export const sessionTags = sqliteTable(
+  "session_tags",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.id, { onDelete: "cascade" }),
+    tag: text("tag").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.sessionId, table.tag] })],
+);
+
+export type NewSessionTagRow = typeof sessionTags.$inferInsert;
+
+export type SessionTagRow = typeof sessionTags.$inferSelect;